@@ -1,22 +1,46 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveSession, LiveServerMessage, Modality } from '@google/genai';
-import { categorizeNote } from './services/geminiService';
-import { Note, AppState, UserSettings } from './types';
-import { createBlob } from './utils/audioUtils';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { extractTasks, fallbackResult } from './services/geminiService';
+import { createCategorizationProvider } from './services/categorizationService';
+import { TranscriptionProvider, TranscriptionEvent } from './services/transcriptionProvider';
+import { createTranscriptionProvider } from './services/transcriptionService';
+import { createWebhookQueue, WebhookQueue } from './services/webhookQueue';
+import { CategorizationQueue, createCategorizationQueue } from './services/categorizationQueue';
+import { createSyncEngine, SyncEngine } from './services/syncEngine';
+import { createRestSyncBackend } from './services/restSyncBackend';
+import { transcribeAudioFile } from './services/audioImportService';
+import { AudioCapture, DEFAULT_FRAME_SIZE, openMicrophone, startAudioCapture } from './services/audioCapture';
+import { deleteAudio, deleteNote, deleteTask, getVaultStatus, loadNotes, loadSettings, loadTasks, lockVault, saveAudio, saveNote, saveNoteCategorizationStatus, saveNoteDeliveryStatus, saveNotes, saveSettings, saveTasks, unlockVault } from './services/storageService';
+import { Note, AppState, UserSettings, NoteEdit, DraftNote, Task, CategorizationResult, PendingAppend, DeliveryStatus, CategorizationStatus, SyncStatus, VaultStatus } from './types';
+import { createBlob, PCM_SAMPLE_RATE } from './utils/audioUtils';
+import { encodeWav, framesDuration } from './utils/wavUtils';
+import { appendToNoteText, applyCategorization, migrateNoteCategories, replaceCategoryPrefix, stripCategoryPrefix } from './utils/noteUtils';
+import { findNewNotes } from './utils/noteExport';
+import { applyNoteEdit, restoreRevision } from './utils/revisionUtils';
+import { DEFAULT_CATEGORIES, normalizeCategories, resolveCategory } from './utils/categoryUtils';
+import { createTasks } from './utils/taskUtils';
+import { applyVoiceCommands, describeCommand, resolveVoiceCommands, VoiceCommandResult } from './utils/voiceCommands';
+import { formatTranscript, resolveFormatting } from './utils/formatting';
+import { createVoiceActivityDetector, DEFAULT_SILENCE, frameLevel, MIN_SIGNAL_LEVEL, NO_SIGNAL_WARNING_MS, SEGMENT_BREAK } from './utils/voiceActivity';
+import { applyAutomationRules, shouldAutoSave, webhookTargetsFor } from './utils/automationRules';
+import { IMPORT_AUDIO_ACCEPT, isImportableAudio } from './utils/audioImport';
 import { DictationButton } from './components/DictationButton';
 import { CurrentNoteCard } from './components/CurrentNoteCard';
+import { AppendReviewCard } from './components/AppendReviewCard';
 import { SavedNotesList } from './components/SavedNotesList';
 import { Onboarding } from './components/Onboarding';
-import { LoadingSpinner, LogoIcon } from './components/icons';
+import { Settings } from './components/Settings';
+import { TaskList } from './components/TaskList';
+import { UnlockScreen } from './components/UnlockScreen';
+import { LoadingSpinner, LockClosedIcon, LogoIcon, SettingsIcon, UploadIcon } from './components/icons';
 
 /**
- * Default user settings, used when no settings are found in localStorage.
+ * Default user settings, used when no settings are found in storage.
  */
 const defaultSettings: UserSettings = {
   onboardingComplete: false,
   defaultEmail: '',
   otherEmails: [],
-  categories: ["Work", "Podcast Notes", "Ideas", "To-Do", "Follow-ups"]
+  categories: DEFAULT_CATEGORIES
 };
 
 /**
@@ -28,109 +52,657 @@ const defaultSettings: UserSettings = {
 const App: React.FC = () => {
     /** Manages the current state of the application (e.g., IDLE, RECORDING). */
     const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-    /** Holds the real-time transcription text from the microphone. */
+    /** Holds the real-time transcription text from the microphone, including any spoken commands. */
     const [currentTranscription, setCurrentTranscription] = useState<string>('');
-    /** Stores the processed and categorized note before it's saved or discarded. */
-    const [currentNote, setCurrentNote] = useState<Omit<Note, 'id' | 'timestamp'> | null>(null);
+    /** Whether a dropped transcription session is being replaced. */
+    const [isReconnecting, setIsReconnecting] = useState<boolean>(false);
+    /** The loudness of the latest microphone frame, from 0 to 1, for the level meter. */
+    const [inputLevel, setInputLevel] = useState<number>(0);
+    /** A warning shown when the microphone hasn't picked up any sound since recording started. */
+    const [noSignalWarning, setNoSignalWarning] = useState<string | null>(null);
+    /** A short confirmation of the last voice command, shown while recording. */
+    const [commandNotice, setCommandNotice] = useState<string | null>(null);
+    /** The processed and categorized notes from the last recording, until each is saved or discarded. */
+    const [reviewNotes, setReviewNotes] = useState<DraftNote[]>([]);
+    /** The id of the saved note the current recording is added to, if the user is appending by voice. */
+    const [appendTargetId, setAppendTargetId] = useState<string | null>(null);
+    /** Tells the user which notes automation rules saved without review. */
+    const [automationNotice, setAutomationNotice] = useState<string | null>(null);
+    /** Text dictated onto a saved note, until the user confirms or discards it. */
+    const [pendingAppend, setPendingAppend] = useState<PendingAppend | null>(null);
     /** An array of all notes saved by the user. */
     const [savedNotes, setSavedNotes] = useState<Note[]>([]);
+    /** The task list, built from action items in saved notes. */
+    const [tasks, setTasks] = useState<Task[]>([]);
+    /** Whether the saved notes or the task list are shown below the dictation area. */
+    const [view, setView] = useState<'notes' | 'tasks'>('notes');
     /** Stores any error messages to be displayed to the user. */
     const [error, setError] = useState<string | null>(null);
-    /** Tracks whether the app has finished its initial load from localStorage. */
+    /** Tracks whether the app has finished its initial load from storage. */
     const [isInitialized, setIsInitialized] = useState<boolean>(false);
-    /** Holds the user's settings, loaded from and persisted to localStorage. */
+    /** Holds the user's settings, loaded from and persisted to storage. */
     const [settings, setSettings] = useState<UserSettings>(defaultSettings);
-    /** A flag to track if the current note was just emailed, for display purposes. */
-    const [justEmailed, setJustEmailed] = useState<boolean>(false);
+    /** Whether the settings screen is currently shown in place of the dictation view. */
+    const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
 
-    /** A ref to hold the promise that resolves to the Gemini LiveSession. */
-    const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
-    /** A ref for the browser's AudioContext to manage audio processing. */
-    const audioContextRef = useRef<AudioContext | null>(null);
-    /** A ref for the ScriptProcessorNode used to handle audio data chunks. */
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-    /** A ref for the audio source from the user's media stream (microphone). */
-    const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+    /** The number of voice commands already confirmed in the current recording. */
+    const confirmedCommandCountRef = useRef(0);
+    /** A ref to the transcription provider of the active recording session. */
+    const providerRef = useRef<TranscriptionProvider | null>(null);
+    /** A ref to the function that unsubscribes from the active provider's events. */
+    const unsubscribeProviderRef = useRef<(() => void) | null>(null);
+    /** A ref for the microphone stream, so its tracks can be stopped when recording ends. */
+    const mediaStreamRef = useRef<MediaStream | null>(null);
+    /** Whether the microphone has picked up any sound since the session started. */
+    const signalHeardRef = useRef(false);
+    /** The timer that warns if the microphone stays silent after the session starts. */
+    const noSignalTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    /** A ref for the AudioWorklet capture pipeline that turns microphone input into PCM frames. */
+    const audioCaptureRef = useRef<AudioCapture | null>(null);
+    /** The PCM frames of the current recording, one list per segment, collected when the user keeps audio with notes. */
+    const recordedSegmentsRef = useRef<Int16Array[][]>([[]]);
+    /** The queue that delivers saved notes to webhook targets. */
+    const webhookQueueRef = useRef<WebhookQueue | null>(null);
+    /** The queue of notes saved before the AI model could categorize them. */
+    const categorizationQueueRef = useRef<CategorizationQueue | null>(null);
+    /** The engine that syncs notes and settings with the sync server, while sync is turned on. */
+    const syncEngineRef = useRef<SyncEngine | null>(null);
+    /** How syncing is going, or null while sync is turned off. */
+    const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+    /** What an audio import is doing, shown while it is processed, or null when not importing. */
+    const [importProgress, setImportProgress] = useState<string | null>(null);
+    /** Whether notes are encrypted and locked, or null until storage has been checked. */
+    const [vaultStatus, setVaultStatus] = useState<VaultStatus | null>(null);
+    /** The latest settings, for callbacks that outlive a render. */
+    const settingsRef = useRef<UserSettings>(settings);
+    settingsRef.current = settings;
+    /** The latest saved notes, for callbacks that outlive a render. */
+    const savedNotesRef = useRef<Note[]>(savedNotes);
+    savedNotesRef.current = savedNotes;
+    /** Set when the speaker has been silent for the auto-stop timeout. */
+    const [isSilenceTimeout, setIsSilenceTimeout] = useState<boolean>(false);
 
     /**
-     * Effect hook to load user settings and saved notes from localStorage on initial app load.
+     * Loads user settings, saved notes and tasks from storage into state.
+     */
+    const loadFromStorage = async () => {
+        const [storedSettings, storedNotes, storedTasks] = await Promise.all([loadSettings(), loadNotes(), loadTasks()]);
+        if (storedSettings) {
+            setSettings({ ...storedSettings, categories: normalizeCategories(storedSettings.categories) });
+        }
+        setSavedNotes(storedNotes);
+        setTasks(storedTasks);
+    };
+
+    /**
+     * Effect hook to load user settings and saved notes from storage on initial app load.
+     * The storage layer migrates data left in localStorage by older versions on first run.
+     * If the vault is locked, nothing is loaded until the unlock screen unlocks it.
      */
     useEffect(() => {
-        try {
-            const storedSettings = localStorage.getItem('quickNotesSettings');
-            if (storedSettings) {
-                setSettings(JSON.parse(storedSettings));
-            }
-            const storedNotes = localStorage.getItem('quickNotesNotes');
-            if (storedNotes) {
-                const parsedNotes = JSON.parse(storedNotes).map((note: Note) => ({
-                    ...note,
-                    timestamp: new Date(note.timestamp),
-                }));
-                setSavedNotes(parsedNotes);
+        const load = async () => {
+            try {
+                const status = await getVaultStatus();
+                setVaultStatus(status);
+                if (status.locked) return;
+                await loadFromStorage();
+            } catch (e) {
+                console.error("Failed to load data from storage", e);
             }
+            setIsInitialized(true);
+        };
+        load();
+    }, []);
+
+    /**
+     * Unlocks the vault and loads the decrypted notes and settings.
+     * @param {string} passphrase - The passphrase the user entered.
+     * @returns {Promise<boolean>} False if the passphrase is wrong.
+     */
+    const handleUnlock = async (passphrase: string): Promise<boolean> => {
+        if (!await unlockVault(passphrase)) return false;
+        try {
+            await loadFromStorage();
         } catch (e) {
-            console.error("Failed to parse data from localStorage", e);
+            console.error("Failed to load data from storage", e);
         }
+        setVaultStatus(status => status && { ...status, locked: false });
         setIsInitialized(true);
+        return true;
+    };
+
+    /**
+     * Locks the vault and drops the decrypted notes, tasks and settings from memory.
+     * Notes still waiting for review are kept, so they aren't lost.
+     */
+    const handleLock = useCallback(() => {
+        lockVault();
+        setIsSettingsOpen(false);
+        setSavedNotes([]);
+        setTasks([]);
+        setSettings(defaultSettings);
+        setVaultStatus(status => status && { ...status, locked: true });
+        setIsInitialized(false);
     }, []);
 
     /**
-     * Effect hook to persist the `savedNotes` array to localStorage whenever it changes.
+     * Effect hook that starts the webhook delivery queue once storage is loaded.
+     * Deliveries left over from earlier sessions are sent right away.
      */
     useEffect(() => {
-        if (isInitialized) {
-            try {
-                localStorage.setItem('quickNotesNotes', JSON.stringify(savedNotes));
-            } catch (e) {
-                console.error("Failed to save notes to localStorage", e);
-            }
+        if (!isInitialized) return;
+        const queue = createWebhookQueue({
+            getTargets: () => settingsRef.current.webhooks ?? [],
+            onStatusChange: (noteId: string, targetId: string, status: DeliveryStatus) => {
+                setSavedNotes(notes => notes.map(note =>
+                    note.id === noteId ? { ...note, deliveries: { ...note.deliveries, [targetId]: status } } : note));
+                saveNoteDeliveryStatus(noteId, targetId, status).catch(e => console.error("Failed to save delivery status", e));
+            },
+        });
+        webhookQueueRef.current = queue;
+        return () => {
+            queue.stop();
+            webhookQueueRef.current = null;
+        };
+    }, [isInitialized]);
+
+    /**
+     * Effect hook that starts the categorization queue once storage is loaded.
+     * Notes left waiting by earlier sessions are retried right away when online.
+     */
+    useEffect(() => {
+        if (!isInitialized) return;
+        const queue = createCategorizationQueue({
+            categorize: (noteId: string) => categorizeSavedNote(noteId),
+            onStatusChange: (noteId: string, status: CategorizationStatus | undefined) => {
+                setSavedNotes(notes => notes.map(note => note.id === noteId ? { ...note, categorization: status } : note));
+                saveNoteCategorizationStatus(noteId, status).catch(e => console.error("Failed to save categorization status", e));
+            },
+        });
+        categorizationQueueRef.current = queue;
+        return () => {
+            queue.stop();
+            categorizationQueueRef.current = null;
+        };
+    }, [isInitialized]);
+
+    /**
+     * Effect hook that runs the sync engine while sync is turned on, restarting it
+     * when the server or token changes. Changes pulled from other devices are
+     * reloaded from storage.
+     */
+    const syncSettings = settings.sync;
+    useEffect(() => {
+        if (!isInitialized || !syncSettings?.enabled) {
+            setSyncStatus(null);
+            return;
         }
-    }, [savedNotes, isInitialized]);
+        const engine = createSyncEngine({
+            backend: createRestSyncBackend(syncSettings),
+            onRemoteChanges: () => {
+                loadFromStorage().catch(e => console.error("Failed to load synced changes", e));
+            },
+            onStatusChange: setSyncStatus,
+        });
+        syncEngineRef.current = engine;
+        return () => {
+            engine.stop();
+            syncEngineRef.current = null;
+        };
+    }, [isInitialized, syncSettings?.enabled, syncSettings?.url, syncSettings?.token]);
+
+    /**
+     * Effect hook that syncs shortly after notes or settings change on this device.
+     */
+    useEffect(() => {
+        syncEngineRef.current?.requestSync();
+    }, [savedNotes, settings]);
+
+    /**
+     * Effect hook that locks the vault after the auto-lock timeout without any
+     * input. The timeout doesn't run while recording or processing a dictation.
+     */
+    const autoLockMinutes = vaultStatus?.enabled ? vaultStatus.autoLockMinutes : 0;
+    const isDictating = appState === AppState.RECORDING || appState === AppState.PROCESSING;
+    useEffect(() => {
+        if (!isInitialized || autoLockMinutes <= 0 || isDictating) return;
+        const timeoutMs = autoLockMinutes * 60000;
+        let timer = setTimeout(handleLock, timeoutMs);
+        const handleActivity = () => {
+            clearTimeout(timer);
+            timer = setTimeout(handleLock, timeoutMs);
+        };
+        const events = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+        events.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+        return () => {
+            clearTimeout(timer);
+            events.forEach(event => window.removeEventListener(event, handleActivity));
+        };
+    }, [isInitialized, autoLockMinutes, isDictating, handleLock]);
+
+    /**
+     * The note text of each segment of the current recording, with voice commands applied.
+     * Long pauses split a recording into segments, each of which becomes its own note.
+     * The whole transcript is re-parsed as it grows, so commands split across partials still count.
+     */
+    const dictationSegments: VoiceCommandResult[] = useMemo(() => {
+        const phrases = resolveVoiceCommands(settings.voiceCommands);
+        const context = {
+            categories: settings.categories,
+            emailAddresses: [settings.defaultEmail, ...settings.otherEmails].filter(Boolean),
+        };
+        return currentTranscription.split(SEGMENT_BREAK).map((segment): VoiceCommandResult =>
+            settings.voiceCommandsEnabled === false
+                ? { text: segment.trim(), commands: [], stop: false }
+                : applyVoiceCommands(segment, phrases, context));
+    }, [currentTranscription, settings]);
+
+    /**
+     * The voice commands found in the whole recording, and whether one of them asked to stop.
+     */
+    const dictation = useMemo(() => ({
+        commands: dictationSegments.flatMap(segment => segment.commands),
+        stop: dictationSegments.some(segment => segment.stop),
+    }), [dictationSegments]);
+
+    /**
+     * Effect hook that confirms newly recognized voice commands on screen.
+     */
+    useEffect(() => {
+        if (dictation.commands.length <= confirmedCommandCountRef.current) {
+            return;
+        }
+        confirmedCommandCountRef.current = dictation.commands.length;
+        setCommandNotice(describeCommand(dictation.commands[dictation.commands.length - 1]));
+        const timer = setTimeout(() => setCommandNotice(null), 2000);
+        return () => clearTimeout(timer);
+    }, [dictation]);
+
+    /**
+     * Updates the settings in state and persists them to storage.
+     * @param {UserSettings} newSettings - The settings to store.
+     */
+    const persistSettings = (newSettings: UserSettings) => {
+        setSettings(newSettings);
+        saveSettings(newSettings).catch(e => console.error("Failed to save settings", e));
+    };
 
     /**
      * Callback function to handle the completion of the onboarding process.
-     * Saves the new settings to state and localStorage.
+     * Saves the new settings to state and storage.
      * @param {Omit<UserSettings, 'onboardingComplete'>} newSettings - The settings collected from the onboarding form.
      */
     const handleOnboardingComplete = (newSettings: Omit<UserSettings, 'onboardingComplete'>) => {
-        const finalSettings = { ...newSettings, onboardingComplete: true };
-        setSettings(finalSettings);
+        persistSettings({ ...newSettings, onboardingComplete: true });
+    };
+
+    /**
+     * Saves the settings edited on the settings screen and migrates saved notes
+     * whose categories were renamed or deleted.
+     * @param {UserSettings} newSettings - The updated settings.
+     */
+    const handleSettingsSave = (newSettings: UserSettings) => {
+        const migratedNotes = migrateNoteCategories(savedNotes, settings.categories, newSettings.categories);
+        const changedNotes = migratedNotes.filter((note, index) => note !== savedNotes[index]);
+        persistSettings(newSettings);
+        setSavedNotes(migratedNotes);
+        saveNotes(changedNotes).catch(e => console.error("Failed to migrate note categories", e));
+        setIsSettingsOpen(false);
+    };
+
+    /**
+     * Sends the user back to the onboarding screen. Existing settings are kept
+     * so the onboarding form can be pre-filled.
+     */
+    const handleResetOnboarding = () => {
+        persistSettings({ ...settings, onboardingComplete: false });
+        setIsSettingsOpen(false);
+    };
+
+    /**
+     * Adds imported notes to the saved notes, skipping notes that already exist.
+     * @param {Note[]} notes - The notes read from an import file.
+     * @returns {Promise<number>} The number of notes that were added.
+     */
+    const handleImportNotes = async (notes: Note[]): Promise<number> => {
+        const newNotes = findNewNotes(savedNotes, notes);
+        await saveNotes(newNotes);
+        setSavedNotes(prev => [...newNotes, ...prev].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+        return newNotes.length;
+    };
+
+    /**
+     * Stops the active transcription provider and tears down the audio pipeline.
+     */
+    const stopTranscription = async () => {
+        // Stop capturing first, so the last buffered frame still reaches the provider.
+        const capture = audioCaptureRef.current;
+        audioCaptureRef.current = null;
+        if (capture) {
+            await capture.stop();
+        }
+
+        const provider = providerRef.current;
+        providerRef.current = null;
+        if (provider) {
+            await provider.stop();
+        }
+        unsubscribeProviderRef.current?.();
+        unsubscribeProviderRef.current = null;
+
+        mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+        mediaStreamRef.current = null;
+        if (noSignalTimerRef.current) clearTimeout(noSignalTimerRef.current);
+        noSignalTimerRef.current = null;
+        setIsReconnecting(false);
+        setInputLevel(0);
+        setNoSignalWarning(null);
+    };
+
+    /**
+     * Ends the transcript so far with a space, so text from a new session
+     * doesn't run into the last word of the previous one.
+     */
+    const separateTranscript = () => {
+        setCurrentTranscription(prev => prev && !/\s$/.test(prev) ? `${prev} ` : prev);
+    };
+
+    /**
+     * Handles events from the active transcription provider.
+     * @param {TranscriptionEvent} event - The event emitted by the provider.
+     */
+    const handleTranscriptionEvent = (event: TranscriptionEvent) => {
+        switch (event.type) {
+            case 'partial':
+                // Formatting runs once on the final transcript, when recording stops.
+                setCurrentTranscription(prev => prev + event.text);
+                break;
+            case 'reconnecting':
+                setIsReconnecting(true);
+                break;
+            case 'reconnected':
+                setIsReconnecting(false);
+                separateTranscript();
+                break;
+            case 'error':
+                // Keep what has been dictated; the user can resume or stop and save it.
+                console.error('Transcription error:', event.error);
+                setError('The connection to the transcription service was lost. Resume to try again, or stop to keep what you have dictated.');
+                setAppState(AppState.PAUSED);
+                stopTranscription();
+                break;
+            case 'close':
+                mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+                break;
+        }
+    };
+
+    /**
+     * Encodes the frames collected during a segment of the recording as WAV and stores them.
+     * @param {Int16Array[]} frames - The PCM frames of the segment.
+     * @returns {Promise<Pick<Note, 'audioId' | 'audioDuration'>>} The fields linking the recording to a note, or an empty object if nothing was recorded.
+     */
+    const storeRecording = async (frames: Int16Array[]): Promise<Pick<Note, 'audioId' | 'audioDuration'>> => {
+        if (frames.length === 0) {
+            return {};
+        }
+        const audioId = crypto.randomUUID();
         try {
-            localStorage.setItem('quickNotesSettings', JSON.stringify(finalSettings));
+            await saveAudio(audioId, encodeWav(frames, PCM_SAMPLE_RATE));
+            return { audioId, audioDuration: framesDuration(frames, PCM_SAMPLE_RATE) };
         } catch (e) {
-            console.error("Failed to save settings to localStorage", e);
+            console.error("Failed to save recording", e);
+            return {};
+        }
+    };
+
+    /**
+     * Opens a transcription session and starts sending microphone audio to it.
+     * Text from the session is appended to the current transcript.
+     * @param {AppState} fallbackState - The state to return to if the session can't be started.
+     */
+    const startSession = async (fallbackState: AppState) => {
+        setAppState(AppState.RECORDING);
+        setIsSilenceTimeout(false);
+        const keepAudio = settings.keepAudio ?? false;
+        const { autoStopSeconds, splitSeconds } = settings.silence ?? DEFAULT_SILENCE;
+        const voiceActivity = createVoiceActivityDetector(PCM_SAMPLE_RATE);
+        // Whether there has been speech since the last split, so one pause splits only once.
+        let segmentHasSpeech = false;
+
+        const provider = createTranscriptionProvider();
+        providerRef.current = provider;
+        unsubscribeProviderRef.current = provider.subscribe(handleTranscriptionEvent);
+
+        let stream: MediaStream | null = null;
+        if (provider.requiresAudio) {
+            try {
+                const microphone = await openMicrophone(settings.microphone?.deviceId);
+                stream = microphone.stream;
+                mediaStreamRef.current = stream;
+                if (microphone.isFallback) {
+                    setError("The microphone chosen in settings wasn't found, so the default microphone is used.");
+                }
+            } catch (err) {
+                console.error("Failed to access microphone:", err);
+                setError("Could not access microphone. Please grant permission and try again.");
+                setAppState(fallbackState);
+                await stopTranscription();
+                return;
+            }
+        }
+
+        try {
+            await provider.start();
+        } catch (err) {
+            console.error("Failed to start recording:", err);
+            setError("Could not connect to the transcription service. Please try again.");
+            setAppState(fallbackState);
+            await stopTranscription();
+            return;
+        }
+
+        if (stream) {
+            signalHeardRef.current = false;
+            try {
+                audioCaptureRef.current = await startAudioCapture(stream, {
+                    frameSize: DEFAULT_FRAME_SIZE,
+                    gain: settings.microphone?.gain ?? 1,
+                    onFrame: (pcm) => {
+                        provider.sendAudio(createBlob(pcm));
+                        const level = frameLevel(pcm);
+                        setInputLevel(level);
+                        if (level >= MIN_SIGNAL_LEVEL) {
+                            signalHeardRef.current = true;
+                            setNoSignalWarning(null);
+                        }
+                        const segments = recordedSegmentsRef.current;
+                        if (keepAudio) {
+                            segments[segments.length - 1].push(pcm);
+                        }
+
+                        const activity = voiceActivity.process(pcm);
+                        segmentHasSpeech = segmentHasSpeech || activity.isSpeech;
+                        if (splitSeconds > 0 && segmentHasSpeech && activity.silenceMs >= splitSeconds * 1000) {
+                            // By now the speech before the pause has been transcribed, so the break lands after it.
+                            segmentHasSpeech = false;
+                            segments.push([]);
+                            setCurrentTranscription(prev => prev + SEGMENT_BREAK);
+                        }
+                        if (autoStopSeconds > 0 && activity.hasSpoken && activity.silenceMs >= autoStopSeconds * 1000) {
+                            setIsSilenceTimeout(true);
+                        }
+                    },
+                });
+                // A wrong, muted or broken microphone delivers silence, so "Listening..." would never change.
+                const label = stream.getAudioTracks()[0]?.label;
+                noSignalTimerRef.current = setTimeout(() => {
+                    if (!signalHeardRef.current) {
+                        setNoSignalWarning(`No sound is coming from ${label || 'the microphone'}. Check that it isn't muted and is the one chosen in Settings › Recording, or raise the input gain there.`);
+                    }
+                }, NO_SIGNAL_WARNING_MS);
+            } catch (err) {
+                console.error("Failed to start audio capture:", err);
+                setError("Could not start audio capture in this browser.");
+                setAppState(fallbackState);
+                await stopTranscription();
+            }
+        }
+    };
+
+    /**
+     * Creates the categorizer chosen in settings. The local categorizer learns from the saved notes.
+     * @returns {CategorizationProvider} The categorizer.
+     */
+    const createCategorizer = () => createCategorizationProvider(settingsRef.current.categorizer, () => savedNotesRef.current);
+
+    /**
+     * Turns one segment of a finished recording into a note for review: categorizes
+     * and formats it, extracts tasks where the category asks for them, stores its audio,
+     * and applies the automation rules for its category. If the AI model can't be
+     * reached, the note is marked as waiting for categorization instead; it is
+     * queued when saved, and its rules run once it is categorized.
+     * @param {VoiceCommandResult} segment - The segment's text, with voice commands applied.
+     * @param {Int16Array[]} frames - The audio recorded for the segment.
+     * @returns {Promise<DraftNote>} The note to review.
+     */
+    const createDraft = async (segment: VoiceCommandResult, frames: Int16Array[]): Promise<DraftNote> => {
+        // A spoken "category ..." command settles the category without asking the model.
+        let result: CategorizationResult;
+        let isPending = false;
+        try {
+            result = segment.category
+                ? { category: segment.category.name, categoryId: segment.category.id, confidence: 1, tags: [], title: '' }
+                : await createCategorizer().categorize(segment.text, settings.categories);
+        } catch (e) {
+            console.error("Failed to categorize note", e);
+            result = fallbackResult(settings.categories);
+            isPending = true;
+        }
+        const category = resolveCategory(settings.categories, result);
+        const text = formatTranscript(segment.text, resolveFormatting(settings.formatting, category));
+        const noteTasks = category?.extractsTasks ? await extractTasks(text) : undefined;
+        const recording = await storeRecording(frames);
+        const draft: DraftNote = { draftId: crypto.randomUUID(), text, ...result, ...recording, tasks: noteTasks, sendTo: segment.recipient };
+        if (isPending) {
+            return { ...draft, categorization: 'pending' };
+        }
+        return applyAutomationRules(draft, settings.automationRules ?? []);
+    };
+
+    /**
+     * Saves the new notes that automation rules save without review, and shows the rest for review.
+     * @param {DraftNote[]} drafts - The new notes.
+     */
+    const presentDrafts = (drafts: DraftNote[]) => {
+        const autoSaved = drafts.filter(shouldAutoSave);
+        autoSaved.forEach(saveDraft);
+        if (autoSaved.length > 0) {
+            const [first] = autoSaved;
+            setAutomationNotice(autoSaved.length === 1
+                ? `Saved "${first.title || first.text.slice(0, 40)}" to ${first.category} without review, as set up in your rules.`
+                : `Saved ${autoSaved.length} notes without review, as set up in your rules.`);
+        }
+        const toReview = drafts.filter(draft => !shouldAutoSave(draft));
+        setReviewNotes(toReview);
+        setAppState(toReview.length > 0 ? AppState.REVIEW : AppState.IDLE);
+    };
+
+    /**
+     * Categorizes a note that was saved while the AI model couldn't be reached; called
+     * by the categorization queue. The note's rules run now: tags are added, rule
+     * webhooks are sent, and tasks are extracted if the category asks for them.
+     * Email rules are skipped, since they would open the mail client unprompted.
+     * @param {string} noteId - The note to categorize.
+     * @returns {Promise<void>} Rejects if the AI model still can't be reached.
+     */
+    const categorizeSavedNote = async (noteId: string) => {
+        const note = savedNotesRef.current.find(n => n.id === noteId);
+        // Deleted, or categorized by hand since it was queued.
+        if (!note?.categorization) return;
+        const { categories, automationRules, webhooks = [] } = settingsRef.current;
+        const result = await createCategorizer().categorize(stripCategoryPrefix(note.text, note.category), categories);
+
+        const latest = savedNotesRef.current.find(n => n.id === noteId);
+        if (!latest?.categorization) return;
+        const categorized = applyCategorization(latest, result, categories);
+        const ruled = applyAutomationRules({ ...categorized, draftId: noteId }, automationRules ?? []);
+        const webhookIds = webhookTargetsFor(ruled.firedRules, webhooks).filter(id => !categorized.deliveries?.[id]);
+        const updated: Note = {
+            ...categorized,
+            tags: ruled.tags,
+            deliveries: webhookIds.length > 0
+                ? { ...categorized.deliveries, ...Object.fromEntries(webhookIds.map(id => [id, 'pending' as DeliveryStatus])) }
+                : categorized.deliveries,
+        };
+        replaceSavedNote(updated);
+        if (webhookIds.length > 0) {
+            webhookQueueRef.current?.enqueue(updated, webhookIds).catch(e => console.error("Failed to queue webhook deliveries", e));
+        }
+
+        // Tasks were extracted when the note was dictated if its stand-in category asked for them.
+        if (resolveCategory(categories, updated)?.extractsTasks && !resolveCategory(categories, latest)?.extractsTasks) {
+            const extracted = await extractTasks(stripCategoryPrefix(updated.text, updated.category), updated.timestamp);
+            const newTasks = createTasks(noteId, extracted, updated.timestamp);
+            setTasks(prev => [...prev, ...newTasks]);
+            saveTasks(newTasks).catch(e => console.error("Failed to save tasks", e));
         }
     };
 
     /**
-     * Toggles the recording state. When starting, it initializes the Gemini Live API session
-     * and sets up the audio processing pipeline. When stopping, it closes the session,
-     * processes the final transcription, and moves to the review state.
+     * Turns a finished recording into text to add to a saved note, and shows it for
+     * confirmation. The note's own formatting is used; the recording isn't kept.
+     * @param {string} noteId - The saved note being added to.
+     */
+    const prepareAppend = async (noteId: string) => {
+        const note = savedNotes.find(n => n.id === noteId);
+        // A pause can't split an addition; its segments are joined back together.
+        const segments = dictationSegments.filter(segment => segment.text.length > 0);
+        setCurrentTranscription('');
+        if (!note || segments.length === 0) {
+            if (!note) setError('The note was deleted while you were dictating.');
+            setAppState(AppState.IDLE);
+            return;
+        }
+
+        const spokenCategory = [...segments].reverse().find(segment => segment.category)?.category;
+        const recipient = [...segments].reverse().find(segment => segment.recipient)?.recipient;
+        const category = spokenCategory ?? resolveCategory(settings.categories, note);
+        const text = formatTranscript(segments.map(segment => segment.text).join('\n\n'), resolveFormatting(settings.formatting, category));
+        const appendTasks = category?.extractsTasks ? await extractTasks(text) : undefined;
+        setPendingAppend({ noteId, text, category: spokenCategory, tasks: appendTasks, sendTo: recipient });
+        setAppendTargetId(null);
+        setAppState(AppState.REVIEW);
+    };
+
+    /**
+     * Toggles the recording state. When starting, it opens a transcription session
+     * and sets up the audio processing pipeline. When stopping (from recording or
+     * paused), it closes the session, processes the final transcription, and moves
+     * to the review state.
      */
     const handleToggleRecording = useCallback(async () => {
-        if (appState === AppState.RECORDING) {
+        if (appState === AppState.RECORDING || appState === AppState.PAUSED) {
             setAppState(AppState.PROCESSING);
+            setError(null);
+            setIsSilenceTimeout(false);
             // Stop recording logic
-            if (sessionPromiseRef.current) {
-                const session = await sessionPromiseRef.current;
-                session.close();
-                sessionPromiseRef.current = null;
-            }
-            if (audioContextRef.current && scriptProcessorRef.current && mediaStreamSourceRef.current) {
-                scriptProcessorRef.current.disconnect();
-                mediaStreamSourceRef.current.disconnect();
-                if (audioContextRef.current.state !== 'closed') {
-                    await audioContextRef.current.close();
-                }
-            }
+            await stopTranscription();
             
-            // Process the transcribed text if it's not empty
-            if (currentTranscription.trim().length > 0) {
+            // Each segment with text becomes a note; segments without any are dropped with their audio.
+            const recordings = recordedSegmentsRef.current;
+            recordedSegmentsRef.current = [[]];
+            if (appendTargetId) {
+                await prepareAppend(appendTargetId);
+                return;
+            }
+            const segments = dictationSegments
+                .map((segment, index) => ({ segment, frames: recordings[index] ?? [] }))
+                .filter(({ segment }) => segment.text.length > 0);
+            if (segments.length > 0) {
                 try {
-                    const category = await categorizeNote(currentTranscription, settings.categories);
-                    setCurrentNote({ text: currentTranscription, category });
-                    setAppState(AppState.REVIEW);
+                    const drafts = await Promise.all(segments.map(({ segment, frames }) => createDraft(segment, frames)));
+                    presentDrafts(drafts);
                 } catch (e) {
                     setError('Failed to categorize note. Please try again.');
                     setAppState(AppState.IDLE);
@@ -144,123 +716,385 @@ const App: React.FC = () => {
         } else {
             // Start recording logic
             setError(null);
-            setCurrentNote(null);
+            setAutomationNotice(null);
+            // Starting over discards the notes still under review, so their recordings go too.
+            reviewNotes.forEach(note => {
+                if (note.audioId) deleteAudio(note.audioId).catch(e => console.error("Failed to delete recording", e));
+            });
+            setReviewNotes([]);
+            setPendingAppend(null);
             setCurrentTranscription('');
-            setAppState(AppState.RECORDING);
-
-            try {
-                const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-                const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-                
-                audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-                
-                sessionPromiseRef.current = ai.live.connect({
-                    model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                    callbacks: {
-                        onopen: () => {
-                             mediaStreamSourceRef.current = audioContextRef.current!.createMediaStreamSource(stream);
-                             scriptProcessorRef.current = audioContextRef.current!.createScriptProcessor(4096, 1, 1);
-                             
-                             scriptProcessorRef.current.onaudioprocess = (audioProcessingEvent: AudioProcessingEvent) => {
-                                 const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                                 const pcmBlob = createBlob(inputData);
-                                 if (sessionPromiseRef.current) {
-                                     sessionPromiseRef.current.then((session) => {
-                                         session.sendRealtimeInput({ media: pcmBlob });
-                                     });
-                                 }
-                             };
-                             mediaStreamSourceRef.current.connect(scriptProcessorRef.current);
-                             scriptProcessorRef.current.connect(audioContextRef.current!.destination);
-                        },
-                        onmessage: (message: LiveServerMessage) => {
-                            if (message.serverContent?.inputTranscription) {
-                                const text = message.serverContent.inputTranscription.text;
-                                setCurrentTranscription(prev => {
-                                    let newText = prev + text;
-                                    // Replace period followed by a space with period and newline to create a list format.
-                                    newText = newText.replace(/\. /g, '.\n');
-                                    return newText;
-                                });
-                            }
-                        },
-                        onerror: (e: ErrorEvent) => {
-                            console.error('Gemini Live API Error:', e);
-                            setError('An error occurred during dictation.');
-                            setAppState(AppState.IDLE);
-                        },
-                        onclose: () => {
-                            stream.getTracks().forEach(track => track.stop());
-                        },
-                    },
-                    config: {
-                        inputAudioTranscription: {},
-                        responseModalities: [Modality.AUDIO],
-                    },
-                });
+            setCommandNotice(null);
+            confirmedCommandCountRef.current = 0;
+            recordedSegmentsRef.current = [[]];
+            await startSession(AppState.IDLE);
+        }
+    }, [appState, dictationSegments, appendTargetId, savedNotes, reviewNotes, settings.categories, settings.formatting, settings.keepAudio, settings.silence, settings.microphone, settings.automationRules]);
 
-            } catch (err) {
-                console.error("Failed to start recording:", err);
-                setError("Could not access microphone. Please grant permission and try again.");
+    /**
+     * Transcribes an imported recording, such as a voice memo, and turns it into a
+     * note for review like a dictation. Voice commands aren't applied, since the
+     * recording wasn't made with them in mind. The audio is kept if recordings are.
+     * @param {File} file - The audio file.
+     */
+    const handleImportAudio = async (file: File) => {
+        if (!isImportableAudio(file)) {
+            setError('Choose a WAV, MP3, M4A or WebM file to import.');
+            return;
+        }
+        setError(null);
+        setAutomationNotice(null);
+        setImportProgress('Reading the recording...');
+        setAppState(AppState.PROCESSING);
+        try {
+            const { text, samples } = await transcribeAudioFile(file, (done, total) => {
+                setImportProgress(total > 1 ? `Transcribing the recording (part ${Math.min(done + 1, total)} of ${total})...` : 'Transcribing the recording...');
+            });
+            if (!text) {
+                setError(`No speech was found in ${file.name}.`);
                 setAppState(AppState.IDLE);
+                return;
             }
+            setImportProgress(null);
+            const draft = await createDraft({ text, commands: [], stop: false }, settings.keepAudio ? [samples] : []);
+            presentDrafts([draft]);
+        } catch (e) {
+            console.error("Failed to import audio", e);
+            setError(`Couldn't import ${file.name}. ${e instanceof Error ? e.message : ''}`.trim());
+            setAppState(AppState.IDLE);
+        } finally {
+            setImportProgress(null);
+        }
+    };
+
+    /**
+     * Pauses or resumes the recording. Pausing releases the microphone and closes
+     * the session but keeps the transcript; resuming opens a new session and
+     * continues the same note.
+     */
+    const handleTogglePause = async () => {
+        if (appState === AppState.RECORDING) {
+            setAppState(AppState.PAUSED);
+            await stopTranscription();
+        } else if (appState === AppState.PAUSED) {
+            setError(null);
+            separateTranscript();
+            await startSession(AppState.PAUSED);
+        }
+    };
+
+    /**
+     * Effect hook that stops the recording when the speaker says "stop dictation"
+     * or has been silent for the auto-stop timeout.
+     */
+    useEffect(() => {
+        if ((dictation.stop || isSilenceTimeout) && appState === AppState.RECORDING) {
+            handleToggleRecording();
+        }
+    }, [dictation.stop, isSilenceTimeout, appState, handleToggleRecording]);
+
+    /**
+     * Effect hook that forgets the note being added to once the app is idle again,
+     * including when the recording couldn't be started.
+     */
+    useEffect(() => {
+        if (appState === AppState.IDLE) {
+            setAppendTargetId(null);
+        }
+    }, [appState]);
+
+    /**
+     * Starts a recording whose transcript is added to the end of a saved note.
+     * @param {string} id - The id of the note to add to.
+     */
+    const handleAppendByVoice = (id: string) => {
+        if (appState !== AppState.IDLE) return;
+        setAppendTargetId(id);
+        setView('notes');
+        handleToggleRecording();
+    };
+
+    /**
+     * Adds the dictated text to its note. The previous version is kept in the note's
+     * history. The note keeps its category unless one was spoken while dictating, or
+     * the user asks for it to be categorized again.
+     * @param {boolean} recategorize - Whether to ask the AI model for a new category.
+     */
+    const handleConfirmAppend = async (recategorize: boolean) => {
+        const append = pendingAppend;
+        const note = savedNotes.find(n => n.id === append?.noteId);
+        if (!append || !note) return;
+
+        let category = append.category ? { name: append.category.name, id: append.category.id } : { name: note.category, id: note.categoryId };
+        const combined = appendToNoteText(note.text, append.text);
+        if (recategorize && !append.category) {
+            setAppState(AppState.PROCESSING);
+            try {
+                const result = await createCategorizer().categorize(stripCategoryPrefix(combined, note.category), settings.categories);
+                category = { name: resolveCategory(settings.categories, result)?.name ?? result.category, id: result.categoryId };
+            } catch (e) {
+                console.error("Failed to re-categorize note", e);
+                setError(`Could not reach the AI to re-categorize the note. The text was added and the note stays in ${note.category}.`);
+            }
+        }
+
+        const text = category.name !== note.category ? replaceCategoryPrefix(combined, note.category, category.name) : combined;
+        const updated = applyNoteEdit(note, { text, category: category.name, categoryId: category.id });
+        replaceSavedNote(updated);
+
+        if (append.tasks && resolveCategory(settings.categories, updated)?.extractsTasks) {
+            const newTasks = createTasks(note.id, append.tasks, updated.updatedAt ?? new Date());
+            setTasks(prev => [...prev, ...newTasks]);
+            saveTasks(newTasks).catch(e => console.error("Failed to save tasks", e));
+        }
+        if (append.sendTo) {
+            openEmail({ ...updated, text: stripCategoryPrefix(updated.text, updated.category) }, append.sendTo);
+        }
+        setPendingAppend(null);
+        setAppState(AppState.IDLE);
+    };
+
+    /**
+     * Throws away text dictated onto a saved note, leaving the note unchanged.
+     */
+    const handleDiscardAppend = () => {
+        setPendingAppend(null);
+        setAppState(AppState.IDLE);
+    };
+
+    /**
+     * Saves a draft to the `savedNotes` list, assigning it a unique ID and timestamp.
+     * Also prepends the category to the note text. Tasks extracted from the note are added
+     * to the task list, unless the user moved the note to a category without tasks.
+     * The note is queued for delivery to the webhooks that receive every note and
+     * to those chosen by rules that fired for it.
+     * @param {DraftNote} reviewNote - The draft to save.
+     */
+    const saveDraft = (reviewNote: DraftNote) => {
+        const { draftId: _, tasks: extractedTasks, sendTo, firedRules, ...draft } = reviewNote;
+        const webhookIds = webhookTargetsFor(firedRules, settings.webhooks ?? []);
+        const newNote: Note = {
+            ...draft,
+            id: crypto.randomUUID(),
+            timestamp: new Date(),
+            emailSent: draft.emailSent || Boolean(sendTo),
+            text: `${draft.category}:\n\n${draft.text}`,
+            deliveries: webhookIds.length > 0
+                ? Object.fromEntries(webhookIds.map(id => [id, 'pending' as DeliveryStatus]))
+                : undefined,
+        };
+        setSavedNotes(prev => [newNote, ...prev]);
+        saveNote(newNote)
+            .then(() => Promise.all([
+                webhookIds.length > 0 ? webhookQueueRef.current?.enqueue(newNote, webhookIds) : undefined,
+                newNote.categorization ? categorizationQueueRef.current?.enqueue(newNote.id) : undefined,
+            ]))
+            .catch(e => console.error("Failed to save note", e));
+
+        if (extractedTasks && resolveCategory(settings.categories, newNote)?.extractsTasks) {
+            const newTasks = createTasks(newNote.id, extractedTasks, newNote.timestamp);
+            setTasks(prev => [...prev, ...newTasks]);
+            saveTasks(newTasks).catch(e => console.error("Failed to save tasks", e));
         }
-    }, [appState, currentTranscription, settings.categories]);
+        // Dictating "send to ..." or an email rule emails the note once it is saved.
+        if (sendTo) {
+            openEmail(draft, sendTo);
+        }
+    };
 
     /**
-     * Saves the current note to the `savedNotes` list, assigning it a unique ID and timestamp.
-     * Also prepends the category to the note text.
+     * Saves a note under review and takes it off the review stack.
+     * @param {string} draftId - The draft to save.
      */
-    const handleSaveNote = () => {
-        if (currentNote) {
-            const newNote: Note = {
-                ...currentNote,
-                id: crypto.randomUUID(),
-                timestamp: new Date(),
-                emailSent: justEmailed,
-                text: `${currentNote.category}:\n\n${currentNote.text}`,
-            };
-            setSavedNotes(prev => [newNote, ...prev]);
-            resetCurrentNote();
+    const handleSaveNote = (draftId: string) => {
+        const reviewNote = reviewNotes.find(note => note.draftId === draftId);
+        if (reviewNote) {
+            saveDraft(reviewNote);
+            removeReviewNote(draftId);
         }
     };
     
     /**
-     * Composes and triggers a `mailto:` link to send the current note via the user's default email client.
+     * Applies a change to one of the notes under review.
+     * @param {string} draftId - The draft to change.
+     * @param {(note: DraftNote) => DraftNote} update - Returns the changed draft.
+     */
+    const updateReviewNote = (draftId: string, update: (note: DraftNote) => DraftNote) => {
+        setReviewNotes(notes => notes.map(note => note.draftId === draftId ? update(note) : note));
+    };
+
+    /**
+     * Applies the user's corrections to a note under review.
+     * @param {string} draftId - The draft being corrected.
+     * @param {NoteEdit} edit - The corrected text and category.
+     */
+    const handleReviewNoteEdit = (draftId: string, edit: NoteEdit) => {
+        updateReviewNote(draftId, note => {
+            // Picking a category by hand settles a note the AI couldn't categorize, and teaches the local categorizer.
+            if (edit.category === note.category && edit.categoryId === note.categoryId) return { ...note, ...edit };
+            return { ...note, ...edit, categorization: undefined, categorySetByUser: true };
+        });
+    };
+
+    /**
+     * Leaves one of the tasks found in a note under review out of the task list.
+     * @param {string} draftId - The draft the task was found in.
+     * @param {number} index - The position of the task in the note's task list.
+     */
+    const handleRemoveReviewTask = (draftId: string, index: number) => {
+        updateReviewNote(draftId, note => note.tasks ? { ...note, tasks: note.tasks.filter((_, i) => i !== index) } : note);
+    };
+
+    /**
+     * Checks a task off, or reopens it if it was already done.
+     * @param {string} id - The id of the task.
+     */
+    const handleToggleTask = (id: string) => {
+        const task = tasks.find(t => t.id === id);
+        if (!task) return;
+        const updated: Task = task.completed
+            ? { ...task, completed: false, completedAt: undefined }
+            : { ...task, completed: true, completedAt: new Date() };
+        setTasks(prev => prev.map(t => t.id === id ? updated : t));
+        saveTasks([updated]).catch(e => console.error("Failed to save task", e));
+    };
+
+    /**
+     * Deletes a task from the task list.
+     * @param {string} id - The id of the task.
+     */
+    const handleDeleteTask = (id: string) => {
+        setTasks(prev => prev.filter(task => task.id !== id));
+        deleteTask(id).catch(e => console.error("Failed to delete task", e));
+    };
+
+    /**
+     * Replaces a saved note in state and storage.
+     * @param {Note} updated - The new version of the note.
+     */
+    const replaceSavedNote = (updated: Note) => {
+        setSavedNotes(notes => notes.map(note => note.id === updated.id ? updated : note));
+        saveNote(updated).catch(e => console.error("Failed to save note", e));
+    };
+
+    /**
+     * Edits a saved note, recording its previous version in the revision history.
+     * When the category changes, the `Category:` header at the top of the text follows it.
+     * @param {string} id - The id of the note to edit.
+     * @param {NoteEdit} edit - The new text and category.
+     */
+    const handleUpdateSavedNote = (id: string, edit: NoteEdit) => {
+        const note = savedNotes.find(n => n.id === id);
+        if (!note) return;
+        const text = edit.category !== note.category ? replaceCategoryPrefix(edit.text, note.category, edit.category) : edit.text;
+        const updated = applyNoteEdit(note, { ...edit, text });
+        if (updated === note) return;
+        if (updated.category === note.category && updated.categoryId === note.categoryId) {
+            replaceSavedNote(updated);
+            return;
+        }
+        // Picking a category by hand teaches the local categorizer, and takes the note out of the categorization queue.
+        replaceSavedNote({ ...updated, categorization: undefined, categorySetByUser: true });
+        if (note.categorization) {
+            categorizationQueueRef.current?.cancel(id).catch(e => console.error("Failed to cancel categorization", e));
+        }
+    };
+
+    /**
+     * Restores an earlier version of a saved note.
+     * @param {string} id - The id of the note.
+     * @param {string} revisionId - The id of the revision to restore.
+     */
+    const handleRestoreRevision = (id: string, revisionId: string) => {
+        const note = savedNotes.find(n => n.id === id);
+        if (!note) return;
+        const updated = restoreRevision(note, revisionId);
+        if (updated !== note) {
+            replaceSavedNote(updated);
+        }
+    };
+
+    /**
+     * Composes and triggers a `mailto:` link to send a note via the user's default email client.
+     * @param {Pick<DraftNote, 'category' | 'title' | 'text'>} note - The note to send, without the category header in its text.
+     * @param {string} recipient - The email address to send to.
+     */
+    const openEmail = (note: Pick<DraftNote, 'category' | 'title' | 'text'>, recipient: string) => {
+        const subject = note.title ? `Note: ${note.category} - ${note.title}` : `Note: ${note.category}`;
+        const body = `${note.category}:\n\n${note.text}`;
+        window.location.href = `mailto:${recipient}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+    };
+
+    /**
+     * Emails a note under review.
+     * @param {string} draftId - The draft to email.
      * @param {string} [email] - An optional email address to send to. If not provided, the default email from settings is used.
      */
-    const handleEmailNote = (email?: string) => {
-        if (!currentNote) return;
+    const handleEmailNote = (draftId: string, email?: string) => {
+        const reviewNote = reviewNotes.find(note => note.draftId === draftId);
+        if (!reviewNote) return;
 
-        setJustEmailed(true);
-        const subject = `Note: ${currentNote.category}`;
-        const body = `${currentNote.category}:\n\n${currentNote.text}`;
         const recipient = email || settings.defaultEmail;
 
         if (recipient) {
-            window.location.href = `mailto:${recipient}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+            updateReviewNote(draftId, note => ({ ...note, emailSent: true }));
+            openEmail(reviewNote, recipient);
         } else {
             alert("Please set a default email in your settings.");
         }
     };
 
     /**
-     * Deletes a saved note from the list by its ID.
+     * Discards a note under review, along with its recording.
+     * @param {string} draftId - The draft to discard.
+     */
+    const handleDiscardNote = (draftId: string) => {
+        const reviewNote = reviewNotes.find(note => note.draftId === draftId);
+        if (reviewNote?.audioId) {
+            deleteAudio(reviewNote.audioId).catch(e => console.error("Failed to delete recording", e));
+        }
+        removeReviewNote(draftId);
+    };
+
+    /**
+     * Deletes a saved note from the list by its ID, along with the tasks extracted from it.
      * @param {string} id - The unique identifier of the note to be deleted.
      */
     const handleDeleteSavedNote = (id: string) => {
         setSavedNotes(notes => notes.filter(note => note.id !== id));
+        setTasks(prev => prev.filter(task => task.noteId !== id));
+        deleteNote(id).catch(e => console.error("Failed to delete note", e));
     };
 
     /**
-     * Resets the current note and application state back to IDLE.
-     * Used after saving, emailing, or discarding a note.
+     * Sends a note to a webhook again after its delivery failed.
+     * @param {string} noteId - The note to send.
+     * @param {string} targetId - The webhook target to send it to.
      */
-    const resetCurrentNote = () => {
-        setCurrentNote(null);
-        setAppState(AppState.IDLE);
-        setJustEmailed(false);
-    }
+    const handleRetryDelivery = (noteId: string, targetId: string) => {
+        webhookQueueRef.current?.retry(noteId, targetId).catch(e => console.error("Failed to retry webhook delivery", e));
+    };
+
+    /**
+     * Asks the AI model to categorize a note again after the queue gave up on it.
+     * @param {string} noteId - The note to categorize.
+     */
+    const handleRetryCategorization = (noteId: string) => {
+        categorizationQueueRef.current?.retry(noteId).catch(e => console.error("Failed to retry categorization", e));
+    };
+
+    /**
+     * Takes a note off the review stack after it was saved or discarded.
+     * The application returns to IDLE once every note has been reviewed.
+     * @param {string} draftId - The draft to remove.
+     */
+    const removeReviewNote = (draftId: string) => {
+        const remaining = reviewNotes.filter(note => note.draftId !== draftId);
+        setReviewNotes(remaining);
+        if (remaining.length === 0) {
+            setAppState(AppState.IDLE);
+        }
+    };
     
     /**
      * Effect hook for cleanup. Ensures that any active session or audio context
@@ -268,16 +1102,18 @@ const App: React.FC = () => {
      */
     useEffect(() => {
         return () => {
-            if (sessionPromiseRef.current) {
-                sessionPromiseRef.current.then(session => session.close());
-            }
-            if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-                audioContextRef.current.close();
-            }
+            providerRef.current?.stop();
+            audioCaptureRef.current?.stop();
+            mediaStreamRef.current?.getTracks().forEach(track => track.stop());
         };
     }, []);
 
-    // Display a loading spinner until the app is initialized from localStorage.
+    // Ask for the passphrase before anything is loaded from an encrypted vault.
+    if (vaultStatus?.locked) {
+        return <UnlockScreen onUnlock={handleUnlock} />;
+    }
+
+    // Display a loading spinner until the app is initialized from storage.
     if (!isInitialized) {
         return (
             <div className="min-h-screen bg-gray-900 flex items-center justify-center">
@@ -288,56 +1124,177 @@ const App: React.FC = () => {
 
     // Display the onboarding screen if the user hasn't completed it yet.
     if (!settings.onboardingComplete) {
-        return <Onboarding onComplete={handleOnboardingComplete} />;
+        return <Onboarding onComplete={handleOnboardingComplete} initialSettings={settings} />;
     }
 
     const allEmails = [settings.defaultEmail, ...settings.otherEmails].filter(Boolean);
+    const openTaskCount = tasks.filter(task => !task.completed).length;
+    const liveSegments = dictationSegments.map(segment => segment.text).filter(Boolean);
+    const appendTarget = savedNotes.find(note => note.id === (pendingAppend?.noteId ?? appendTargetId));
 
     return (
         <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black flex flex-col font-sans">
-            <header className="p-4 flex items-center justify-center space-x-3 border-b border-gray-700/50">
+            <header className="relative p-4 flex items-center justify-center space-x-3 border-b border-gray-700/50">
                 <LogoIcon/>
                 <h1 className="text-2xl font-bold text-white tracking-tight">QuickNotes AI</h1>
+                {vaultStatus?.enabled && (
+                    <button
+                        onClick={handleLock}
+                        disabled={appState === AppState.RECORDING || appState === AppState.PAUSED || appState === AppState.PROCESSING}
+                        className="absolute right-16 p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                        aria-label="Lock"
+                    >
+                        <LockClosedIcon className="h-6 w-6" />
+                    </button>
+                )}
+                <button
+                    onClick={() => setIsSettingsOpen(open => !open)}
+                    disabled={appState === AppState.RECORDING || appState === AppState.PAUSED || appState === AppState.PROCESSING}
+                    className="absolute right-4 p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                    aria-label="Settings"
+                >
+                    <SettingsIcon className="h-6 w-6" />
+                </button>
             </header>
 
-            <main className="flex-grow flex flex-col p-4 md:p-6 space-y-4 overflow-y-auto">
-                <div className="flex-grow flex flex-col items-center justify-center text-center">
-                    {appState === AppState.IDLE && !currentNote && (
-                        <div className="text-gray-400">
-                            <p className="text-lg">Tap the microphone to start dictating.</p>
+            {isSettingsOpen ? (
+                <main className="flex-grow p-4 md:p-6 overflow-y-auto">
+                    <Settings
+                        settings={settings}
+                        onSave={handleSettingsSave}
+                        onCancel={() => setIsSettingsOpen(false)}
+                        onResetOnboarding={handleResetOnboarding}
+                        onImportNotes={handleImportNotes}
+                        syncStatus={syncStatus}
+                        onSyncNow={() => syncEngineRef.current?.syncNow()}
+                        vaultStatus={vaultStatus}
+                        onVaultChange={setVaultStatus}
+                    />
+                </main>
+            ) : (
+                <>
+                    <main className="flex-grow flex flex-col p-4 md:p-6 space-y-4 overflow-y-auto">
+                        <div className="flex-grow flex flex-col items-center justify-center text-center">
+                            {appState === AppState.IDLE && reviewNotes.length === 0 && (
+                                <div className="text-gray-400">
+                                    <p className="text-lg">Tap the microphone to start dictating.</p>
+                                    <label className="inline-flex items-center gap-2 mt-3 text-sm text-blue-300 hover:text-blue-200 cursor-pointer">
+                                        <UploadIcon className="h-4 w-4" />
+                                        Or import a recording
+                                        <input
+                                            type="file"
+                                            accept={IMPORT_AUDIO_ACCEPT}
+                                            onChange={(e) => {
+                                                const file = e.target.files?.[0];
+                                                e.target.value = '';
+                                                if (file) handleImportAudio(file);
+                                            }}
+                                            className="sr-only"
+                                        />
+                                    </label>
+                                </div>
+                            )}
+                            {error && <p className="text-red-500 bg-red-900/20 p-3 rounded-lg">{error}</p>}
+                            {automationNotice && appState === AppState.IDLE && (
+                                <p className="text-green-300 bg-green-900/20 p-3 rounded-lg" role="status">{automationNotice}</p>
+                            )}
+                            {(appState === AppState.RECORDING || appState === AppState.PAUSED) && (
+                                <>
+                                    {appendTarget && (
+                                        <p className="text-sm text-gray-400">Adding to <span className="font-semibold text-white">{appendTarget.title || appendTarget.category}</span></p>
+                                    )}
+                                    <div className="text-xl md:text-2xl text-gray-300 p-4 min-h-[120px] text-left w-full max-w-2xl divide-y divide-gray-700">
+                                        {liveSegments.length > 0
+                                            ? liveSegments.map((text, index) => <p key={index} className="whitespace-pre-wrap py-2">{text}</p>)
+                                            : appState === AppState.RECORDING && <p>Listening...</p>}
+                                    </div>
+                                    {appState === AppState.PAUSED && (
+                                        <p className="text-sm text-gray-400" role="status">Paused. Resume to keep dictating, or stop to process the note.</p>
+                                    )}
+                                    {appState === AppState.RECORDING && isReconnecting && (
+                                        <p className="text-sm text-yellow-200 bg-yellow-900/40 px-3 py-1 rounded-full animate-fade-in" role="status">Connection dropped. Reconnecting…</p>
+                                    )}
+                                    {appState === AppState.RECORDING && noSignalWarning && (
+                                        <p className="text-sm text-yellow-200 bg-yellow-900/40 px-3 py-2 rounded-lg max-w-md animate-fade-in" role="alert">{noSignalWarning}</p>
+                                    )}
+                                    {commandNotice && (
+                                        <p className="text-sm text-blue-200 bg-blue-900/40 px-3 py-1 rounded-full animate-fade-in" role="status">{commandNotice}</p>
+                                    )}
+                                </>
+                            )}
+                            {appState === AppState.PROCESSING && (
+                                <div className="flex flex-col items-center space-y-2 text-gray-400">
+                                   <LoadingSpinner />
+                                   <p>{importProgress ?? 'Categorizing your note...'}</p>
+                                </div>
+                            )}
+                            {appState === AppState.REVIEW && pendingAppend && appendTarget && (
+                                <AppendReviewCard note={appendTarget} append={pendingAppend} onConfirm={handleConfirmAppend} onDiscard={handleDiscardAppend} />
+                            )}
+                            {appState === AppState.REVIEW && reviewNotes.length > 1 && (
+                                <p className="text-gray-400">This recording was split into {reviewNotes.length} notes at long pauses.</p>
+                            )}
+                            {appState === AppState.REVIEW && reviewNotes.map(note => (
+                                <CurrentNoteCard
+                                    key={note.draftId}
+                                    note={note}
+                                    onSave={() => handleSaveNote(note.draftId)}
+                                    onEmail={(email?: string) => handleEmailNote(note.draftId, email)}
+                                    onDiscard={() => handleDiscardNote(note.draftId)}
+                                    emailAddresses={allEmails}
+                                    categories={settings.categories}
+                                    webhooks={settings.webhooks ?? []}
+                                    onEdit={(edit: NoteEdit) => handleReviewNoteEdit(note.draftId, edit)}
+                                    onRemoveTask={(index: number) => handleRemoveReviewTask(note.draftId, index)}
+                                />
+                            ))}
                         </div>
-                    )}
-                    {error && <p className="text-red-500 bg-red-900/20 p-3 rounded-lg">{error}</p>}
-                    {appState === AppState.RECORDING && (
-                         <p className="text-xl md:text-2xl text-gray-300 p-4 min-h-[120px] whitespace-pre-wrap text-left w-full max-w-2xl">{currentTranscription || 'Listening...'}</p>
-                    )}
-                    {appState === AppState.PROCESSING && (
-                        <div className="flex flex-col items-center space-y-2 text-gray-400">
-                           <LoadingSpinner />
-                           <p>Categorizing your note...</p>
-                        </div>
-                    )}
-                    {appState === AppState.REVIEW && currentNote && (
-                        <CurrentNoteCard 
-                            note={currentNote} 
-                            onSave={handleSaveNote} 
-                            onEmail={handleEmailNote}
-                            onDiscard={resetCurrentNote}
-                            emailAddresses={allEmails}
+
+                        {(tasks.length > 0 || view === 'tasks') && (
+                            <div className="w-full max-w-4xl mx-auto flex gap-2 px-2" role="tablist">
+                                {(['notes', 'tasks'] as const).map(option => (
+                                    <button
+                                        key={option}
+                                        onClick={() => setView(option)}
+                                        className={`px-4 py-1 rounded-full text-sm font-semibold transition-colors ${view === option ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+                                        role="tab"
+                                        aria-selected={view === option}
+                                    >
+                                        {option === 'notes' ? 'Notes' : `Tasks (${openTaskCount})`}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {view === 'tasks' ? (
+                            <TaskList tasks={tasks} notes={savedNotes} onToggle={handleToggleTask} onDelete={handleDeleteTask} />
+                        ) : (
+                            <SavedNotesList
+                                notes={savedNotes}
+                                categories={settings.categories}
+                                onDelete={handleDeleteSavedNote}
+                                onUpdate={handleUpdateSavedNote}
+                                onRestoreRevision={handleRestoreRevision}
+                                onAppendByVoice={appState === AppState.IDLE ? handleAppendByVoice : undefined}
+                                webhooks={settings.webhooks ?? []}
+                                onRetryDelivery={handleRetryDelivery}
+                                onRetryCategorization={handleRetryCategorization}
+                            />
+                        )}
+                    </main>
+
+                    <footer className="sticky bottom-0 bg-gray-900/80 backdrop-blur-sm p-4 border-t border-gray-700/50 flex flex-col items-center justify-center">
+                        <DictationButton
+                            isRecording={appState === AppState.RECORDING}
+                            isPaused={appState === AppState.PAUSED}
+                            level={inputLevel}
+                            onClick={handleToggleRecording}
+                            onTogglePause={handleTogglePause}
+                            disabled={appState === AppState.PROCESSING}
                         />
-                    )}
-                </div>
-
-                <SavedNotesList notes={savedNotes} onDelete={handleDeleteSavedNote}/>
-            </main>
-
-            <footer className="sticky bottom-0 bg-gray-900/80 backdrop-blur-sm p-4 border-t border-gray-700/50 flex flex-col items-center justify-center">
-                <DictationButton
-                    isRecording={appState === AppState.RECORDING}
-                    onClick={handleToggleRecording}
-                    disabled={appState === AppState.PROCESSING}
-                />
-            </footer>
+                    </footer>
+                </>
+            )}
         </div>
     );
 };
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Note, PendingAppend } from '../types';
+import { formatDueDate } from '../utils/taskUtils';
+import { SaveIcon, TrashIcon, EmailIcon } from './icons';
+
+/**
+ * Props for the AppendReviewCard component.
+ */
+interface AppendReviewCardProps {
+    /** The saved note the text is added to. */
+    note: Note;
+    /** The dictated text and what was found in it. */
+    append: PendingAppend;
+    /** Callback function to add the text, optionally asking the AI model for a new category. */
+    onConfirm: (recategorize: boolean) => void;
+    /** Callback function to throw the text away. */
+    onDiscard: () => void;
+}
+
+/**
+ * A card showing text dictated onto the end of a saved note, before it is added.
+ * The note keeps its category unless the user asks for it to be categorized again.
+ *
+ * @param {AppendReviewCardProps} props The props for the component.
+ * @returns {React.FC} The rendered card.
+ */
+export const AppendReviewCard: React.FC<AppendReviewCardProps> = ({ note, append, onConfirm, onDiscard }) => {
+    return (
+        <div className="w-full max-w-2xl bg-gray-800/50 backdrop-blur-md rounded-xl shadow-lg p-6 my-4 border border-gray-700 animate-fade-in">
+            <div className="mb-6 space-y-4 text-left">
+                <p className="text-sm text-gray-400">
+                    Adding to <span className="font-semibold text-white">{note.title || note.category}</span>
+                </p>
+                <p className="text-gray-200 whitespace-pre-wrap border-l-2 border-blue-500 pl-3">{append.text}</p>
+                {append.category && append.category.name !== note.category && (
+                    <p className="text-sm text-yellow-300">The note will move to {append.category.name}.</p>
+                )}
+                {append.sendTo && (
+                    <p className="flex items-center gap-2 text-sm text-indigo-200">
+                        <EmailIcon className="h-4 w-4" />
+                        Will be emailed to {append.sendTo} when added
+                    </p>
+                )}
+                {append.tasks && append.tasks.length > 0 && (
+                    <div className="border-t border-gray-700 pt-3">
+                        <p className="text-sm text-gray-400 mb-2">Tasks to add</p>
+                        <ul className="space-y-2">
+                            {append.tasks.map((task, index) => (
+                                <li key={index} className="flex items-center gap-2 text-sm bg-gray-900/50 rounded-md px-3 py-2">
+                                    <span className="flex-grow text-gray-200">{task.title}</span>
+                                    {task.dueDate && <span className="text-xs text-gray-400">Due {formatDueDate(task.dueDate)}</span>}
+                                    {task.person && <span className="text-xs text-indigo-200">{task.person}</span>}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </div>
+            <div className="flex flex-col sm:flex-row justify-center gap-3">
+                <button onClick={() => onConfirm(false)} className="flex items-center justify-center gap-2 w-full sm:w-auto px-5 py-3 bg-green-600 hover:bg-green-700 rounded-lg font-semibold transition-colors duration-200">
+                    <SaveIcon />
+                    Add to Note
+                </button>
+                {!append.category && (
+                    <button onClick={() => onConfirm(true)} className="w-full sm:w-auto px-5 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors duration-200">
+                        Add and Re-categorize
+                    </button>
+                )}
+                <button onClick={onDiscard} className="flex items-center justify-center gap-2 w-full sm:w-auto px-5 py-3 bg-gray-600 hover:bg-gray-700 rounded-lg font-semibold transition-colors duration-200">
+                    <TrashIcon />
+                    Discard
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,130 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { loadAudio } from '../services/storageService';
+import { PlayIcon, PauseIcon, DownloadIcon } from './icons';
+
+/**
+ * Props for the AudioPlayer component.
+ */
+interface AudioPlayerProps {
+    /** The id of the recording in storage. */
+    audioId: string;
+    /** The file name offered when the recording is downloaded. */
+    fileName: string;
+    /** The length of the recording in seconds, shown before the audio has loaded. */
+    duration?: number;
+}
+
+/**
+ * Formats a number of seconds as `m:ss`.
+ * @param {number} seconds - The time in seconds.
+ * @returns {string} The formatted time.
+ */
+const formatTime = (seconds: number): string => {
+    const safeSeconds = Number.isFinite(seconds) ? Math.max(0, Math.floor(seconds)) : 0;
+    return `${Math.floor(safeSeconds / 60)}:${String(safeSeconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * A compact player for a note's original recording, with a play/pause button,
+ * a scrubber and a download link.
+ *
+ * @param {AudioPlayerProps} props The props for the component.
+ * @returns {React.FC | null} The rendered player, or null if the recording can't be found.
+ */
+export const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioId, fileName, duration }) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [isMissing, setIsMissing] = useState(false);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [totalTime, setTotalTime] = useState(duration ?? 0);
+    const audioRef = useRef<HTMLAudioElement>(null);
+
+    // Load the recording from storage and expose it through an object URL.
+    useEffect(() => {
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        loadAudio(audioId)
+            .then(blob => {
+                if (cancelled) return;
+                if (!blob) {
+                    setIsMissing(true);
+                    return;
+                }
+                objectUrl = URL.createObjectURL(blob);
+                setUrl(objectUrl);
+            })
+            .catch(e => {
+                console.error("Failed to load recording", e);
+                if (!cancelled) setIsMissing(true);
+            });
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [audioId]);
+
+    if (isMissing) {
+        return null;
+    }
+
+    const handleTogglePlay = () => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        if (audio.paused) {
+            audio.play().catch((e: unknown) => console.error("Failed to play recording", e));
+        } else {
+            audio.pause();
+        }
+    };
+
+    const handleSeek = (value: string) => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        audio.currentTime = Number(value);
+        setCurrentTime(audio.currentTime);
+    };
+
+    return (
+        <div className="flex items-center gap-3 bg-gray-900/60 rounded-lg px-3 py-2">
+            {url && (
+                <audio
+                    ref={audioRef}
+                    src={url}
+                    preload="metadata"
+                    onPlay={() => setIsPlaying(true)}
+                    onPause={() => setIsPlaying(false)}
+                    onEnded={() => setIsPlaying(false)}
+                    onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                    onLoadedMetadata={(e) => {
+                        if (Number.isFinite(e.currentTarget.duration)) setTotalTime(e.currentTarget.duration);
+                    }}
+                />
+            )}
+            <button
+                onClick={handleTogglePlay}
+                disabled={!url}
+                className="p-1 text-gray-200 hover:text-white disabled:opacity-30"
+                aria-label={isPlaying ? 'Pause recording' : 'Play recording'}
+            >
+                {isPlaying ? <PauseIcon className="h-5 w-5" /> : <PlayIcon className="h-5 w-5" />}
+            </button>
+            <input
+                type="range"
+                min={0}
+                max={totalTime || 0}
+                step={0.1}
+                value={Math.min(currentTime, totalTime)}
+                onChange={(e) => handleSeek(e.target.value)}
+                disabled={!url}
+                className="flex-grow accent-blue-500"
+                aria-label="Seek"
+            />
+            <span className="text-xs text-gray-400 tabular-nums">{formatTime(currentTime)} / {formatTime(totalTime)}</span>
+            {url && (
+                <a href={url} download={fileName} className="p-1 text-gray-400 hover:text-white" aria-label="Download recording" title="Download recording">
+                    <DownloadIcon className="h-5 w-5" />
+                </a>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,134 @@
+import React from 'react';
+import { AutomationAction, AutomationRule, Category, WebhookTarget } from '../types';
+import { AUTOMATION_ACTIONS, createAutomationAction, createAutomationRule } from '../utils/automationRules';
+import { PlusIcon, TrashIcon } from './icons';
+
+/**
+ * Props for the AutomationRulesEditor component.
+ */
+interface AutomationRulesEditorProps {
+    /** The rules being edited. */
+    rules: AutomationRule[];
+    /** The categories rules can apply to. */
+    categories: Category[];
+    /** The addresses email rules can send to. */
+    emailAddresses: string[];
+    /** The targets webhook rules can send to. */
+    webhooks: WebhookTarget[];
+    /** Callback function called with the edited rules. */
+    onChange: (rules: AutomationRule[]) => void;
+}
+
+const fieldClass = "bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+/**
+ * An editable list of automation rules. Each rule picks a category, an optional
+ * confidence threshold, and one action with its parameter.
+ *
+ * @param {AutomationRulesEditorProps} props The props for the component.
+ * @returns {React.FC} The rendered rule list.
+ */
+export const AutomationRulesEditor: React.FC<AutomationRulesEditorProps> = ({ rules, categories, emailAddresses, webhooks, onChange }) => {
+    const updateRule = (id: string, changes: Partial<AutomationRule>) => {
+        onChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+    };
+
+    const renderParameter = (rule: AutomationRule) => {
+        const { action } = rule;
+        switch (action.type) {
+            case 'email':
+                return (
+                    <select
+                        value={action.address}
+                        onChange={(e) => updateRule(rule.id, { action: { ...action, address: e.target.value } })}
+                        className={`${fieldClass} flex-grow`}
+                        aria-label="Email address"
+                    >
+                        <option value="">Choose an address</option>
+                        {emailAddresses.map(email => <option key={email} value={email}>{email}</option>)}
+                    </select>
+                );
+            case 'addTag':
+                return (
+                    <input
+                        type="text"
+                        value={action.tag}
+                        onChange={(e) => updateRule(rule.id, { action: { ...action, tag: e.target.value } })}
+                        placeholder="groceries"
+                        className={`${fieldClass} flex-grow`}
+                        aria-label="Tag"
+                    />
+                );
+            case 'webhook':
+                return (
+                    <select
+                        value={action.targetId}
+                        onChange={(e) => updateRule(rule.id, { action: { ...action, targetId: e.target.value } })}
+                        className={`${fieldClass} flex-grow`}
+                        aria-label="Webhook"
+                    >
+                        <option value="">Choose a webhook</option>
+                        {webhooks.map(w => <option key={w.id} value={w.id}>{w.name || w.url}</option>)}
+                    </select>
+                );
+            default:
+                return null;
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            {rules.map(rule => (
+                <div key={rule.id} className="flex flex-wrap items-center gap-2 bg-gray-700/30 rounded-md p-2">
+                    <span className="text-sm text-gray-400">When a note is in</span>
+                    <select
+                        value={rule.categoryId}
+                        onChange={(e) => updateRule(rule.id, { categoryId: e.target.value })}
+                        className={fieldClass}
+                        aria-label="Category"
+                    >
+                        {!categories.some(c => c.id === rule.categoryId) && <option value={rule.categoryId}>(deleted category)</option>}
+                        {categories.map(c => <option key={c.id} value={c.id}>{c.name || 'Untitled'}</option>)}
+                    </select>
+                    <label className="flex items-center gap-1 text-sm text-gray-400">
+                        with at least
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={Math.round((rule.minConfidence ?? 0) * 100)}
+                            onChange={(e) => updateRule(rule.id, { minConfidence: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+                            className={`${fieldClass} w-16`}
+                            aria-label="Minimum confidence"
+                        />
+                        % confidence
+                    </label>
+                    <select
+                        value={rule.action.type}
+                        onChange={(e) => updateRule(rule.id, { action: createAutomationAction(e.target.value as AutomationAction['type']) })}
+                        className={fieldClass}
+                        aria-label="Action"
+                    >
+                        {AUTOMATION_ACTIONS.map(({ type, label }) => <option key={type} value={type}>{label}</option>)}
+                    </select>
+                    {renderParameter(rule)}
+                    <button
+                        onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                        className="p-2 rounded-md text-gray-400 hover:text-red-400 hover:bg-gray-600 transition-colors"
+                        aria-label="Delete rule"
+                    >
+                        <TrashIcon />
+                    </button>
+                </div>
+            ))}
+            <button
+                onClick={() => onChange([...rules, createAutomationRule(categories[0]?.id ?? '')])}
+                disabled={categories.length === 0}
+                className="flex items-center gap-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md font-semibold transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+                <PlusIcon className="h-5 w-5" />
+                Add Rule
+            </button>
+        </div>
+    );
+};
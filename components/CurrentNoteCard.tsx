@@ -1,13 +1,19 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Note } from '../types';
-import { SaveIcon, TrashIcon, ChevronDownIcon, EmailIcon } from './icons';
+import { DraftNote, Category, NoteEdit, WebhookTarget } from '../types';
+import { resolveCategory, sortCategories, LOW_CONFIDENCE_THRESHOLD, UNKNOWN_CATEGORY_COLOR } from '../utils/categoryUtils';
+import { getAudioFileName } from '../utils/noteUtils';
+import { formatDueDate } from '../utils/taskUtils';
+import { describeRule } from '../utils/automationRules';
+import { AudioPlayer } from './AudioPlayer';
+import { NoteEditor } from './NoteEditor';
+import { SaveIcon, TrashIcon, ChevronDownIcon, EmailIcon, PencilIcon, XMarkIcon } from './icons';
 
 /**
  * Props for the CurrentNoteCard component.
  */
 interface CurrentNoteCardProps {
     /** The note object currently under review (without id or timestamp). */
-    note: Omit<Note, 'id' | 'timestamp'>;
+    note: DraftNote;
     /** Callback function to save the current note. */
     onSave: () => void;
     /** Callback function to email the current note. Can accept an optional email address. */
@@ -16,18 +22,48 @@ interface CurrentNoteCardProps {
     onDiscard: () => void;
     /** A list of email addresses for the email dropdown menu. */
     emailAddresses: string[];
+    /** The user's categories, offered when editing or when the AI model is unsure. */
+    categories: Category[];
+    /** The user's webhook targets, used to name them in the rules that fired. */
+    webhooks: WebhookTarget[];
+    /** Callback function called when the user corrects the text or category. */
+    onEdit: (edit: NoteEdit) => void;
+    /** Callback function to leave an extracted task out of the task list. */
+    onRemoveTask: (index: number) => void;
 }
 
 /**
  * A card component that displays the currently transcribed and categorized note.
  * It provides actions to save, email, or discard the note.
+ * The text and category can be corrected before saving. When the AI model's confidence
+ * in the category is low, or the model couldn't be reached, the user is asked to confirm or pick another one.
+ * Action items found in the note are listed, and are added to the task list on save.
+ * Automation rules that fired for the note's category are listed too.
  *
  * @param {CurrentNoteCardProps} props The props for the component.
  * @returns {React.FC} The rendered card for the current note.
  */
-export const CurrentNoteCard: React.FC<CurrentNoteCardProps> = ({ note, onSave, onEmail, onDiscard, emailAddresses }) => {
+export const CurrentNoteCard: React.FC<CurrentNoteCardProps> = ({ note, onSave, onEmail, onDiscard, emailAddresses, categories, webhooks, onEdit, onRemoveTask }) => {
     const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
+    // Remember the low-confidence state from when the card was shown, so the picker stays put after a change.
+    const [isLowConfidence] = useState(note.confidence !== undefined && note.confidence < LOW_CONFIDENCE_THRESHOLD);
+
+    const category = resolveCategory(categories, note);
+    const categoryColor = category?.color ?? UNKNOWN_CATEGORY_COLOR;
+
+    const handleCategorySelect = (id: string) => {
+        const selected = categories.find((c: Category) => c.id === id);
+        if (selected) {
+            onEdit({ text: note.text, category: selected.name, categoryId: selected.id });
+        }
+    };
+
+    const handleEditSave = (edit: NoteEdit) => {
+        onEdit(edit);
+        setIsEditing(false);
+    };
 
     // Effect to handle clicks outside the dropdown menu to close it.
     useEffect(() => {
@@ -45,10 +81,87 @@ export const CurrentNoteCard: React.FC<CurrentNoteCardProps> = ({ note, onSave,
 
     return (
         <div className="w-full max-w-2xl bg-gray-800/50 backdrop-blur-md rounded-xl shadow-lg p-6 my-4 border border-gray-700 animate-fade-in">
-            <div className="flex justify-between items-center mb-3">
-                <span className="inline-block bg-blue-500/20 text-blue-300 text-sm font-semibold px-3 py-1 rounded-full">{note.category}</span>
-            </div>
-            <p className="text-gray-200 text-left whitespace-pre-wrap mb-6">{note.text}</p>
+            {isEditing ? (
+                <div className="mb-6">
+                    <NoteEditor
+                        initial={{ text: note.text, category: note.category, categoryId: note.categoryId }}
+                        categories={categories}
+                        onSave={handleEditSave}
+                        onCancel={() => setIsEditing(false)}
+                    />
+                </div>
+            ) : (
+                <div className="mb-6 space-y-4 text-left">
+                    <div className="flex justify-between items-start gap-2">
+                        {isLowConfidence ? (
+                            <div className="flex-grow p-3 rounded-lg bg-yellow-900/30 border border-yellow-700/50">
+                                <p className="text-sm text-yellow-300 mb-2">
+                                    {note.categorization
+                                        ? 'Could not reach the AI to categorize this note. Pick a category, or save it as it is and it will be categorized once the AI can be reached:'
+                                        : `Not sure about this one (${Math.round((note.confidence ?? 0) * 100)}% confidence). Pick a category:`}
+                                </p>
+                                <select
+                                    value={category?.id ?? ''}
+                                    onChange={(e) => handleCategorySelect(e.target.value)}
+                                    className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                    aria-label="Category"
+                                >
+                                    {!category && <option value="">{note.category}</option>}
+                                    {sortCategories(categories).map(c => (
+                                        <option key={c.id} value={c.id}>{c.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ) : (
+                            <span className="inline-block text-sm font-semibold px-3 py-1 rounded-full" style={{ color: categoryColor, backgroundColor: `${categoryColor}33` }}>{note.category}</span>
+                        )}
+                        <button onClick={() => setIsEditing(true)} className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors" aria-label="Edit note" title="Edit">
+                            <PencilIcon className="h-5 w-5" />
+                        </button>
+                    </div>
+                    {note.title && <h3 className="text-lg font-semibold text-white">{note.title}</h3>}
+                    <p className="text-gray-200 whitespace-pre-wrap">{note.text}</p>
+                    {note.audioId && <AudioPlayer audioId={note.audioId} fileName={getAudioFileName(note)} duration={note.audioDuration} />}
+                    {note.tags && note.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {note.tags.map((tag: string) => (
+                                <span key={tag} className="text-xs text-gray-300 bg-gray-700 px-2 py-1 rounded-full">#{tag}</span>
+                            ))}
+                        </div>
+                    )}
+                    {note.sendTo && (
+                        <p className="flex items-center gap-2 text-sm text-indigo-200">
+                            <EmailIcon className="h-4 w-4" />
+                            Will be emailed to {note.sendTo} when saved
+                        </p>
+                    )}
+                    {note.firedRules && note.firedRules.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                            <span className="text-gray-400">Rules applied:</span>
+                            {note.firedRules.map(rule => (
+                                <span key={rule.id} className="text-blue-200 bg-blue-900/40 px-2 py-1 rounded-full">{describeRule(rule, webhooks)}</span>
+                            ))}
+                        </div>
+                    )}
+                    {note.tasks && note.tasks.length > 0 && (
+                        <div className="border-t border-gray-700 pt-3">
+                            <p className="text-sm text-gray-400 mb-2">Tasks to add</p>
+                            <ul className="space-y-2">
+                                {note.tasks.map((task, index) => (
+                                    <li key={index} className="flex items-center gap-2 text-sm bg-gray-900/50 rounded-md px-3 py-2">
+                                        <span className="flex-grow text-gray-200">{task.title}</span>
+                                        {task.dueDate && <span className="text-xs text-gray-400">Due {formatDueDate(task.dueDate)}</span>}
+                                        {task.person && <span className="text-xs text-indigo-200">{task.person}</span>}
+                                        <button onClick={() => onRemoveTask(index)} className="p-1 text-gray-500 hover:text-white" aria-label="Don't add this task">
+                                            <XMarkIcon className="h-4 w-4" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
             <div className="flex flex-col sm:flex-row justify-center gap-3">
                 <button onClick={onSave} className="flex items-center justify-center gap-2 w-full sm:w-auto px-5 py-3 bg-green-600 hover:bg-green-700 rounded-lg font-semibold transition-colors duration-200">
                     <SaveIcon />
@@ -1,5 +1,6 @@
 import React from 'react';
-import { MicrophoneIcon, StopIcon } from './icons';
+import { MicrophoneIcon, PauseIcon, PlayIcon, StopIcon } from './icons';
+import { levelToMeter } from '../utils/voiceActivity';
 
 /**
  * Props for the DictationButton component.
@@ -7,41 +8,75 @@ import { MicrophoneIcon, StopIcon } from './icons';
 interface DictationButtonProps {
     /** Indicates whether the microphone is currently recording. */
     isRecording: boolean;
+    /** Indicates whether the recording is paused. */
+    isPaused?: boolean;
+    /** The loudness of the microphone input, from 0 to 1, shown on a level meter while recording. */
+    level?: number;
     /** The function to call when the button is clicked. */
     onClick: () => void;
+    /** The function to call to pause or resume the recording. */
+    onTogglePause?: () => void;
     /** A flag to disable the button, e.g., during processing. */
     disabled?: boolean;
 }
 
 /**
  * A circular button that starts and stops the dictation.
- * It changes its appearance and icon based on the recording state.
+ * It changes its appearance and icon based on the recording state. While a
+ * dictation is in progress, a smaller button next to it pauses and resumes it,
+ * and a level meter on the other side shows whether the microphone picks up sound.
  *
  * @param {DictationButtonProps} props The props for the component.
  * @returns {React.FC} The rendered dictation button.
  */
-export const DictationButton: React.FC<DictationButtonProps> = ({ isRecording, onClick, disabled }) => {
-    const buttonClass = isRecording
+export const DictationButton: React.FC<DictationButtonProps> = ({ isRecording, isPaused = false, level, onClick, onTogglePause, disabled }) => {
+    const isActive = isRecording || isPaused;
+    const buttonClass = isActive
         ? 'bg-red-500 hover:bg-red-600'
         : 'bg-blue-500 hover:bg-blue-600';
     
     const disabledClass = 'disabled:bg-gray-600 disabled:cursor-not-allowed';
+    const meter = levelToMeter(level ?? 0);
 
     return (
-        <button
-            onClick={onClick}
-            disabled={disabled}
-            className={`w-20 h-20 rounded-full flex items-center justify-center text-white transition-all duration-300 ease-in-out shadow-lg transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-opacity-50 ${isRecording ? 'focus:ring-red-400' : 'focus:ring-blue-400'} ${buttonClass} ${disabledClass}`}
-            aria-label={isRecording ? 'Stop recording' : 'Start recording'}
-        >
-            {isRecording ? (
-                <div className="relative w-12 h-12">
-                    <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
-                    <StopIcon className="relative inline-flex w-12 h-12" />
+        <div className="relative flex items-center justify-center">
+            {isRecording && level !== undefined && (
+                <div
+                    className="absolute right-full mr-4 w-2 h-12 bg-gray-700 rounded-full overflow-hidden flex items-end"
+                    role="meter"
+                    aria-label="Microphone level"
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={Math.round(meter * 100)}
+                >
+                    <div className={`w-full rounded-full transition-[height] duration-100 ${meter > 0.9 ? 'bg-red-400' : 'bg-green-400'}`} style={{ height: `${meter * 100}%` }} />
                 </div>
-            ) : (
-                <MicrophoneIcon className="w-10 h-10" />
             )}
-        </button>
+            <button
+                onClick={onClick}
+                disabled={disabled}
+                className={`w-20 h-20 rounded-full flex items-center justify-center text-white transition-all duration-300 ease-in-out shadow-lg transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-opacity-50 ${isActive ? 'focus:ring-red-400' : 'focus:ring-blue-400'} ${buttonClass} ${disabledClass}`}
+                aria-label={isActive ? 'Stop recording' : 'Start recording'}
+            >
+                {isActive ? (
+                    <div className="relative w-12 h-12">
+                        {isRecording && <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>}
+                        <StopIcon className="relative inline-flex w-12 h-12" />
+                    </div>
+                ) : (
+                    <MicrophoneIcon className="w-10 h-10" />
+                )}
+            </button>
+            {isActive && onTogglePause && (
+                <button
+                    onClick={onTogglePause}
+                    disabled={disabled}
+                    className="absolute left-full ml-4 w-12 h-12 rounded-full flex items-center justify-center text-white bg-gray-700 hover:bg-gray-600 transition-colors focus:outline-none focus:ring-4 focus:ring-gray-500 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label={isPaused ? 'Resume recording' : 'Pause recording'}
+                >
+                    {isPaused ? <PlayIcon className="w-6 h-6" /> : <PauseIcon className="w-6 h-6" />}
+                </button>
+            )}
+        </div>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Note } from '../types';
+import { EXPORT_FORMATS, ExportFormat, exportNotes, downloadFile } from '../utils/noteExport';
+import { DownloadIcon, XMarkIcon } from './icons';
+
+/**
+ * Props for the ExportPanel component.
+ */
+interface ExportPanelProps {
+    /** The notes that can be exported, usually the ones matching the current search. */
+    notes: Note[];
+    /** Callback function to close the panel. */
+    onClose: () => void;
+}
+
+const inputClass = "bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+/**
+ * A panel for exporting saved notes. All notes are selected initially, including
+ * notes that appear later when the filters change; the user can deselect
+ * individual notes and pick the format to export to.
+ *
+ * @param {ExportPanelProps} props The props for the component.
+ * @returns {React.FC} The rendered panel.
+ */
+export const ExportPanel: React.FC<ExportPanelProps> = ({ notes, onClose }) => {
+    const [format, setFormat] = useState<ExportFormat>('markdown');
+    // Tracking the deselected notes, rather than the selected ones, keeps new notes selected by default.
+    const [deselectedIds, setDeselectedIds] = useState<Set<string>>(() => new Set());
+
+    const selectedNotes = notes.filter(note => !deselectedIds.has(note.id));
+    const allSelected = selectedNotes.length === notes.length;
+
+    const toggleNote = (id: string) => {
+        setDeselectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setDeselectedIds(allSelected ? new Set(notes.map(note => note.id)) : new Set());
+    };
+
+    const handleExport = () => {
+        try {
+            downloadFile(exportNotes(selectedNotes, format));
+        } catch (e) {
+            console.error("Failed to export notes", e);
+        }
+    };
+
+    return (
+        <div className="bg-gray-800 rounded-lg p-4 mb-4 mx-2 space-y-4 border border-gray-700">
+            <div className="flex justify-between items-center">
+                <h3 className="font-semibold text-gray-200">Export notes</h3>
+                <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" aria-label="Close export">
+                    <XMarkIcon className="h-5 w-5" />
+                </button>
+            </div>
+
+            <div>
+                <div className="flex justify-between items-center mb-2 text-xs text-gray-400">
+                    <span>{selectedNotes.length} of {notes.length} selected</span>
+                    <button onClick={toggleAll} className="hover:text-white">
+                        {allSelected ? 'Select none' : 'Select all'}
+                    </button>
+                </div>
+                <ul className="max-h-48 overflow-y-auto space-y-1 bg-gray-900/50 rounded-md p-2">
+                    {notes.map(note => (
+                        <li key={note.id}>
+                            <label className="flex items-center gap-3 text-sm text-gray-300 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={!deselectedIds.has(note.id)}
+                                    onChange={() => toggleNote(note.id)}
+                                    className="h-4 w-4 accent-blue-500 flex-shrink-0"
+                                />
+                                <span className="truncate">{note.title || note.text}</span>
+                                <span className="ml-auto text-xs text-gray-500 flex-shrink-0">{note.timestamp.toLocaleDateString()}</span>
+                            </label>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+                <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={`${inputClass} flex-grow`} aria-label="Export format">
+                    {EXPORT_FORMATS.map(option => (
+                        <option key={option.format} value={option.format}>{option.label}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handleExport}
+                    disabled={selectedNotes.length === 0}
+                    className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    <DownloadIcon className="h-5 w-5" />
+                    Export
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { FormattingStep } from '../types';
+import { FORMATTING_STEPS } from '../utils/formatting';
+
+/**
+ * Props for the FormattingStepsPicker component.
+ */
+interface FormattingStepsPickerProps {
+    /** The steps that are turned on. */
+    steps: FormattingStep[];
+    /** Callback function called with the steps that are turned on, in pipeline order. */
+    onChange: (steps: FormattingStep[]) => void;
+}
+
+/**
+ * A list of checkboxes for turning the steps of the formatting pipeline on and off.
+ *
+ * @param {FormattingStepsPickerProps} props The props for the component.
+ * @returns {React.FC} The rendered checkboxes.
+ */
+export const FormattingStepsPicker: React.FC<FormattingStepsPickerProps> = ({ steps, onChange }) => {
+    const toggleStep = (step: FormattingStep, enabled: boolean) => {
+        onChange(FORMATTING_STEPS.map(option => option.step).filter(s => s === step ? enabled : steps.includes(s)));
+    };
+
+    return (
+        <div className="space-y-1">
+            {FORMATTING_STEPS.map(({ step, label }) => (
+                <label key={step} className="flex items-center gap-3 text-sm text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={steps.includes(step)}
+                        onChange={(e) => toggleStep(step, e.target.checked)}
+                        className="h-4 w-4 accent-blue-500"
+                    />
+                    {label}
+                </label>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { findHighlights } from '../utils/searchIndex';
+
+/**
+ * Props for the HighlightedText component.
+ */
+interface HighlightedTextProps {
+    /** The text to display. */
+    text: string;
+    /** The search query whose matches should be highlighted. */
+    query: string;
+}
+
+/**
+ * Renders text with the words matching a search query highlighted.
+ *
+ * @param {HighlightedTextProps} props The props for the component.
+ * @returns {React.FC} The rendered text.
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query }) => {
+    const ranges = findHighlights(text, query);
+    if (ranges.length === 0) {
+        return <>{text}</>;
+    }
+
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    ranges.forEach((range, index) => {
+        if (range.start > position) {
+            parts.push(text.slice(position, range.start));
+        }
+        parts.push(
+            <mark key={index} className="bg-yellow-400/30 text-yellow-100 rounded-sm">{text.slice(range.start, range.end)}</mark>
+        );
+        position = range.end;
+    });
+    parts.push(text.slice(position));
+    return <>{parts}</>;
+};
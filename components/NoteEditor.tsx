@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Category, NoteEdit } from '../types';
+import { resolveCategory, sortCategories } from '../utils/categoryUtils';
+
+/**
+ * Props for the NoteEditor component.
+ */
+interface NoteEditorProps {
+    /** The text and category to start editing from. */
+    initial: NoteEdit;
+    /** The user's categories, offered in the category picker. */
+    categories: Category[];
+    /** Callback function called with the edited text and category. */
+    onSave: (edit: NoteEdit) => void;
+    /** Callback function to leave the editor without saving. */
+    onCancel: () => void;
+}
+
+/**
+ * An inline form for correcting a note's text and category.
+ *
+ * @param {NoteEditorProps} props The props for the component.
+ * @returns {React.FC} The rendered editor.
+ */
+export const NoteEditor: React.FC<NoteEditorProps> = ({ initial, categories, onSave, onCancel }) => {
+    const [text, setText] = useState(initial.text);
+    const [categoryId, setCategoryId] = useState(resolveCategory(categories, initial)?.id ?? '');
+
+    const handleSave = () => {
+        const category = categories.find((c: Category) => c.id === categoryId);
+        onSave({
+            text,
+            category: category?.name ?? initial.category,
+            categoryId: category?.id ?? initial.categoryId,
+        });
+    };
+
+    return (
+        <div className="space-y-3 text-left">
+            <select
+                value={categoryId}
+                onChange={(e) => setCategoryId(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                aria-label="Category"
+            >
+                {!categoryId && <option value="">{initial.category}</option>}
+                {sortCategories(categories).map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+            </select>
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={Math.min(12, Math.max(4, text.split('\n').length + 1))}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-gray-100 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                aria-label="Note text"
+                autoFocus
+            />
+            <div className="flex justify-end gap-2">
+                <button onClick={onCancel} className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-md font-semibold transition-colors">
+                    Cancel
+                </button>
+                <button onClick={handleSave} disabled={text.trim().length === 0} className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-md font-semibold transition-colors">
+                    Save Changes
+                </button>
+            </div>
+        </div>
+    );
+};
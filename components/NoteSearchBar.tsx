@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Category } from '../types';
+import { NoteFilters, NoteSortOrder, DEFAULT_NOTE_FILTERS, hasActiveFilters } from '../utils/noteFilters';
+import { sortCategories } from '../utils/categoryUtils';
+import { SearchIcon, FilterIcon, XMarkIcon } from './icons';
+
+/**
+ * Props for the NoteSearchBar component.
+ */
+interface NoteSearchBarProps {
+    /** The current filters. */
+    filters: NoteFilters;
+    /** Callback function called with the updated filters. */
+    onChange: (filters: NoteFilters) => void;
+    /** The user's categories, offered as category filters. */
+    categories: Category[];
+    /** The number of notes matching the current filters. */
+    resultCount: number;
+}
+
+const inputClass = "bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+/**
+ * A search bar for the saved notes list, with a panel of filters
+ * (category, date range, emailed status) and sort options.
+ *
+ * @param {NoteSearchBarProps} props The props for the component.
+ * @returns {React.FC} The rendered search bar.
+ */
+export const NoteSearchBar: React.FC<NoteSearchBarProps> = ({ filters, onChange, categories, resultCount }) => {
+    const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
+    const isFiltering = hasActiveFilters(filters);
+
+    const update = (changes: Partial<NoteFilters>) => onChange({ ...filters, ...changes });
+
+    const toggleCategory = (id: string) => {
+        update({
+            categoryIds: filters.categoryIds.includes(id)
+                ? filters.categoryIds.filter(c => c !== id)
+                : [...filters.categoryIds, id],
+        });
+    };
+
+    return (
+        <div className="mb-4 px-2 space-y-3">
+            <div className="flex gap-2">
+                <div className="relative flex-grow">
+                    <SearchIcon className="h-5 w-5 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+                    <input
+                        type="search"
+                        value={filters.query}
+                        onChange={(e) => update({ query: e.target.value })}
+                        placeholder="Search notes"
+                        className={`${inputClass} w-full pl-10`}
+                        aria-label="Search notes"
+                    />
+                </div>
+                <button
+                    onClick={() => setIsFilterPanelOpen(open => !open)}
+                    className={`p-2 rounded-md border border-gray-600 transition-colors ${isFilterPanelOpen || isFiltering ? 'bg-blue-600/30 text-blue-200' : 'bg-gray-700 text-gray-300 hover:text-white'}`}
+                    aria-label="Filters"
+                    aria-expanded={isFilterPanelOpen}
+                >
+                    <FilterIcon className="h-5 w-5" />
+                </button>
+            </div>
+
+            {isFilterPanelOpen && (
+                <div className="bg-gray-800 rounded-lg p-4 space-y-4 border border-gray-700">
+                    <div>
+                        <p className="text-xs text-gray-400 mb-2">Categories</p>
+                        <div className="flex flex-wrap gap-2">
+                            {sortCategories(categories).map(category => {
+                                const isSelected = filters.categoryIds.includes(category.id);
+                                return (
+                                    <button
+                                        key={category.id}
+                                        onClick={() => toggleCategory(category.id)}
+                                        className="text-xs font-semibold px-3 py-1 rounded-full border transition-colors"
+                                        style={{
+                                            color: category.color,
+                                            borderColor: category.color,
+                                            backgroundColor: isSelected ? `${category.color}33` : 'transparent',
+                                        }}
+                                        aria-pressed={isSelected}
+                                    >
+                                        {category.name}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-4">
+                        <label className="text-xs text-gray-400 flex flex-col gap-1">
+                            From
+                            <input type="date" value={filters.from} onChange={(e) => update({ from: e.target.value })} className={inputClass} />
+                        </label>
+                        <label className="text-xs text-gray-400 flex flex-col gap-1">
+                            To
+                            <input type="date" value={filters.to} onChange={(e) => update({ to: e.target.value })} className={inputClass} />
+                        </label>
+                        <label className="text-xs text-gray-400 flex flex-col gap-1">
+                            Email
+                            <select value={filters.emailed} onChange={(e) => update({ emailed: e.target.value as NoteFilters['emailed'] })} className={inputClass}>
+                                <option value="all">All notes</option>
+                                <option value="emailed">Emailed</option>
+                                <option value="not-emailed">Not emailed</option>
+                            </select>
+                        </label>
+                        <label className="text-xs text-gray-400 flex flex-col gap-1">
+                            Sort by
+                            <select value={filters.sort} onChange={(e) => update({ sort: e.target.value as NoteSortOrder })} className={inputClass}>
+                                <option value="category">Category</option>
+                                <option value="newest">Newest first</option>
+                                <option value="oldest">Oldest first</option>
+                                <option value="relevance">Best match</option>
+                            </select>
+                        </label>
+                    </div>
+                </div>
+            )}
+
+            {isFiltering && (
+                <div className="flex items-center justify-between text-sm text-gray-400">
+                    <span>{resultCount} {resultCount === 1 ? 'note matches' : 'notes match'}</span>
+                    <button
+                        onClick={() => onChange({ ...DEFAULT_NOTE_FILTERS, sort: filters.sort })}
+                        className="flex items-center gap-1 hover:text-white"
+                    >
+                        <XMarkIcon className="h-4 w-4" />
+                        Clear filters
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
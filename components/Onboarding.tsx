@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { UserSettings } from '../types';
+import { isValidEmail } from '../utils/validation';
+import { DEFAULT_CATEGORIES } from '../utils/categoryUtils';
 import { LogoIcon } from './icons';
 
 /**
@@ -8,11 +10,10 @@ import { LogoIcon } from './icons';
 interface OnboardingProps {
     /** Callback function that is called when the user successfully completes the onboarding form. */
     onComplete: (settings: Omit<UserSettings, 'onboardingComplete'>) => void;
+    /** Settings from a previous onboarding, used to pre-fill the form when onboarding is reset. */
+    initialSettings?: Omit<UserSettings, 'onboardingComplete'>;
 }
 
-/** The default set of categories for a new user. */
-const defaultCategories = ["Ideas", "Follow ups", "To-do", "Notes"];
-
 /**
  * A component that renders the initial onboarding screen for new users.
  * It collects necessary information like email addresses.
@@ -20,13 +21,13 @@ const defaultCategories = ["Ideas", "Follow ups", "To-do", "Notes"];
  * @param {OnboardingProps} props The props for the component.
  * @returns {React.FC} The rendered onboarding form.
  */
-export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
-    const [defaultEmail, setDefaultEmail] = useState('');
-    const [otherEmails, setOtherEmails] = useState('');
+export const Onboarding: React.FC<OnboardingProps> = ({ onComplete, initialSettings }) => {
+    const [defaultEmail, setDefaultEmail] = useState(initialSettings?.defaultEmail ?? '');
+    const [otherEmails, setOtherEmails] = useState(initialSettings?.otherEmails.join(', ') ?? '');
     const [error, setError] = useState('');
 
     const handleSubmit = () => {
-        if (!defaultEmail || !/^\S+@\S+\.\S+$/.test(defaultEmail)) {
+        if (!isValidEmail(defaultEmail)) {
             setError('Please enter a valid default email address.');
             return;
         }
@@ -35,7 +36,8 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
         onComplete({
             defaultEmail,
             otherEmails: otherEmails.split(',').map(e => e.trim()).filter(Boolean),
-            categories: defaultCategories,
+            // Keep the user's existing categories if they are re-running onboarding.
+            categories: initialSettings?.categories.length ? initialSettings.categories : DEFAULT_CATEGORIES,
         });
     };
 
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Note } from '../types';
+import { listNoteVersions } from '../utils/revisionUtils';
+import { diffWords } from '../utils/diffUtils';
+
+/**
+ * Props for the RevisionHistory component.
+ */
+interface RevisionHistoryProps {
+    /** The note whose history is shown. */
+    note: Note;
+    /** Callback function to restore an earlier version of the note. */
+    onRestore: (revisionId: string) => void;
+}
+
+/**
+ * Shows every version of a note, newest first, with what changed in each one.
+ * Earlier versions can be restored, including edits that lost a sync conflict.
+ *
+ * @param {RevisionHistoryProps} props The props for the component.
+ * @returns {React.FC} The rendered history.
+ */
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ note, onRestore }) => {
+    const versions = listNoteVersions(note);
+    // Pair each version with the one before it, so each entry can show what changed.
+    const entries = versions.map((version, index) => ({ version, previous: versions[index - 1] })).reverse();
+
+    return (
+        <ol className="space-y-3 mt-3 border-t border-gray-700 pt-3">
+            {entries.map(({ version, previous }) => (
+                <li key={version.revisionId ?? 'current'} className="bg-gray-900/50 rounded-md p-3">
+                    <div className="flex justify-between items-center gap-2 mb-2">
+                        <span className="text-xs text-gray-400">
+                            {version.revisionId === null ? 'Current version' : version.conflict ? 'Conflicting edit from another device' : 'Earlier version'} · {version.createdAt.toLocaleString()}
+                        </span>
+                        {version.revisionId !== null && (
+                            <button onClick={() => onRestore(version.revisionId!)} className="text-xs font-semibold text-blue-300 hover:text-blue-200">
+                                Restore
+                            </button>
+                        )}
+                    </div>
+                    {!previous ? (
+                        <p className="text-xs text-gray-500 mb-1">Original dictation</p>
+                    ) : previous.category !== version.category && (
+                        <p className="text-xs text-yellow-300 mb-1">Category: {previous.category} → {version.category}</p>
+                    )}
+                    <p className="text-sm text-gray-300 whitespace-pre-wrap">
+                        {previous
+                            ? diffWords(previous.text, version.text).map((segment, i) => (
+                                <span
+                                    key={i}
+                                    className={segment.type === 'added' ? 'bg-green-900/60 text-green-200' : segment.type === 'removed' ? 'bg-red-900/60 text-red-200 line-through' : undefined}
+                                >
+                                    {segment.text}
+                                </span>
+                            ))
+                            : version.text}
+                    </p>
+                </li>
+            ))}
+        </ol>
+    );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Note, Category, NoteEdit, WebhookTarget, DeliveryStatus } from '../types';
+import { getAudioFileName } from '../utils/noteUtils';
+import { AudioPlayer } from './AudioPlayer';
+import { NoteEditor } from './NoteEditor';
+import { RevisionHistory } from './RevisionHistory';
+import { HighlightedText } from './HighlightedText';
+import { TrashIcon, CheckCircleIcon, PencilIcon, ClockIcon, MicrophoneIcon } from './icons';
+
+/**
+ * Props for the SavedNoteItem component.
+ */
+interface SavedNoteItemProps {
+    /** The note to display. */
+    note: Note;
+    /** The user's categories, offered when editing the note. */
+    categories: Category[];
+    /** The current search query; matching words in the title and text are highlighted. */
+    highlightQuery?: string;
+    /** Callback function to handle the deletion of the note. */
+    onDelete: (id: string) => void;
+    /** Callback function called with the edited text and category. */
+    onUpdate: (id: string, edit: NoteEdit) => void;
+    /** Callback function to restore an earlier version of the note. */
+    onRestoreRevision: (id: string, revisionId: string) => void;
+    /** Callback function to dictate more text onto the end of the note. Omitted while a recording is in progress. */
+    onAppendByVoice?: (id: string) => void;
+    /** The user's webhook targets, used to name them in the delivery status. */
+    webhooks: WebhookTarget[];
+    /** Callback function to send the note to a webhook again after its delivery failed. */
+    onRetryDelivery: (id: string, targetId: string) => void;
+    /** Callback function to ask the AI model to categorize the note again after it gave up. */
+    onRetryCategorization: (id: string) => void;
+}
+
+const actionButtonClass = "text-gray-500 hover:text-white p-2 rounded-full transition-colors flex-shrink-0";
+
+/**
+ * A single saved note in the list. The note can be edited inline, and its
+ * revision history can be shown and restored from. If the note was sent to
+ * webhooks, the status of each delivery is shown; failed ones can be retried.
+ * Notes saved before the AI model could categorize them are marked as such.
+ *
+ * @param {SavedNoteItemProps} props The props for the component.
+ * @returns {React.FC} The rendered note.
+ */
+export const SavedNoteItem: React.FC<SavedNoteItemProps> = ({ note, categories, highlightQuery = '', onDelete, onUpdate, onRestoreRevision, onAppendByVoice, webhooks, onRetryDelivery, onRetryCategorization }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const revisionCount = note.revisions?.length ?? 0;
+    const deliveries = Object.entries(note.deliveries ?? {}) as [string, DeliveryStatus][];
+    const webhookName = (targetId: string) => {
+        const target = webhooks.find(w => w.id === targetId);
+        return target ? target.name || target.url : 'Removed webhook';
+    };
+
+    const handleSave = (edit: NoteEdit) => {
+        onUpdate(note.id, edit);
+        setIsEditing(false);
+    };
+
+    return (
+        <div className="bg-gray-800 rounded-lg p-4 transition-all hover:bg-gray-700/50">
+            <div className="flex justify-between items-start gap-4">
+                <div className="flex-grow min-w-0">
+                    <div className="flex items-center flex-wrap gap-x-3 gap-y-1 mb-2">
+                        <span className="text-xs text-gray-500">{note.timestamp.toLocaleString()}</span>
+                        {note.updatedAt && (
+                            <span className="text-xs text-gray-500">Edited {note.updatedAt.toLocaleString()}</span>
+                        )}
+                        {note.emailSent && (
+                            <span className="flex items-center gap-1 text-xs text-green-400">
+                                <CheckCircleIcon className="h-4 w-4" />
+                                Emailed
+                            </span>
+                        )}
+                        {note.categorization === 'pending' && (
+                            <span className="text-xs text-yellow-400" title="The note will be categorized once the AI can be reached.">
+                                Waiting to be categorized
+                            </span>
+                        )}
+                        {note.categorization === 'failed' && (
+                            <button
+                                onClick={() => onRetryCategorization(note.id)}
+                                className="text-xs text-red-400 hover:text-red-300 underline"
+                                title="The AI could not categorize this note. Click to try again."
+                            >
+                                Not categorized
+                            </button>
+                        )}
+                        {deliveries.map(([targetId, status]) => status === 'failed' ? (
+                            <button
+                                key={targetId}
+                                onClick={() => onRetryDelivery(note.id, targetId)}
+                                className="text-xs text-red-400 hover:text-red-300 underline"
+                                title="Delivery failed. Click to try again."
+                            >
+                                Not sent to {webhookName(targetId)}
+                            </button>
+                        ) : (
+                            <span key={targetId} className={`flex items-center gap-1 text-xs ${status === 'delivered' ? 'text-green-400' : 'text-gray-500'}`}>
+                                {status === 'delivered' && <CheckCircleIcon className="h-4 w-4" />}
+                                {status === 'delivered' ? 'Sent to' : 'Sending to'} {webhookName(targetId)}
+                            </span>
+                        ))}
+                    </div>
+                    {isEditing ? (
+                        <NoteEditor
+                            initial={{ text: note.text, category: note.category, categoryId: note.categoryId }}
+                            categories={categories}
+                            onSave={handleSave}
+                            onCancel={() => setIsEditing(false)}
+                        />
+                    ) : (
+                        <>
+                            {note.title && <p className="text-white font-semibold mb-1"><HighlightedText text={note.title} query={highlightQuery} /></p>}
+                            <p className="text-gray-200 whitespace-pre-wrap"><HighlightedText text={note.text} query={highlightQuery} /></p>
+                        </>
+                    )}
+                    {note.audioId && (
+                        <div className="mt-3">
+                            <AudioPlayer audioId={note.audioId} fileName={getAudioFileName(note, note.timestamp)} duration={note.audioDuration} />
+                        </div>
+                    )}
+                    {note.tags && note.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                            {note.tags.map(tag => (
+                                <span key={tag} className="text-xs text-gray-400 bg-gray-700 px-2 py-0.5 rounded-full">#{tag}</span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <div className="flex flex-col sm:flex-row">
+                    {!isEditing && onAppendByVoice && (
+                        <button onClick={() => onAppendByVoice(note.id)} className={actionButtonClass} aria-label="Add to note by voice" title="Add by voice">
+                            <MicrophoneIcon className="h-5 w-5" />
+                        </button>
+                    )}
+                    {!isEditing && (
+                        <button onClick={() => setIsEditing(true)} className={actionButtonClass} aria-label="Edit note" title="Edit">
+                            <PencilIcon className="h-5 w-5" />
+                        </button>
+                    )}
+                    {revisionCount > 0 && (
+                        <button
+                            onClick={() => setIsHistoryOpen(open => !open)}
+                            className={`${actionButtonClass} ${isHistoryOpen ? 'text-blue-300' : ''}`}
+                            aria-label="Show revision history"
+                            aria-expanded={isHistoryOpen}
+                            title={`${revisionCount} earlier version${revisionCount === 1 ? '' : 's'}`}
+                        >
+                            <ClockIcon className="h-5 w-5" />
+                        </button>
+                    )}
+                    <button onClick={() => onDelete(note.id)} className={`${actionButtonClass} hover:text-red-400`} aria-label="Delete note" title="Delete">
+                        <TrashIcon />
+                    </button>
+                </div>
+            </div>
+            {isHistoryOpen && revisionCount > 0 && (
+                <RevisionHistory note={note} onRestore={(revisionId) => onRestoreRevision(note.id, revisionId)} />
+            )}
+        </div>
+    );
+};
@@ -1,6 +1,12 @@
-import React from 'react';
-import { Note } from '../types';
-import { TrashIcon, CheckCircleIcon } from './icons';
+import React, { useState, useRef, useMemo } from 'react';
+import { Note, Category, NoteEdit, WebhookTarget } from '../types';
+import { resolveCategory, UNKNOWN_CATEGORY_COLOR } from '../utils/categoryUtils';
+import { createSearchIndex } from '../utils/searchIndex';
+import { NoteFilters, DEFAULT_NOTE_FILTERS, filterNotes } from '../utils/noteFilters';
+import { SavedNoteItem } from './SavedNoteItem';
+import { NoteSearchBar } from './NoteSearchBar';
+import { ExportPanel } from './ExportPanel';
+import { DownloadIcon } from './icons';
 
 /**
  * Props for the SavedNotesList component.
@@ -8,76 +14,142 @@ import { TrashIcon, CheckCircleIcon } from './icons';
 interface SavedNotesListProps {
     /** An array of saved notes to display. */
     notes: Note[];
+    /** The user's categories, which determine how notes are grouped, ordered and colored. */
+    categories: Category[];
     /** Callback function to handle the deletion of a note. */
     onDelete: (id: string) => void;
+    /** Callback function called with the edited text and category of a note. */
+    onUpdate: (id: string, edit: NoteEdit) => void;
+    /** Callback function to restore an earlier version of a note. */
+    onRestoreRevision: (id: string, revisionId: string) => void;
+    /** Callback function to dictate more text onto the end of a note. Omitted while a recording is in progress. */
+    onAppendByVoice?: (id: string) => void;
+    /** The user's webhook targets, used to name them in each note's delivery status. */
+    webhooks: WebhookTarget[];
+    /** Callback function to send a note to a webhook again after its delivery failed. */
+    onRetryDelivery: (id: string, targetId: string) => void;
+    /** Callback function to ask the AI model to categorize a note again after it gave up. */
+    onRetryCategorization: (id: string) => void;
 }
 
-/** Defines the desired display order for note categories. */
-const categoryOrder = ["To-do", "Follow ups", "Ideas", "Notes"];
+/**
+ * A group of notes that share a category.
+ */
+interface NoteGroup {
+    /** A key identifying the group: the category id, or the raw name for unknown categories. */
+    key: string;
+    /** The heading shown for the group. */
+    name: string;
+    /** The color of the group heading. */
+    color: string;
+    /** The position of the group; unknown categories sort after all known ones. */
+    order: number;
+    /** The notes in the group. */
+    notes: Note[];
+}
 
 /**
  * A component that displays a list of saved notes, grouped by category.
+ * The list can be searched and filtered; search matches are highlighted.
+ * The notes matching the current filters can be exported.
  *
  * @param {SavedNotesListProps} props The props for the component.
  * @returns {React.FC | null} The rendered list of saved notes, or null if there are no notes.
  */
-export const SavedNotesList: React.FC<SavedNotesListProps> = ({ notes, onDelete }) => {
+export const SavedNotesList: React.FC<SavedNotesListProps> = ({ notes, categories, onDelete, onUpdate, onRestoreRevision, onAppendByVoice, webhooks, onRetryDelivery, onRetryCategorization }) => {
+    const [filters, setFilters] = useState<NoteFilters>(DEFAULT_NOTE_FILTERS);
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    // The index lives for the lifetime of the list and is updated incrementally as notes change.
+    const searchIndexRef = useRef(createSearchIndex());
+
+    const searchScores = useMemo(() => {
+        searchIndexRef.current.sync(notes);
+        return filters.query.trim() ? searchIndexRef.current.search(filters.query) : null;
+    }, [notes, filters.query]);
+
+    const visibleNotes: Note[] = useMemo(
+        () => filterNotes(notes, filters, categories, searchScores),
+        [notes, filters, categories, searchScores]
+    );
+
     if (notes.length === 0) {
         return null;
     }
 
-    // Group notes by their category.
-    const groupedNotes = notes.reduce((acc, note) => {
-        const category = note.category;
-        if (!acc[category]) {
-            acc[category] = [];
+    // Group notes by their category, matching by id first and then loosely by name.
+    const groupedNotes: Record<string, NoteGroup> = visibleNotes.reduce((acc: Record<string, NoteGroup>, note: Note) => {
+        const category = resolveCategory(categories, note);
+        const key = category?.id ?? note.category;
+        if (!acc[key]) {
+            acc[key] = {
+                key,
+                name: category?.name ?? note.category,
+                color: category?.color ?? UNKNOWN_CATEGORY_COLOR,
+                order: category?.order ?? Number.MAX_SAFE_INTEGER,
+                notes: [],
+            };
         }
-        acc[category].push(note);
+        acc[key].notes.push(note);
         return acc;
-    }, {} as Record<string, Note[]>);
+    }, {});
+
+    // Sort the groups based on the user's category ordering.
+    const sortedGroups = Object.values(groupedNotes).sort((a, b) => a.order - b.order || a.name.localeCompare(b.name));
 
-    // Sort the categories based on the predefined `categoryOrder`.
-    const sortedCategories = Object.keys(groupedNotes).sort((a, b) => {
-        const indexA = categoryOrder.indexOf(a);
-        const indexB = categoryOrder.indexOf(b);
-        if (indexA === -1) return 1;
-        if (indexB === -1) return -1;
-        return indexA - indexB;
-    });
+    const renderNote = (note: Note) => (
+        <SavedNoteItem
+            key={note.id}
+            note={note}
+            categories={categories}
+            highlightQuery={filters.query}
+            onDelete={onDelete}
+            onUpdate={onUpdate}
+            onRestoreRevision={onRestoreRevision}
+            onAppendByVoice={onAppendByVoice}
+            webhooks={webhooks}
+            onRetryDelivery={onRetryDelivery}
+            onRetryCategorization={onRetryCategorization}
+        />
+    );
 
     return (
         <div className="w-full max-w-4xl mx-auto mt-8">
-            <h2 className="text-xl font-semibold text-gray-300 mb-4 px-2">Saved Notes</h2>
-            <div className="space-y-6">
-                {sortedCategories.map(category => (
-                    <div key={category}>
-                        <h3 className="text-lg font-semibold text-blue-300 mb-2 pl-2 sticky top-0 bg-gray-900/80 backdrop-blur-sm py-2 z-10 border-b border-gray-700/50">
-                            {category}
-                        </h3>
-                        <div className="space-y-3 pt-2">
-                            {groupedNotes[category].map(note => (
-                                <div key={note.id} className="bg-gray-800 rounded-lg p-4 flex justify-between items-start gap-4 transition-all hover:bg-gray-700/50">
-                                    <div className="flex-grow">
-                                        <div className="flex items-center flex-wrap gap-x-3 gap-y-1 mb-2">
-                                            <span className="text-xs text-gray-500">{note.timestamp.toLocaleString()}</span>
-                                            {note.emailSent && (
-                                                <span className="flex items-center gap-1 text-xs text-green-400">
-                                                    <CheckCircleIcon className="h-4 w-4" />
-                                                    Emailed
-                                                </span>
-                                            )}
-                                        </div>
-                                        <p className="text-gray-200 whitespace-pre-wrap">{note.text}</p>
-                                    </div>
-                                    <button onClick={() => onDelete(note.id)} className="text-gray-500 hover:text-red-400 p-2 rounded-full transition-colors flex-shrink-0">
-                                        <TrashIcon />
-                                    </button>
-                                </div>
-                            ))}
-                        </div>
-                    </div>
-                ))}
+            <div className="flex justify-between items-center mb-4 px-2">
+                <h2 className="text-xl font-semibold text-gray-300">Saved Notes</h2>
+                <button
+                    onClick={() => setIsExportOpen(open => !open)}
+                    className={`flex items-center gap-1 text-sm transition-colors ${isExportOpen ? 'text-blue-300' : 'text-gray-400 hover:text-white'}`}
+                    aria-expanded={isExportOpen}
+                >
+                    <DownloadIcon className="h-5 w-5" />
+                    Export
+                </button>
             </div>
+            {isExportOpen && (
+                <ExportPanel notes={visibleNotes} onClose={() => setIsExportOpen(false)} />
+            )}
+            <NoteSearchBar filters={filters} onChange={setFilters} categories={categories} resultCount={visibleNotes.length} />
+            {visibleNotes.length === 0 && (
+                <p className="text-gray-500 text-center py-8">No notes match your search.</p>
+            )}
+            {filters.sort !== 'category' ? (
+                <div className="space-y-3">
+                    {visibleNotes.map(renderNote)}
+                </div>
+            ) : (
+                <div className="space-y-6">
+                    {sortedGroups.map(group => (
+                        <div key={group.key}>
+                            <h3 className="text-lg font-semibold mb-2 pl-2 sticky top-0 bg-gray-900/80 backdrop-blur-sm py-2 z-10 border-b border-gray-700/50" style={{ color: group.color }}>
+                                {group.name}
+                            </h3>
+                            <div className="space-y-3 pt-2">
+                                {group.notes.map(renderNote)}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
         </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,693 @@
+import React, { useEffect, useState } from 'react';
+import { UserSettings, Category, Note, VoiceCommandAction, VoiceCommandPhrases, FormattingStep, Replacement, AutomationRule, WebhookTarget, CategorizerMode, SyncStatus, VaultStatus } from '../types';
+import { isValidEmail, isValidSyncUrl, isValidWebhookUrl } from '../utils/validation';
+import { createCategory, sortCategories } from '../utils/categoryUtils';
+import { parseNotesJson } from '../utils/noteExport';
+import { resolveVoiceCommands, VOICE_COMMAND_LABELS } from '../utils/voiceCommands';
+import { DEFAULT_FORMATTING } from '../utils/formatting';
+import { DEFAULT_SILENCE } from '../utils/voiceActivity';
+import { validateAutomationRule } from '../utils/automationRules';
+import { isValidPattern } from '../utils/localClassifier';
+import { CATEGORIZER_MODES, isGeminiAvailable, resolveCategorizerMode } from '../services/categorizationService';
+import { listMicrophones } from '../services/audioCapture';
+import { FormattingStepsPicker } from './FormattingStepsPicker';
+import { AutomationRulesEditor } from './AutomationRulesEditor';
+import { WebhookTargetsEditor } from './WebhookTargetsEditor';
+import { VaultSettings } from './VaultSettings';
+import { ArrowUpIcon, ArrowDownIcon, PlusIcon, TrashIcon, XMarkIcon, UploadIcon } from './icons';
+
+/**
+ * Props for the Settings component.
+ */
+interface SettingsProps {
+    /** The user's current settings. */
+    settings: UserSettings;
+    /** Callback function called with the updated settings. */
+    onSave: (settings: UserSettings) => void;
+    /** Callback function to close the settings view without saving. */
+    onCancel: () => void;
+    /** Callback function to send the user back through onboarding. */
+    onResetOnboarding: () => void;
+    /** Callback function called with notes read from an imported file. Resolves with the number of notes that were new. */
+    onImportNotes: (notes: Note[]) => Promise<number>;
+    /** How syncing is going, or null while sync is turned off. */
+    syncStatus: SyncStatus | null;
+    /** Callback function to sync with the sync server right away. */
+    onSyncNow: () => void;
+    /** Whether notes are encrypted on this device, or null until storage has been checked. */
+    vaultStatus: VaultStatus | null;
+    /** Callback function called with the vault's status after it was turned on or off or changed. */
+    onVaultChange: (status: VaultStatus) => void;
+}
+
+const inputClass = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none";
+const iconButtonClass = "p-2 rounded-md text-gray-400 hover:text-white hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed transition-colors";
+
+/**
+ * Describes the sync status in a short sentence.
+ * @param {SyncStatus} status - The sync status.
+ * @returns {string} The description.
+ */
+function describeSyncStatus(status: SyncStatus): string {
+    const lastSynced = status.lastSyncedAt ? ` Last synced ${status.lastSyncedAt.toLocaleTimeString()}.` : '';
+    switch (status.state) {
+        case 'syncing': return `Syncing…${lastSynced}`;
+        case 'offline': return `Offline; changes will sync when you're back online.${lastSynced}`;
+        case 'error': return `Sync failed: ${status.error ?? 'unknown error'}.${lastSynced}`;
+        default: return lastSynced.trim() || 'Waiting to sync.';
+    }
+}
+
+/**
+ * A screen for editing the user's settings after onboarding.
+ * It manages the email list, the category list (add, rename, reorder, delete),
+ * the categorizer, the microphone, the voice command phrases, transcript formatting, automation rules, webhook targets, sync, encryption, imports notes from a JSON export, and offers a way to reset onboarding.
+ *
+ * @param {SettingsProps} props The props for the component.
+ * @returns {React.FC} The rendered settings screen.
+ */
+export const Settings: React.FC<SettingsProps> = ({ settings, onSave, onCancel, onResetOnboarding, onImportNotes, syncStatus, onSyncNow, vaultStatus, onVaultChange }) => {
+    const [defaultEmail, setDefaultEmail] = useState(settings.defaultEmail);
+    const [otherEmails, setOtherEmails] = useState<string[]>(settings.otherEmails);
+    const [newEmail, setNewEmail] = useState('');
+    const [categories, setCategories] = useState<Category[]>(sortCategories(settings.categories));
+    const [keepAudio, setKeepAudio] = useState(settings.keepAudio ?? false);
+    const [autoStopSeconds, setAutoStopSeconds] = useState(settings.silence?.autoStopSeconds ?? DEFAULT_SILENCE.autoStopSeconds);
+    const [splitSeconds, setSplitSeconds] = useState(settings.silence?.splitSeconds ?? DEFAULT_SILENCE.splitSeconds);
+    const [microphoneId, setMicrophoneId] = useState(settings.microphone?.deviceId ?? '');
+    const [gain, setGain] = useState(settings.microphone?.gain ?? 1);
+    const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+    const [voiceCommandsEnabled, setVoiceCommandsEnabled] = useState(settings.voiceCommandsEnabled ?? true);
+    // Phrases are edited as comma-separated text and split again on save.
+    const [commandPhrases, setCommandPhrases] = useState<Record<VoiceCommandAction, string>>(() => {
+        const phrases = resolveVoiceCommands(settings.voiceCommands);
+        const text = {} as Record<VoiceCommandAction, string>;
+        (Object.keys(phrases) as VoiceCommandAction[]).forEach(action => {
+            text[action] = phrases[action].join(', ');
+        });
+        return text;
+    });
+    // Keywords are edited one per line, with patterns wrapped in slashes, and split again on save.
+    const [categoryKeywords, setCategoryKeywords] = useState<Record<string, string>>(() => Object.fromEntries(
+        settings.categories.map(c => [c.id, [...(c.keywords ?? []), ...(c.patterns ?? []).map(p => `/${p}/`)].join('\n')])
+    ));
+    const [categorizer, setCategorizer] = useState<CategorizerMode>(resolveCategorizerMode(settings.categorizer));
+    const [formattingSteps, setFormattingSteps] = useState<FormattingStep[]>(settings.formatting?.steps ?? DEFAULT_FORMATTING.steps);
+    const [replacements, setReplacements] = useState<Replacement[]>(settings.formatting?.replacements ?? DEFAULT_FORMATTING.replacements);
+    const [automationRules, setAutomationRules] = useState<AutomationRule[]>(settings.automationRules ?? []);
+    const [webhooks, setWebhooks] = useState<WebhookTarget[]>(settings.webhooks ?? []);
+    const [syncEnabled, setSyncEnabled] = useState(settings.sync?.enabled ?? false);
+    const [syncUrl, setSyncUrl] = useState(settings.sync?.url ?? '/api/sync');
+    const [syncToken, setSyncToken] = useState(settings.sync?.token ?? '');
+    const [error, setError] = useState('');
+    const [importStatus, setImportStatus] = useState('');
+
+    useEffect(() => {
+        listMicrophones()
+            .then(setMicrophones)
+            .catch(e => console.error("Failed to list microphones", e));
+    }, []);
+
+    const handleAddEmail = () => {
+        const email = newEmail.trim();
+        if (!isValidEmail(email)) {
+            setError(`"${email}" is not a valid email address.`);
+            return;
+        }
+        if (email === defaultEmail.trim() || otherEmails.includes(email)) {
+            setError(`${email} is already in your list.`);
+            return;
+        }
+        setError('');
+        setOtherEmails(prev => [...prev, email]);
+        setNewEmail('');
+    };
+
+    const handleRemoveEmail = (email: string) => {
+        setOtherEmails(prev => prev.filter(e => e !== email));
+    };
+
+    const handleAddCategory = () => {
+        setCategories(prev => [...prev, createCategory('', prev.length)]);
+    };
+
+    const handleUpdateCategory = (id: string, changes: Partial<Category>) => {
+        setCategories(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
+    };
+
+    const handleMoveCategory = (index: number, direction: -1 | 1) => {
+        setCategories(prev => {
+            const target = index + direction;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const handleUpdateReplacement = (index: number, changes: Partial<Replacement>) => {
+        setReplacements(prev => prev.map((r, i) => i === index ? { ...r, ...changes } : r));
+    };
+
+    const handleDeleteCategory = (id: string) => {
+        setCategories(prev => prev.filter(c => c.id !== id));
+    };
+
+    const handleImportFile = async (file: File | undefined) => {
+        if (!file) return;
+        setImportStatus('');
+        try {
+            const { notes, invalidCount } = parseNotesJson(await file.text());
+            const addedCount = await onImportNotes(notes);
+            const skippedCount = notes.length - addedCount;
+            setError('');
+            setImportStatus([
+                `Imported ${addedCount} ${addedCount === 1 ? 'note' : 'notes'}.`,
+                skippedCount > 0 ? `${skippedCount} already existed.` : '',
+                invalidCount > 0 ? `${invalidCount} could not be read.` : '',
+            ].filter(Boolean).join(' '));
+        } catch (e) {
+            console.error("Failed to import notes", e);
+            setError(e instanceof Error ? `Import failed: ${e.message}` : 'Import failed.');
+        }
+    };
+
+    const handleResetOnboarding = () => {
+        if (window.confirm("Reset onboarding? Your saved notes will be kept.")) {
+            onResetOnboarding();
+        }
+    };
+
+    const handleSubmit = () => {
+        if (!isValidEmail(defaultEmail)) {
+            setError('Please enter a valid default email address.');
+            return;
+        }
+
+        const names = categories.map(c => c.name.trim());
+        if (names.some(name => name.length === 0)) {
+            setError('Category names cannot be empty.');
+            return;
+        }
+        const lowerNames = names.map(name => name.toLowerCase());
+        if (new Set(lowerNames).size !== lowerNames.length) {
+            setError('Category names must be unique.');
+            return;
+        }
+
+        const categoryRules = Object.fromEntries(categories.map(c => {
+            const lines = (categoryKeywords[c.id] ?? '').split('\n').map(line => line.trim()).filter(Boolean);
+            const isPattern = (line: string) => line.length > 2 && line.startsWith('/') && line.endsWith('/');
+            return [c.id, {
+                keywords: lines.filter(line => !isPattern(line)),
+                patterns: lines.filter(isPattern).map(line => line.slice(1, -1)),
+            }];
+        }));
+        const invalidPattern = categories
+            .flatMap(c => categoryRules[c.id].patterns.map(pattern => ({ pattern, name: c.name.trim() })))
+            .find(({ pattern }) => !isValidPattern(pattern));
+        if (invalidPattern) {
+            setError(`"/${invalidPattern.pattern}/" in ${invalidPattern.name} is not a valid regular expression.`);
+            return;
+        }
+
+        if (webhooks.some(w => !w.name.trim())) {
+            setError('Every webhook needs a name.');
+            return;
+        }
+        if (webhooks.some(w => !isValidWebhookUrl(w.url))) {
+            setError('Webhook URLs must start with http:// or https://.');
+            return;
+        }
+
+        if (syncEnabled && !isValidSyncUrl(syncUrl)) {
+            setError('The sync server URL must start with / or with http:// or https://.');
+            return;
+        }
+        if (syncEnabled && !syncToken.trim()) {
+            setError('Sync needs the access token of the sync server.');
+            return;
+        }
+
+        // Rules for deleted categories are dropped along with the category.
+        const keptRules = automationRules.filter(rule => categories.some(c => c.id === rule.categoryId));
+        const emailAddresses = [defaultEmail.trim(), ...otherEmails];
+        const ruleError = keptRules.map(rule => validateAutomationRule(rule, categories, emailAddresses, webhooks)).find(Boolean);
+        if (ruleError) {
+            setError(ruleError);
+            return;
+        }
+
+        const voiceCommands = {} as VoiceCommandPhrases;
+        (Object.keys(commandPhrases) as VoiceCommandAction[]).forEach(action => {
+            voiceCommands[action] = commandPhrases[action].split(',').map(phrase => phrase.trim().toLowerCase()).filter(Boolean);
+        });
+
+        setError('');
+        onSave({
+            ...settings,
+            defaultEmail: defaultEmail.trim(),
+            otherEmails: otherEmails.filter(e => e !== defaultEmail.trim()),
+            keepAudio,
+            silence: { autoStopSeconds, splitSeconds },
+            microphone: { deviceId: microphoneId || undefined, gain },
+            automationRules: keptRules.map(rule => rule.action.type === 'addTag'
+                ? { ...rule, action: { ...rule.action, tag: rule.action.tag.trim().replace(/^#/, '') } }
+                : rule),
+            webhooks: webhooks.map(w => ({
+                ...w,
+                name: w.name.trim(),
+                url: w.url.trim(),
+                headers: w.headers.map(h => ({ name: h.name.trim(), value: h.value })).filter(h => h.name),
+            })),
+            categorizer,
+            sync: { enabled: syncEnabled, url: syncUrl.trim(), token: syncToken.trim() },
+            voiceCommandsEnabled,
+            voiceCommands,
+            formatting: {
+                steps: formattingSteps,
+                replacements: replacements.filter(r => r.from.trim()).map(r => ({ from: r.from.trim(), to: r.to })),
+            },
+            categories: categories.map((c, index) => ({
+                ...c,
+                name: c.name.trim(),
+                description: c.description?.trim() || undefined,
+                keywords: categoryRules[c.id].keywords.length > 0 ? categoryRules[c.id].keywords : undefined,
+                patterns: categoryRules[c.id].patterns.length > 0 ? categoryRules[c.id].patterns : undefined,
+                order: index,
+            })),
+        });
+    };
+
+    return (
+        <div className="w-full max-w-2xl mx-auto bg-gray-800 p-6 rounded-xl shadow-2xl border border-gray-700 animate-fade-in text-left">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold">Settings</h2>
+                <button onClick={onCancel} className={iconButtonClass} aria-label="Close settings">
+                    <XMarkIcon className="h-6 w-6" />
+                </button>
+            </div>
+
+            {error && <p className="text-red-400 bg-red-900/30 p-3 rounded-md mb-4 text-center">{error}</p>}
+
+            <section className="space-y-4 mb-8">
+                <h3 className="text-lg font-semibold text-blue-300">Email</h3>
+                <div>
+                    <label htmlFor="settings-default-email" className="block text-sm font-medium text-gray-300 mb-2">
+                        Default Email Address
+                    </label>
+                    <input
+                        type="email"
+                        id="settings-default-email"
+                        value={defaultEmail}
+                        onChange={(e) => setDefaultEmail(e.target.value)}
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <p className="block text-sm font-medium text-gray-300 mb-2">Other Email Addresses</p>
+                    <ul className="space-y-2 mb-2">
+                        {otherEmails.map(email => (
+                            <li key={email} className="flex items-center justify-between bg-gray-700/50 rounded-md px-3 py-1">
+                                <span className="text-gray-200 truncate">{email}</span>
+                                <button onClick={() => handleRemoveEmail(email)} className={iconButtonClass} aria-label={`Remove ${email}`}>
+                                    <TrashIcon />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="flex gap-2">
+                        <input
+                            type="email"
+                            value={newEmail}
+                            onChange={(e) => setNewEmail(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleAddEmail(); }}
+                            placeholder="work@example.com"
+                            className={inputClass}
+                        />
+                        <button onClick={handleAddEmail} className="flex items-center gap-1 px-4 bg-blue-600 hover:bg-blue-700 rounded-md font-semibold transition-colors">
+                            <PlusIcon className="h-5 w-5" />
+                            Add
+                        </button>
+                    </div>
+                </div>
+            </section>
+
+            <section className="space-y-4 mb-8">
+                <h3 className="text-lg font-semibold text-blue-300">Categories</h3>
+                <p className="text-xs text-gray-500">Renaming or deleting a category also updates your saved notes. Notes in a deleted category are moved to "Notes".</p>
+                <ul className="space-y-4">
+                    {categories.map((category, index) => (
+                        <li key={category.id} className="space-y-1">
+                            <div className="flex items-center gap-1">
+                                <input
+                                    type="color"
+                                    value={category.color}
+                                    onChange={(e) => handleUpdateCategory(category.id, { color: e.target.value })}
+                                    className="h-10 w-10 flex-shrink-0 bg-transparent border-0 cursor-pointer"
+                                    aria-label="Category color"
+                                />
+                                <input
+                                    type="text"
+                                    value={category.name}
+                                    onChange={(e) => handleUpdateCategory(category.id, { name: e.target.value })}
+                                    placeholder="Category name"
+                                    className={inputClass}
+                                    aria-label="Category name"
+                                />
+                                <button onClick={() => handleMoveCategory(index, -1)} disabled={index === 0} className={iconButtonClass} aria-label="Move up">
+                                    <ArrowUpIcon className="h-5 w-5" />
+                                </button>
+                                <button onClick={() => handleMoveCategory(index, 1)} disabled={index === categories.length - 1} className={iconButtonClass} aria-label="Move down">
+                                    <ArrowDownIcon className="h-5 w-5" />
+                                </button>
+                                <button onClick={() => handleDeleteCategory(category.id)} className={`${iconButtonClass} hover:text-red-400`} aria-label="Delete category">
+                                    <TrashIcon />
+                                </button>
+                            </div>
+                            <div className="pl-11">
+                                <input
+                                    type="text"
+                                    value={category.description ?? ''}
+                                    onChange={(e) => handleUpdateCategory(category.id, { description: e.target.value })}
+                                    placeholder="Description (optional), helps the AI pick this category"
+                                    className={`${inputClass} text-sm`}
+                                    aria-label="Category description"
+                                />
+                                {categorizer !== 'gemini' && (
+                                    <textarea
+                                        value={categoryKeywords[category.id] ?? ''}
+                                        onChange={(e) => setCategoryKeywords(prev => ({ ...prev, [category.id]: e.target.value }))}
+                                        placeholder={'Keywords for categorizing on this device, one per line. Wrap a line in slashes for a regular expression, e.g. /\\b(milk|eggs)\\b/'}
+                                        rows={2}
+                                        className={`${inputClass} text-sm mt-2`}
+                                        aria-label="Category keywords"
+                                    />
+                                )}
+                                <label className="flex items-center gap-2 mt-2 text-sm text-gray-400 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={category.extractsTasks ?? false}
+                                        onChange={(e) => handleUpdateCategory(category.id, { extractsTasks: e.target.checked })}
+                                        className="h-4 w-4 accent-blue-500"
+                                    />
+                                    Add action items from these notes to the task list
+                                </label>
+                                <label className="flex items-center gap-2 mt-1 text-sm text-gray-400 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={category.formattingSteps !== undefined}
+                                        onChange={(e) => handleUpdateCategory(category.id, { formattingSteps: e.target.checked ? formattingSteps : undefined })}
+                                        className="h-4 w-4 accent-blue-500"
+                                    />
+                                    Format these notes differently
+                                </label>
+                                {category.formattingSteps && (
+                                    <div className="pl-6 mt-2">
+                                        <FormattingStepsPicker
+                                            steps={category.formattingSteps}
+                                            onChange={(steps) => handleUpdateCategory(category.id, { formattingSteps: steps })}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+                <button onClick={handleAddCategory} className="flex items-center gap-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md font-semibold transition-colors">
+                    <PlusIcon className="h-5 w-5" />
+                    Add Category
+                </button>
+            </section>
+
+            <section className="space-y-2 mb-8">
+                <h3 className="text-lg font-semibold text-blue-300">Categorization</h3>
+                {CATEGORIZER_MODES.map(({ mode, label, description }) => (
+                    <label key={mode} className="flex items-start gap-3 text-gray-300 cursor-pointer">
+                        <input
+                            type="radio"
+                            name="categorizer"
+                            checked={categorizer === mode}
+                            onChange={() => setCategorizer(mode)}
+                            className="h-4 w-4 mt-1 accent-blue-500"
+                        />
+                        <span>
+                            {label}
+                            <span className="block text-xs text-gray-500">{description}</span>
+                        </span>
+                    </label>
+                ))}
+                {categorizer !== 'local' && !isGeminiAvailable() && (
+                    <p className="text-xs text-yellow-400">
+                        {categorizer === 'gemini'
+                            ? 'No Gemini API key is configured, so notes will wait to be categorized.'
+                            : 'No Gemini API key is configured, so the local categorizer is used for every note.'}
+                    </p>
+                )}
+            </section>
+
+            <section className="space-y-2 mb-8">
+                <h3 className="text-lg font-semibold text-blue-300">Recording</h3>
+                <label className="flex items-center gap-3 text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={keepAudio}
+                        onChange={(e) => setKeepAudio(e.target.checked)}
+                        className="h-4 w-4 accent-blue-500"
+                    />
+                    Keep the original audio with each note
+                </label>
+                <p className="text-xs text-gray-500">Recordings are stored on this device as WAV files and can be played back or downloaded.</p>
+                <label className="flex items-center gap-3 text-gray-300">
+                    Microphone
+                    <select
+                        value={microphoneId}
+                        onChange={(e) => setMicrophoneId(e.target.value)}
+                        className="flex-grow min-w-0 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    >
+                        <option value="">Default microphone</option>
+                        {microphones.filter(device => device.deviceId && device.deviceId !== 'default').map((device, index) => (
+                            <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${index + 1}`}</option>
+                        ))}
+                        {microphoneId && !microphones.some(device => device.deviceId === microphoneId) && (
+                            <option value={microphoneId}>Chosen microphone (not connected)</option>
+                        )}
+                    </select>
+                </label>
+                <label className="flex items-center gap-3 text-gray-300">
+                    Input gain
+                    <input
+                        type="range"
+                        min={0.5}
+                        max={4}
+                        step={0.1}
+                        value={gain}
+                        onChange={(e) => setGain(Number(e.target.value))}
+                        className="flex-grow accent-blue-500"
+                    />
+                    <span className="w-12 text-right text-sm">{Math.round(gain * 100)}%</span>
+                </label>
+                <p className="text-xs text-gray-500">Microphone names show up once you have allowed microphone access. Raise the gain if the level meter next to the microphone button barely moves while you speak. These settings aren't synced to your other devices.</p>
+                <label className="flex items-center gap-3 text-gray-300">
+                    Stop recording after
+                    <input
+                        type="number"
+                        min={0}
+                        max={120}
+                        value={autoStopSeconds}
+                        onChange={(e) => setAutoStopSeconds(Math.max(0, Number(e.target.value) || 0))}
+                        className="w-20 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    />
+                    seconds of silence
+                </label>
+                <label className="flex items-center gap-3 text-gray-300">
+                    Start a new note after a
+                    <input
+                        type="number"
+                        min={0}
+                        max={60}
+                        value={splitSeconds}
+                        onChange={(e) => setSplitSeconds(Math.max(0, Number(e.target.value) || 0))}
+                        className="w-20 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    />
+                    second pause
+                </label>
+                <p className="text-xs text-gray-500">Set either to 0 to turn it off. Each new note is categorized separately and reviewed on its own card. Pauses of 3 seconds or more work best, so the transcription can catch up.</p>
+            </section>
+
+            <section className="space-y-3 mb-8">
+                <h3 className="text-lg font-semibold text-blue-300">Formatting</h3>
+                <p className="text-xs text-gray-500">Applied to each transcript when you stop dictating. Categories can override these steps.</p>
+                <FormattingStepsPicker steps={formattingSteps} onChange={setFormattingSteps} />
+                <div className="space-y-2">
+                    <p className="text-sm text-gray-400">Replacements, for words the transcription gets wrong</p>
+                    {replacements.map((replacement, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={replacement.from}
+                                onChange={(e) => handleUpdateReplacement(index, { from: e.target.value })}
+                                placeholder="quick dictate"
+                                className={`${inputClass} text-sm`}
+                                aria-label="Transcribed phrase"
+                            />
+                            <span className="text-gray-500">→</span>
+                            <input
+                                type="text"
+                                value={replacement.to}
+                                onChange={(e) => handleUpdateReplacement(index, { to: e.target.value })}
+                                placeholder="QuickDictate"
+                                className={`${inputClass} text-sm`}
+                                aria-label="Replacement"
+                            />
+                            <button onClick={() => setReplacements(prev => prev.filter((_, i) => i !== index))} className={`${iconButtonClass} hover:text-red-400`} aria-label="Delete replacement">
+                                <TrashIcon />
+                            </button>
+                        </div>
+                    ))}
+                    <button onClick={() => setReplacements(prev => [...prev, { from: '', to: '' }])} className="flex items-center gap-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md font-semibold transition-colors">
+                        <PlusIcon className="h-5 w-5" />
+                        Add Replacement
+                    </button>
+                </div>
+            </section>
+
+            <section className="space-y-3 mb-8">
+                <h3 className="text-lg font-semibold text-blue-300">Voice Commands</h3>
+                <label className="flex items-center gap-3 text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={voiceCommandsEnabled}
+                        onChange={(e) => setVoiceCommandsEnabled(e.target.checked)}
+                        className="h-4 w-4 accent-blue-500"
+                    />
+                    Recognize spoken commands while dictating
+                </label>
+                {voiceCommandsEnabled && (
+                    <div className="space-y-3">
+                        <p className="text-xs text-gray-500">Separate alternative phrases with commas. Leave a command empty to turn it off.</p>
+                        {(Object.keys(commandPhrases) as VoiceCommandAction[]).map(action => (
+                            <label key={action} className="block text-sm text-gray-400">
+                                {VOICE_COMMAND_LABELS[action]}
+                                <input
+                                    type="text"
+                                    value={commandPhrases[action]}
+                                    onChange={(e) => setCommandPhrases(prev => ({ ...prev, [action]: e.target.value }))}
+                                    className={`${inputClass} mt-1 text-sm`}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                )}
+            </section>
+
+            <section className="space-y-3 mb-8">
+                <h3 className="text-lg font-semibold text-blue-300">Automation Rules</h3>
+                <p className="text-xs text-gray-500">Run actions on new notes based on the category the AI picks. Rules fire once, when a note is categorized; a confidence threshold keeps them from firing on notes the AI is unsure about.</p>
+                <AutomationRulesEditor
+                    rules={automationRules}
+                    categories={categories}
+                    emailAddresses={[defaultEmail.trim(), ...otherEmails].filter(Boolean)}
+                    webhooks={webhooks}
+                    onChange={setAutomationRules}
+                />
+            </section>
+
+            <section className="space-y-3 mb-8">
+                <h3 className="text-lg font-semibold text-blue-300">Webhooks</h3>
+                <p className="text-xs text-gray-500">Saved notes are POSTed to these URLs as JSON. Failed deliveries are retried with increasing delays, even after a reload. With a signing secret, each request carries an HMAC-SHA256 signature the receiver can check.</p>
+                <WebhookTargetsEditor webhooks={webhooks} onChange={setWebhooks} />
+            </section>
+
+            <section className="space-y-3 mb-8">
+                <h3 className="text-lg font-semibold text-blue-300">Sync</h3>
+                <label className="flex items-center gap-3 text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={syncEnabled}
+                        onChange={(e) => setSyncEnabled(e.target.checked)}
+                        className="h-4 w-4 accent-blue-500"
+                    />
+                    Sync notes and settings with my other devices
+                </label>
+                {syncEnabled && (
+                    <>
+                        <input
+                            type="text"
+                            value={syncUrl}
+                            onChange={(e) => setSyncUrl(e.target.value)}
+                            placeholder="Sync server URL"
+                            aria-label="Sync server URL"
+                            className={inputClass}
+                        />
+                        <input
+                            type="password"
+                            value={syncToken}
+                            onChange={(e) => setSyncToken(e.target.value)}
+                            placeholder="Access token"
+                            aria-label="Sync access token"
+                            autoComplete="off"
+                            className={inputClass}
+                        />
+                    </>
+                )}
+                {syncStatus && (
+                    <div className="flex items-center gap-3">
+                        <p className={`text-sm flex-grow ${syncStatus.state === 'error' ? 'text-red-400' : 'text-gray-400'}`}>{describeSyncStatus(syncStatus)}</p>
+                        <button
+                            onClick={onSyncNow}
+                            disabled={syncStatus.state === 'syncing'}
+                            className="px-3 py-1 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 rounded-md text-sm font-semibold transition-colors"
+                        >
+                            Sync now
+                        </button>
+                    </div>
+                )}
+                <p className="text-xs text-gray-500">Use /api/sync for the sync server built into the QuickNotes server, with the token set as SYNC_TOKEN there. Tasks, recordings, delivery progress and webhook secrets and header values stay on each device. When a note is edited on two devices at once, the later edit wins and the other is kept in the note's history.</p>
+            </section>
+
+            {vaultStatus && (
+                <section className="space-y-3 mb-8">
+                    <h3 className="text-lg font-semibold text-blue-300">Encryption</h3>
+                    <p className="text-xs text-gray-500">Encrypt your notes, settings, tasks and recordings on this device with a passphrase, so other scripts and extensions can't read them. The app then asks for the passphrase when it opens and after the auto-lock timeout. There is no way to recover a forgotten passphrase. Changes here take effect right away.</p>
+                    <VaultSettings status={vaultStatus} onChange={onVaultChange} />
+                </section>
+            )}
+
+            <section className="space-y-2 mb-8">
+                <h3 className="text-lg font-semibold text-blue-300">Import</h3>
+                <label className="inline-flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-md font-semibold transition-colors cursor-pointer">
+                    <UploadIcon className="h-5 w-5" />
+                    Import notes from JSON
+                    <input
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={(e) => {
+                            handleImportFile(e.target.files?.[0]);
+                            e.target.value = '';
+                        }}
+                        className="sr-only"
+                    />
+                </label>
+                {importStatus && <p className="text-sm text-green-400">{importStatus}</p>}
+                <p className="text-xs text-gray-500">Use a file created with Export › JSON. Notes that are already saved are skipped.</p>
+            </section>
+
+            <section className="space-y-2 mb-8">
+                <h3 className="text-lg font-semibold text-blue-300">Onboarding</h3>
+                <button onClick={handleResetOnboarding} className="px-4 py-2 bg-red-700/70 hover:bg-red-700 rounded-md font-semibold transition-colors">
+                    Reset Onboarding
+                </button>
+            </section>
+
+            <div className="flex flex-col sm:flex-row justify-end gap-3">
+                <button onClick={onCancel} className="px-5 py-3 bg-gray-600 hover:bg-gray-700 rounded-lg font-semibold transition-colors duration-200">
+                    Cancel
+                </button>
+                <button onClick={handleSubmit} className="px-5 py-3 bg-green-600 hover:bg-green-700 rounded-lg font-semibold transition-colors duration-200">
+                    Save Settings
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Note, Task } from '../types';
+import { isOverdue, formatDueDate } from '../utils/taskUtils';
+import { TrashIcon } from './icons';
+
+/**
+ * Props for the TaskItem component.
+ */
+interface TaskItemProps {
+    /** The task to display. */
+    task: Task;
+    /** The note the task was extracted from, if it still exists. */
+    note?: Note;
+    /** Callback function to check the task off or reopen it. */
+    onToggle: (id: string) => void;
+    /** Callback function to delete the task. */
+    onDelete: (id: string) => void;
+}
+
+/**
+ * A single task in the task list, with its due date and person. The note the
+ * task was extracted from can be expanded below it.
+ *
+ * @param {TaskItemProps} props The props for the component.
+ * @returns {React.FC} The rendered task.
+ */
+export const TaskItem: React.FC<TaskItemProps> = ({ task, note, onToggle, onDelete }) => {
+    const [isNoteOpen, setIsNoteOpen] = useState(false);
+    const overdue = isOverdue(task);
+
+    return (
+        <li className="bg-gray-800 rounded-lg p-3 transition-all hover:bg-gray-700/50">
+            <div className="flex items-start gap-3">
+                <input
+                    type="checkbox"
+                    checked={task.completed}
+                    onChange={() => onToggle(task.id)}
+                    className="mt-1 h-5 w-5 accent-green-500 flex-shrink-0 cursor-pointer"
+                    aria-label={task.completed ? 'Mark as not done' : 'Mark as done'}
+                />
+                <div className="flex-grow min-w-0">
+                    <p className={task.completed ? 'text-gray-500 line-through' : 'text-gray-100'}>{task.title}</p>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+                        {task.dueDate && (
+                            <span className={`px-2 py-0.5 rounded-full ${overdue ? 'bg-red-900/50 text-red-300' : 'bg-gray-700 text-gray-300'}`}>
+                                {overdue ? 'Overdue · ' : 'Due '}{formatDueDate(task.dueDate)}
+                            </span>
+                        )}
+                        {task.person && <span className="px-2 py-0.5 rounded-full bg-indigo-900/50 text-indigo-200">{task.person}</span>}
+                        {note && (
+                            <button onClick={() => setIsNoteOpen(open => !open)} className="text-gray-500 hover:text-gray-300 truncate" aria-expanded={isNoteOpen}>
+                                From: {note.title || note.category}
+                            </button>
+                        )}
+                    </div>
+                    {isNoteOpen && note && (
+                        <div className="mt-2 bg-gray-900/50 rounded-md p-3">
+                            <p className="text-xs text-gray-500 mb-1">{note.timestamp.toLocaleString()}</p>
+                            <p className="text-sm text-gray-300 whitespace-pre-wrap">{note.text}</p>
+                        </div>
+                    )}
+                </div>
+                <button onClick={() => onDelete(task.id)} className="text-gray-500 hover:text-red-400 p-1 rounded-full transition-colors flex-shrink-0" aria-label="Delete task" title="Delete">
+                    <TrashIcon />
+                </button>
+            </div>
+        </li>
+    );
+};
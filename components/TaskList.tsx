@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Note, Task } from '../types';
+import { sortTasks } from '../utils/taskUtils';
+import { TaskItem } from './TaskItem';
+import { CheckCircleIcon } from './icons';
+
+/**
+ * Props for the TaskList component.
+ */
+interface TaskListProps {
+    /** All tasks. */
+    tasks: Task[];
+    /** The saved notes, used to show where each task came from. */
+    notes: Note[];
+    /** Callback function to check a task off or reopen it. */
+    onToggle: (id: string) => void;
+    /** Callback function to delete a task. */
+    onDelete: (id: string) => void;
+}
+
+/**
+ * The task list: action items extracted from dictated notes. Open tasks are
+ * shown by due date; completed tasks can be shown on request.
+ *
+ * @param {TaskListProps} props The props for the component.
+ * @returns {React.FC} The rendered task list.
+ */
+export const TaskList: React.FC<TaskListProps> = ({ tasks, notes, onToggle, onDelete }) => {
+    const [showCompleted, setShowCompleted] = useState(false);
+    const notesById = new Map(notes.map(note => [note.id, note] as [string, Note]));
+    const openTasks = sortTasks(tasks.filter(task => !task.completed));
+    const completedTasks = tasks
+        .filter(task => task.completed)
+        .sort((a, b) => (b.completedAt?.getTime() ?? 0) - (a.completedAt?.getTime() ?? 0));
+
+    const renderTask = (task: Task) => (
+        <TaskItem key={task.id} task={task} note={notesById.get(task.noteId)} onToggle={onToggle} onDelete={onDelete} />
+    );
+
+    return (
+        <div className="w-full max-w-4xl mx-auto mt-8">
+            <h2 className="text-xl font-semibold text-gray-300 mb-4 px-2">Tasks</h2>
+            {openTasks.length === 0 ? (
+                <div className="flex flex-col items-center gap-2 text-gray-500 py-8">
+                    <CheckCircleIcon className="h-8 w-8" />
+                    <p>{tasks.length === 0 ? 'Action items from your dictated to-dos will appear here.' : 'All done!'}</p>
+                </div>
+            ) : (
+                <ul className="space-y-3">{openTasks.map(renderTask)}</ul>
+            )}
+            {completedTasks.length > 0 && (
+                <div className="mt-6">
+                    <button onClick={() => setShowCompleted(show => !show)} className="text-sm text-gray-400 hover:text-white px-2 mb-3" aria-expanded={showCompleted}>
+                        {showCompleted ? 'Hide' : 'Show'} completed ({completedTasks.length})
+                    </button>
+                    {showCompleted && <ul className="space-y-3">{completedTasks.map(renderTask)}</ul>}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { LoadingSpinner, LogoIcon } from './icons';
+
+/**
+ * Props for the UnlockScreen component.
+ */
+interface UnlockScreenProps {
+    /** Callback function called with the entered passphrase. Resolves false if the passphrase is wrong. */
+    onUnlock: (passphrase: string) => Promise<boolean>;
+}
+
+/**
+ * A screen that asks for the vault passphrase before any notes are shown.
+ *
+ * @param {UnlockScreenProps} props The props for the component.
+ * @returns {React.FC} The rendered unlock form.
+ */
+export const UnlockScreen: React.FC<UnlockScreenProps> = ({ onUnlock }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [isUnlocking, setIsUnlocking] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!passphrase || isUnlocking) return;
+        setIsUnlocking(true);
+        setError('');
+        try {
+            if (!await onUnlock(passphrase)) {
+                setError('That passphrase is wrong.');
+                setPassphrase('');
+            }
+        } catch (e) {
+            console.error("Failed to unlock the vault", e);
+            setError('The vault could not be unlocked.');
+        } finally {
+            setIsUnlocking(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center justify-center p-4 font-sans animate-fade-in">
+            <form onSubmit={handleSubmit} className="w-full max-w-md bg-gray-800 p-8 rounded-xl shadow-2xl border border-gray-700">
+                <div className="flex flex-col items-center mb-6">
+                    <LogoIcon className="h-12 w-12 text-blue-400 mb-3" />
+                    <h1 className="text-3xl font-bold">QuickNotes AI is locked</h1>
+                    <p className="text-gray-400 mt-2 text-center">Enter your passphrase to read your notes.</p>
+                </div>
+
+                {error && <p className="text-red-400 bg-red-900/30 p-3 rounded-md mb-4 text-center">{error}</p>}
+
+                <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="Passphrase"
+                    aria-label="Passphrase"
+                    autoComplete="current-password"
+                    autoFocus
+                    className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+                <button
+                    type="submit"
+                    disabled={!passphrase || isUnlocking}
+                    className="w-full mt-6 flex items-center justify-center gap-2 px-5 py-3 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg font-semibold transition-colors duration-200"
+                >
+                    {isUnlocking && <LoadingSpinner className="h-5 w-5" />}
+                    Unlock
+                </button>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { VaultStatus } from '../types';
+import { changeVaultPassphrase, disableVault, enableVault, getVaultStatus, saveVaultAutoLock } from '../services/storageService';
+
+/**
+ * Props for the VaultSettings component.
+ */
+interface VaultSettingsProps {
+    /** Whether the vault is on, and its auto-lock timeout. */
+    status: VaultStatus;
+    /** Callback function called with the vault's status after it changed. */
+    onChange: (status: VaultStatus) => void;
+}
+
+/** The shortest passphrase accepted. */
+const MIN_PASSPHRASE_LENGTH = 8;
+/** The auto-lock timeouts offered, in minutes. */
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60, 0];
+
+const fieldClass = "w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none";
+const buttonClass = "px-4 py-2 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 rounded-md font-semibold transition-colors";
+
+/**
+ * Turns the vault on or off, changes its passphrase and sets how soon it locks.
+ * Unlike the rest of the settings, changes take effect right away, because they
+ * re-encrypt the stored notes.
+ *
+ * @param {VaultSettingsProps} props The props for the component.
+ * @returns {React.FC} The rendered vault settings.
+ */
+export const VaultSettings: React.FC<VaultSettingsProps> = ({ status, onChange }) => {
+    const [current, setCurrent] = useState('');
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    /**
+     * Checks the new passphrase and its confirmation.
+     * @returns {string | null} What is wrong with them, or null if they can be used.
+     */
+    const validateNewPassphrase = (): string | null => {
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+        if (passphrase !== confirmation) return "The passphrases don't match.";
+        return null;
+    };
+
+    /**
+     * Runs a vault change, reporting the outcome and the vault's new status.
+     * @param {() => Promise<boolean>} change - The change. Resolves false if the current passphrase is wrong.
+     * @param {string} success - The message shown when the change succeeds.
+     */
+    const runChange = async (change: () => Promise<boolean>, success: string) => {
+        setIsBusy(true);
+        setMessage(null);
+        try {
+            if (await change()) {
+                setCurrent('');
+                setPassphrase('');
+                setConfirmation('');
+                setMessage({ text: success, isError: false });
+                onChange(await getVaultStatus());
+            } else {
+                setMessage({ text: 'The current passphrase is wrong.', isError: true });
+            }
+        } catch (e) {
+            console.error("Failed to change the vault", e);
+            setMessage({ text: 'Your notes could not be re-encrypted. Nothing was changed.', isError: true });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleEnable = () => {
+        const error = validateNewPassphrase();
+        if (error) {
+            setMessage({ text: error, isError: true });
+            return;
+        }
+        runChange(async () => {
+            await enableVault(passphrase);
+            return true;
+        }, 'Your notes and settings are now encrypted.');
+    };
+
+    const handleChangePassphrase = () => {
+        const error = validateNewPassphrase();
+        if (error) {
+            setMessage({ text: error, isError: true });
+            return;
+        }
+        runChange(() => changeVaultPassphrase(current, passphrase), 'The passphrase was changed.');
+    };
+
+    const handleDisable = () => {
+        if (!window.confirm('Store your notes and settings unencrypted again?')) return;
+        runChange(() => disableVault(current), 'Your notes and settings are no longer encrypted.');
+    };
+
+    const handleAutoLockChange = async (minutes: number) => {
+        try {
+            await saveVaultAutoLock(minutes);
+            onChange({ ...status, autoLockMinutes: minutes });
+        } catch (e) {
+            console.error("Failed to save the auto-lock timeout", e);
+        }
+    };
+
+    const newPassphraseFields = (
+        <>
+            <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder={status.enabled ? 'New passphrase' : 'Passphrase'}
+                aria-label={status.enabled ? 'New passphrase' : 'Passphrase'}
+                autoComplete="new-password"
+                className={fieldClass}
+            />
+            <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="Repeat the passphrase"
+                aria-label="Repeat the passphrase"
+                autoComplete="new-password"
+                className={fieldClass}
+            />
+        </>
+    );
+
+    return (
+        <div className="space-y-3">
+            {status.enabled ? (
+                <>
+                    <label className="flex items-center gap-3 text-gray-300">
+                        Lock after
+                        <select
+                            value={status.autoLockMinutes}
+                            onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+                            className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                        >
+                            {AUTO_LOCK_OPTIONS.map(minutes => (
+                                <option key={minutes} value={minutes}>
+                                    {minutes === 0 ? 'never' : `${minutes} minute${minutes === 1 ? '' : 's'}`}
+                                </option>
+                            ))}
+                        </select>
+                        without activity
+                    </label>
+                    <input
+                        type="password"
+                        value={current}
+                        onChange={(e) => setCurrent(e.target.value)}
+                        placeholder="Current passphrase"
+                        aria-label="Current passphrase"
+                        autoComplete="current-password"
+                        className={fieldClass}
+                    />
+                    {newPassphraseFields}
+                    <div className="flex flex-wrap gap-3">
+                        <button onClick={handleChangePassphrase} disabled={isBusy || !current} className={buttonClass}>
+                            Change passphrase
+                        </button>
+                        <button onClick={handleDisable} disabled={isBusy || !current} className="px-4 py-2 bg-red-700/70 hover:bg-red-700 disabled:opacity-50 rounded-md font-semibold transition-colors">
+                            Turn off encryption
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <>
+                    {newPassphraseFields}
+                    <button onClick={handleEnable} disabled={isBusy} className={buttonClass}>
+                        Encrypt my notes
+                    </button>
+                </>
+            )}
+            {isBusy && <p className="text-sm text-gray-400">Re-encrypting your notes…</p>}
+            {message && <p className={`text-sm ${message.isError ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>}
+        </div>
+    );
+};
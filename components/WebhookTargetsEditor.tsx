@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { WebhookHeader, WebhookTarget } from '../types';
+import { createWebhookTarget, sendTestWebhook } from '../services/webhookService';
+import { isValidWebhookUrl } from '../utils/validation';
+import { PlusIcon, TrashIcon, XMarkIcon } from './icons';
+
+/**
+ * Props for the WebhookTargetsEditor component.
+ */
+interface WebhookTargetsEditorProps {
+    /** The targets being edited. */
+    webhooks: WebhookTarget[];
+    /** Callback function called with the edited targets. */
+    onChange: (webhooks: WebhookTarget[]) => void;
+}
+
+const fieldClass = "bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+const iconButtonClass = "p-2 rounded-md text-gray-400 hover:text-red-400 hover:bg-gray-600 transition-colors";
+
+/**
+ * An editable list of webhook targets. Each target has a name, a URL, optional
+ * headers and signing secret, and can receive every note or only those rules send.
+ * A sample note can be sent to check the target is set up correctly.
+ *
+ * @param {WebhookTargetsEditorProps} props The props for the component.
+ * @returns {React.FC} The rendered target list.
+ */
+export const WebhookTargetsEditor: React.FC<WebhookTargetsEditorProps> = ({ webhooks, onChange }) => {
+    // The outcome of the last test per target, e.g. "Sent" or "HTTP 404 Not Found".
+    const [testResults, setTestResults] = useState<Record<string, string>>({});
+
+    const updateTarget = (id: string, changes: Partial<WebhookTarget>) => {
+        onChange(webhooks.map(w => w.id === id ? { ...w, ...changes } : w));
+    };
+
+    const updateHeader = (target: WebhookTarget, index: number, changes: Partial<WebhookHeader>) => {
+        updateTarget(target.id, { headers: target.headers.map((h, i) => i === index ? { ...h, ...changes } : h) });
+    };
+
+    const handleTest = async (target: WebhookTarget) => {
+        setTestResults(prev => ({ ...prev, [target.id]: 'Sending…' }));
+        const result = await sendTestWebhook({ ...target, url: target.url.trim() });
+        setTestResults(prev => ({ ...prev, [target.id]: result.ok ? 'Sent' : `Failed: ${result.error ?? 'unknown error'}` }));
+    };
+
+    return (
+        <div className="space-y-3">
+            {webhooks.map(target => (
+                <div key={target.id} className="space-y-2 bg-gray-700/30 rounded-md p-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            type="text"
+                            value={target.name}
+                            onChange={(e) => updateTarget(target.id, { name: e.target.value })}
+                            placeholder="Name, e.g. Home server"
+                            className={`${fieldClass} w-40`}
+                            aria-label="Webhook name"
+                        />
+                        <input
+                            type="url"
+                            value={target.url}
+                            onChange={(e) => updateTarget(target.id, { url: e.target.value })}
+                            placeholder="https://example.com/hooks/notes"
+                            className={`${fieldClass} flex-grow`}
+                            aria-label="Webhook URL"
+                        />
+                        <button onClick={() => onChange(webhooks.filter(w => w.id !== target.id))} className={iconButtonClass} aria-label="Delete webhook">
+                            <TrashIcon />
+                        </button>
+                    </div>
+                    <input
+                        type="password"
+                        value={target.secret ?? ''}
+                        onChange={(e) => updateTarget(target.id, { secret: e.target.value || undefined })}
+                        placeholder="Signing secret (optional)"
+                        className={`${fieldClass} w-full`}
+                        aria-label="Signing secret"
+                        autoComplete="off"
+                    />
+                    {target.headers.map((header, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={header.name}
+                                onChange={(e) => updateHeader(target, index, { name: e.target.value })}
+                                placeholder="Header"
+                                className={`${fieldClass} w-40`}
+                                aria-label="Header name"
+                            />
+                            <input
+                                type="text"
+                                value={header.value}
+                                onChange={(e) => updateHeader(target, index, { value: e.target.value })}
+                                placeholder="Value"
+                                className={`${fieldClass} flex-grow`}
+                                aria-label="Header value"
+                            />
+                            <button
+                                onClick={() => updateTarget(target.id, { headers: target.headers.filter((_, i) => i !== index) })}
+                                className={iconButtonClass}
+                                aria-label="Remove header"
+                            >
+                                <XMarkIcon className="h-4 w-4" />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                        <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={target.sendAllNotes}
+                                onChange={(e) => updateTarget(target.id, { sendAllNotes: e.target.checked })}
+                                className="h-4 w-4 accent-blue-500"
+                            />
+                            Send every note
+                        </label>
+                        <button
+                            onClick={() => updateTarget(target.id, { headers: [...target.headers, { name: '', value: '' }] })}
+                            className="text-gray-400 hover:text-white"
+                        >
+                            Add header
+                        </button>
+                        <button
+                            onClick={() => handleTest(target)}
+                            disabled={!isValidWebhookUrl(target.url)}
+                            className="text-blue-400 hover:text-blue-300 disabled:opacity-30 disabled:cursor-not-allowed"
+                        >
+                            Send test
+                        </button>
+                        {testResults[target.id] && <span className="text-gray-400">{testResults[target.id]}</span>}
+                    </div>
+                </div>
+            ))}
+            <button
+                onClick={() => onChange([...webhooks, createWebhookTarget()])}
+                className="flex items-center gap-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md font-semibold transition-colors"
+            >
+                <PlusIcon className="h-5 w-5" />
+                Add Webhook
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,118 @@
+/**
+ * @file A local stand-in for the Gemini API, for running the QuickNotes server
+ * without an API key or a connection. It answers categorization and task
+ * extraction with canned JSON, transcription of imported recordings with a
+ * sentence giving the recording's length, and live sessions with a scripted transcript.
+ *
+ * Usage: npm run gemini-stub, then run the server with GEMINI_BASE_URL=http://localhost:8788 GEMINI_API_KEY=stub
+ *   PORT=8788     The port to listen on.
+ *   FAIL_FIRST=3  Answer the first 3 requests with 503, to watch the app queue notes.
+ */
+import { createServer } from 'node:http';
+import { WebSocketServer } from 'ws';
+
+const port = Number(process.env.PORT ?? 8788);
+let failuresLeft = Number(process.env.FAIL_FIRST ?? 0);
+
+/** The transcript sent back during live sessions, a few words at a time. */
+const SCRIPT = 'Buy milk and eggs on the way home. Remind me to call the dentist by Friday.'.split(' ');
+/** How many audio chunks (a tenth of a second each) to receive per transcribed word. */
+const CHUNKS_PER_WORD = 4;
+
+/**
+ * Builds a generateContent response holding some text.
+ * @param {string} text - The model's answer.
+ * @returns {object} The response body.
+ */
+const modelResponse = (text) => ({
+    candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }],
+});
+
+/**
+ * Answers a generateContent request. Categorization picks the first allowed
+ * category named in the note; task extraction turns each sentence into a task;
+ * a transcription gives the length of the WAV recording it was sent.
+ * @param {any} request - The request body.
+ * @returns {string} The model's answer.
+ */
+function answer(request) {
+    const audio = request.contents?.[0]?.parts?.find(part => part.inlineData)?.inlineData;
+    if (audio) {
+        // 16-bit mono WAV: 44 header bytes, then two bytes per sample.
+        const wav = Buffer.from(audio.data, 'base64');
+        const seconds = (wav.length - 44) / 2 / wav.readUInt32LE(24);
+        return `Voice memo chunk of ${seconds.toFixed(1)} seconds. Buy coffee for the office.`;
+    }
+    const prompt = request.contents?.[0]?.parts?.[0]?.text ?? '';
+    const note = (prompt.match(/<note>([\s\S]*)<\/note>/)?.[1] ?? prompt).trim();
+    const schema = request.generationConfig?.responseSchema ?? {};
+
+    if (schema.properties?.tasks) {
+        const tasks = note.split(/(?<=[.!?])\s+/).filter(Boolean).map(sentence => {
+            const due = sentence.match(/\bby \w+/i)?.[0];
+            return { title: sentence.replace(/[.!?]$/, ''), ...(due ? { due } : {}) };
+        });
+        return JSON.stringify({ tasks });
+    }
+
+    const allowed = schema.properties?.category?.enum ?? ['Notes'];
+    const category = allowed.find(name => note.toLowerCase().includes(name.toLowerCase()));
+    return JSON.stringify({
+        category: category ?? 'Notes',
+        confidence: category ? 0.9 : 0.3,
+        tags: ['stub'],
+        title: note.split(/\s+/).slice(0, 5).join(' '),
+    });
+}
+
+const server = createServer((request, response) => {
+    if (request.method !== 'POST' || !request.url?.includes(':generateContent')) {
+        response.writeHead(404).end();
+        return;
+    }
+    const chunks = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+        if (failuresLeft > 0) {
+            failuresLeft--;
+            console.log(`generateContent: failing on purpose (${failuresLeft} more to go)`);
+            response.writeHead(503, { 'Content-Type': 'application/json' })
+                .end(JSON.stringify({ error: { code: 503, message: 'The model is overloaded', status: 'UNAVAILABLE' } }));
+            return;
+        }
+        try {
+            const text = answer(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+            console.log(`generateContent: ${text}`);
+            response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(modelResponse(text)));
+        } catch {
+            response.writeHead(400).end('Body is not JSON');
+        }
+    });
+});
+
+const liveServer = new WebSocketServer({ server });
+
+liveServer.on('connection', (socket) => {
+    console.log('live: session opened');
+    let chunksReceived = 0;
+    let wordsSent = 0;
+
+    socket.on('message', (data) => {
+        const message = JSON.parse(data.toString('utf8'));
+        if (message.setup) {
+            socket.send(JSON.stringify({ setupComplete: {} }));
+            return;
+        }
+        if (!message.realtimeInput) return;
+        chunksReceived++;
+        if (chunksReceived % CHUNKS_PER_WORD === 0 && wordsSent < SCRIPT.length) {
+            const text = (wordsSent === 0 ? '' : ' ') + SCRIPT[wordsSent++];
+            socket.send(JSON.stringify({ serverContent: { inputTranscription: { text } } }));
+        }
+    });
+    socket.on('close', () => console.log(`live: session closed after ${chunksReceived} audio chunks`));
+});
+
+server.listen(port, () => {
+    console.log(`Gemini stub listening on http://localhost:${port}`);
+});
@@ -0,0 +1,76 @@
+/**
+ * @file A local webhook receiver for trying out webhook targets. It logs every
+ * note it receives and, when WEBHOOK_SECRET is set, checks the signature.
+ *
+ * Usage: npm run webhook-stub
+ *   PORT=8787           The port to listen on.
+ *   WEBHOOK_SECRET=...  The signing secret configured for the target.
+ *   FAIL_FIRST=3        Answer the first 3 requests with 503, to watch the app retry.
+ */
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT ?? 8787);
+const secret = process.env.WEBHOOK_SECRET ?? '';
+let failuresLeft = Number(process.env.FAIL_FIRST ?? 0);
+
+/**
+ * Checks a request's signature against the shared secret.
+ * @param {string} body - The raw request body.
+ * @param {string | undefined} timestamp - The X-QuickNotes-Timestamp header.
+ * @param {string | undefined} signature - The X-QuickNotes-Signature header.
+ * @returns {boolean} True if the signature matches.
+ */
+function isSignatureValid(body, timestamp, signature) {
+    if (!timestamp || !signature) return false;
+    const expected = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+    return expected.length === signature.length && timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+}
+
+const server = createServer((request, response) => {
+    // The app calls webhooks from the browser, so the receiver must allow cross-origin requests.
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Headers', '*');
+    response.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    if (request.method === 'OPTIONS') {
+        response.writeHead(204).end();
+        return;
+    }
+    if (request.method !== 'POST') {
+        response.writeHead(405).end();
+        return;
+    }
+
+    const chunks = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+        const body = Buffer.concat(chunks).toString('utf8');
+        const delivery = request.headers['x-quicknotes-delivery'];
+
+        if (secret && !isSignatureValid(body, request.headers['x-quicknotes-timestamp'], request.headers['x-quicknotes-signature'])) {
+            console.log(`[${delivery}] rejected: bad signature`);
+            response.writeHead(401).end('Bad signature');
+            return;
+        }
+        if (failuresLeft > 0) {
+            failuresLeft--;
+            console.log(`[${delivery}] failing on purpose (${failuresLeft} more to go)`);
+            response.writeHead(503).end('Try again later');
+            return;
+        }
+
+        try {
+            const payload = JSON.parse(body);
+            console.log(`[${delivery}] ${payload.event} attempt ${payload.attempt}${secret ? ', signature ok' : ''}`);
+            console.log(JSON.stringify(payload.note, null, 2));
+            response.writeHead(200, { 'Content-Type': 'application/json' }).end('{"ok":true}');
+        } catch {
+            console.log(`[${delivery}] rejected: body is not JSON`);
+            response.writeHead(400).end('Body is not JSON');
+        }
+    });
+});
+
+server.listen(port, () => {
+    console.log(`Webhook stub listening on http://localhost:${port}${secret ? ' (checking signatures)' : ''}`);
+});
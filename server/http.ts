@@ -0,0 +1,54 @@
+/**
+ * @file This file contains helpers for the server's JSON endpoints.
+ */
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+/**
+ * An error with the HTTP status to answer with.
+ */
+export class HttpError extends Error {
+    /**
+     * @param {number} status - The HTTP status code.
+     * @param {string} message - The message sent to the client.
+     */
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Sends a JSON response.
+ * @param {ServerResponse} response - The response.
+ * @param {number} status - The HTTP status code.
+ * @param {unknown} body - The body.
+ * @param {Record<string, string>} [headers] - Extra headers.
+ */
+export function sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    response.end(JSON.stringify(body));
+}
+
+/**
+ * Reads and parses a JSON request body.
+ * @param {IncomingMessage} request - The request.
+ * @param {number} maxBytes - The largest body accepted, in bytes.
+ * @returns {Promise<unknown>} The parsed body, still to be validated.
+ * @throws {HttpError} If the body is too large or isn't JSON.
+ */
+export async function readJson(request: IncomingMessage, maxBytes: number): Promise<unknown> {
+    if (!request.headers['content-type']?.startsWith('application/json')) {
+        throw new HttpError(415, 'Expected a JSON body');
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+        size += chunk.length;
+        if (size > maxBytes) throw new HttpError(413, 'The request is too large');
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new HttpError(400, 'The request body is not valid JSON');
+    }
+}
@@ -0,0 +1,159 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { AddressInfo, createServer } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+
+let stub: ChildProcess;
+let baseUrl: string;
+
+/**
+ * Finds a port nothing is listening on.
+ * @returns {Promise<number>} The port.
+ */
+async function freePort(): Promise<number> {
+    const probe = createServer().listen(0);
+    await once(probe, 'listening');
+    const { port } = probe.address() as AddressInfo;
+    probe.close();
+    return port;
+}
+
+/**
+ * Calls one of the server's JSON endpoints.
+ * @param {string} pathname - The endpoint.
+ * @param {unknown} body - The request body.
+ * @param {Record<string, string>} [headers] - Extra headers.
+ * @returns {Promise<Response>} The response.
+ */
+function post(pathname: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(baseUrl + pathname, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+    });
+}
+
+/**
+ * Builds a silent 16 kHz, 16-bit mono WAV recording.
+ * @param {number} seconds - How long the recording is.
+ * @returns {string} The recording, Base64-encoded.
+ */
+function silentWav(seconds: number): string {
+    const wav = Buffer.alloc(44 + seconds * 16000 * 2);
+    wav.writeUInt32LE(16000, 24);
+    return wav.toString('base64');
+}
+
+describe('server', () => {
+    beforeAll(async () => {
+        const stubPort = await freePort();
+        stub = spawn(process.execPath, ['scripts/gemini-stub.mjs'], { env: { ...process.env, PORT: String(stubPort) } });
+        const [output] = await once(stub.stdout!, 'data');
+        expect(String(output)).toContain('listening');
+        stub.stdout!.resume();
+
+        const port = await freePort();
+        vi.stubEnv('PORT', String(port));
+        vi.stubEnv('GEMINI_API_KEY', 'stub');
+        vi.stubEnv('GEMINI_BASE_URL', `http://localhost:${stubPort}`);
+        vi.stubEnv('SYNC_TOKEN', '');
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        await import('./index');
+        baseUrl = `http://localhost:${port}`;
+        // The server starts listening once the module has run; wait for it.
+        for (let attempt = 0; ; attempt++) {
+            try {
+                await fetch(baseUrl + '/api/unknown');
+                break;
+            } catch (e) {
+                if (attempt > 50) throw e;
+                await new Promise(resolve => setTimeout(resolve, 100));
+            }
+        }
+    });
+
+    afterAll(() => {
+        stub?.kill();
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    it('categorizes a note', async () => {
+        const response = await post('/api/categorize', {
+            text: 'Pick up groceries for dinner',
+            categories: [{ name: 'Work' }, { name: 'Groceries', description: 'Food shopping' }],
+        });
+        expect(response.status).toBe(200);
+        const { text } = await response.json();
+        expect(JSON.parse(text)).toMatchObject({ category: 'Groceries' });
+    });
+
+    it('extracts tasks from a note', async () => {
+        const response = await post('/api/tasks', { text: 'Call the bank. Renew the passport by Friday.' });
+        expect(response.status).toBe(200);
+        const { text } = await response.json();
+        expect(JSON.parse(text).tasks).toEqual([
+            { title: 'Call the bank' },
+            { title: 'Renew the passport by Friday', due: 'by Friday' },
+        ]);
+    });
+
+    it('transcribes a recording', async () => {
+        const response = await post('/api/transcribe', { audio: silentWav(2) });
+        expect(response.status).toBe(200);
+        expect((await response.json()).text).toContain('2.0 seconds');
+    });
+
+    it('rejects malformed requests', async () => {
+        expect((await post('/api/tasks', { text: 42 })).status).toBe(400);
+        expect((await post('/api/categorize', { text: 'Hello', categories: [{ name: 1 }] })).status).toBe(400);
+        expect((await post('/api/transcribe', { audio: 'not base64!' })).status).toBe(400);
+    });
+
+    it('relays a live transcription session', async () => {
+        const socket = new WebSocket(baseUrl.replace('http', 'ws') + '/api/live');
+        const transcript = new Promise<string>((resolve, reject) => {
+            socket.on('message', data => {
+                const message = JSON.parse(String(data));
+                if (message.type === 'open') {
+                    for (let chunk = 0; chunk < 4; chunk++) {
+                        socket.send(JSON.stringify({ type: 'audio', audio: { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' } }));
+                    }
+                } else if (message.type === 'message' && message.message.serverContent?.inputTranscription) {
+                    resolve(message.message.serverContent.inputTranscription.text);
+                } else if (message.type === 'error') {
+                    reject(new Error(message.error));
+                }
+            });
+            socket.on('error', reject);
+        });
+        expect(await transcript).toBe('Buy');
+
+        socket.send('not json');
+        const [code] = await once(socket, 'close');
+        expect(code).toBe(1008);
+    });
+
+    it('turns away requests from other websites', async () => {
+        const response = await post('/api/tasks', { text: 'Call the bank.' }, { Origin: 'https://example.com' });
+        expect(response.status).toBe(403);
+
+        const socket = new WebSocket(baseUrl.replace('http', 'ws') + '/api/live', { headers: { Origin: 'https://example.com' } });
+        const [error] = await once(socket, 'error');
+        expect(error.message).toBe('Unexpected server response: 403');
+    });
+
+    it('rate limits each client', async () => {
+        const statuses: number[] = [];
+        for (let request = 0; request < 31; request++) {
+            statuses.push((await post('/api/tasks', {})).status);
+        }
+        expect(statuses).toContain(400);
+        expect(statuses.at(-1)).toBe(429);
+        const limited = await post('/api/tasks', {});
+        expect(limited.status).toBe(429);
+        expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,417 @@
+/**
+ * @file The QuickNotes server. It holds the Gemini API key so the browser never
+ * sees it: the app calls the endpoints below and the server calls Gemini.
+ *
+ *   POST /api/categorize  { text, categories }  → { text }  The model's JSON answer.
+ *   POST /api/tasks       { text }              → { text }  The model's JSON answer.
+ *   POST /api/transcribe  { audio }             → { text }  The transcript of a Base64-encoded WAV recording.
+ *   GET  /api/live        WebSocket relay for live transcription (see liveRelay.ts).
+ *   GET  /api/sync/changes?since=<cursor>       → { records, cursor }  Sync: records changed since the cursor.
+ *   POST /api/sync/changes { since, records }   → { cursor }, or 409 if other devices pushed since the cursor.
+ *
+ * Every other path serves the built app from dist/. Requests are rate limited
+ * per client. The sync API needs the access token as a bearer token, and may be
+ * called from other origins, so one server can sync several installs of the app.
+ *
+ * Usage: npm run server
+ *   GEMINI_API_KEY=...  The Gemini API key. Also read from .env.local.
+ *   GEMINI_BASE_URL=... Where to reach Gemini instead of Google, e.g. http://localhost:8788 for `npm run gemini-stub`.
+ *   PORT=8080           The port to listen on.
+ *   TRUST_PROXY=1       Identify clients by X-Forwarded-For, when running behind a reverse proxy.
+ *   SYNC_TOKEN=...      The access token devices sync with. Sync is off without it.
+ *   SYNC_DATA_FILE=...  Where synced notes and settings are kept (default sync-data.json).
+ */
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { createReadStream, existsSync, statSync } from 'node:fs';
+import { IncomingMessage, ServerResponse, createServer } from 'node:http';
+import path from 'node:path';
+import { Duplex } from 'node:stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { SyncRecord } from '../types';
+import { isRecord } from '../utils/validation';
+import { CategoryHint, categorize, createGeminiClient, extractTasks, transcribe } from './gemini';
+import { HttpError, readJson, sendJson } from './http';
+import { relayLiveSession } from './liveRelay';
+import { createRateLimiter } from './rateLimiter';
+import { isValidSyncRecord, openSyncStore } from './syncStore';
+
+if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local');
+}
+
+const port = Number(process.env.PORT ?? 8080);
+const apiKey = process.env.GEMINI_API_KEY ?? '';
+const trustProxy = process.env.TRUST_PROXY === '1';
+const ai = apiKey ? createGeminiClient(apiKey, process.env.GEMINI_BASE_URL) : null;
+const distDir = path.resolve('dist');
+const syncToken = process.env.SYNC_TOKEN ?? '';
+const syncStore = syncToken ? openSyncStore(process.env.SYNC_DATA_FILE ?? 'sync-data.json') : null;
+
+/** The largest request body accepted, in bytes. */
+const MAX_BODY_BYTES = 256 * 1024;
+/** The largest transcription request accepted, in bytes: two minutes of 16 kHz audio, Base64-encoded, with room to spare. */
+const MAX_AUDIO_BODY_BYTES = 8 * 1024 * 1024;
+/** The longest note accepted, in characters. */
+const MAX_NOTE_LENGTH = 50000;
+/** The most categories accepted in one request. */
+const MAX_CATEGORIES = 100;
+/** The largest WebSocket message accepted, in bytes. Audio chunks are a few kilobytes. */
+const MAX_LIVE_MESSAGE_BYTES = 64 * 1024;
+/** The most live sessions a client can have open at once. */
+const MAX_LIVE_SESSIONS_PER_CLIENT = 2;
+/** The largest sync push accepted, in bytes. A device's first push holds all of its notes. */
+const MAX_SYNC_BODY_BYTES = 20 * 1024 * 1024;
+
+/** Limits categorization and task extraction requests. */
+const apiLimiter = createRateLimiter({ capacity: 30, refillPerMinute: 30 });
+/** Limits transcription requests. An hour-long recording is sent as 30 chunks. */
+const transcriptionLimiter = createRateLimiter({ capacity: 40, refillPerMinute: 20 });
+/** Limits how often a client can open a live session. */
+const liveSessionLimiter = createRateLimiter({ capacity: 10, refillPerMinute: 10 });
+/** Limits how fast a live session can send audio: about ten chunks a second, with room for catching up after a reconnect. */
+const liveMessageLimiter = createRateLimiter({ capacity: 200, refillPerMinute: 1200 });
+/** Limits sync requests. A device syncs every minute and shortly after each change. */
+const syncLimiter = createRateLimiter({ capacity: 30, refillPerMinute: 20 });
+/** The number of open live sessions, by client. */
+const liveSessions = new Map<string, number>();
+let nextConnectionId = 0;
+
+/** Content types for the files in dist/. */
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+};
+
+/**
+ * Identifies the client making a request, for rate limiting.
+ * @param {IncomingMessage} request - The request.
+ * @returns {string} The client's IP address.
+ */
+function clientId(request: IncomingMessage): string {
+    const forwarded = request.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string') {
+        return forwarded.split(',')[0].trim();
+    }
+    return request.socket.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Checks that a request comes from a page served by this server (or the dev
+ * server in front of it), so other websites can't use the API key from their
+ * visitors' browsers.
+ * @param {IncomingMessage} request - The request.
+ * @returns {boolean} True if the request has no Origin header or it matches the Host header.
+ */
+function isSameOrigin(request: IncomingMessage): boolean {
+    const origin = request.headers.origin;
+    if (!origin) return true;
+    try {
+        return new URL(origin).host === request.headers.host;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Reads the note text from a request body.
+ * @param {unknown} body - The parsed body.
+ * @returns {string} The note text.
+ * @throws {HttpError} If the text is missing or too long.
+ */
+function readNoteText(body: unknown): string {
+    const text = isRecord(body) ? body.text : undefined;
+    if (typeof text !== 'string' || !text.trim()) {
+        throw new HttpError(400, 'Expected the note text');
+    }
+    if (text.length > MAX_NOTE_LENGTH) {
+        throw new HttpError(413, 'The note is too long');
+    }
+    return text;
+}
+
+/**
+ * Reads the user's categories from a categorization request body.
+ * @param {unknown} body - The parsed body.
+ * @returns {CategoryHint[]} The categories.
+ * @throws {HttpError} If the categories are missing or malformed.
+ */
+function readCategories(body: unknown): CategoryHint[] {
+    const categories = isRecord(body) ? body.categories : undefined;
+    if (!Array.isArray(categories) || categories.length > MAX_CATEGORIES || !categories.every(isCategoryHint)) {
+        throw new HttpError(400, 'Expected a list of categories');
+    }
+    return categories.map(({ name, description }) => ({ name, description }));
+}
+
+/**
+ * Checks that a value sent as a category has a name, and a description if any as text.
+ * @param {unknown} value - The value.
+ * @returns {boolean} True if the value can be used as a category hint.
+ */
+function isCategoryHint(value: unknown): value is CategoryHint {
+    return isRecord(value) && typeof value.name === 'string'
+        && (value.description === undefined || typeof value.description === 'string');
+}
+
+/**
+ * Reads the recording from a transcription request body.
+ * @param {unknown} body - The parsed body.
+ * @returns {string} The Base64-encoded WAV file.
+ * @throws {HttpError} If the recording is missing or isn't Base64.
+ */
+function readAudio(body: unknown): string {
+    const audio = isRecord(body) ? body.audio : undefined;
+    if (typeof audio !== 'string' || !audio || !/^[A-Za-z0-9+/]+={0,2}$/.test(audio)) {
+        throw new HttpError(400, 'Expected a Base64-encoded WAV recording');
+    }
+    return audio;
+}
+
+/**
+ * Serves a file from the built app. Paths that aren't files get index.html,
+ * so the app can be reloaded on any URL.
+ * @param {IncomingMessage} request - The request.
+ * @param {ServerResponse} response - The response.
+ */
+function serveApp(request: IncomingMessage, response: ServerResponse): void {
+    let pathname: string;
+    try {
+        pathname = decodeURIComponent(new URL(request.url ?? '/', 'http://localhost').pathname);
+    } catch {
+        response.writeHead(400, { 'Content-Type': 'text/plain' }).end('Malformed path');
+        return;
+    }
+    const requested = path.join(distDir, pathname);
+    const isFile = requested.startsWith(distDir + path.sep) && existsSync(requested) && statSync(requested).isFile();
+    const file = isFile ? requested : path.join(distDir, 'index.html');
+    if (!existsSync(file)) {
+        response.writeHead(404, { 'Content-Type': 'text/plain' }).end('The app has not been built. Run `npm run build`.');
+        return;
+    }
+    response.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+    createReadStream(file)
+        .on('error', e => {
+            console.error(`Failed to read ${file}`, e);
+            response.destroy();
+        })
+        .pipe(response);
+}
+
+/**
+ * Handles a call to the categorization, task extraction or transcription endpoint.
+ * @param {IncomingMessage} request - The request.
+ * @param {ServerResponse} response - The response.
+ * @param {string} pathname - The endpoint.
+ */
+async function handleApi(request: IncomingMessage, response: ServerResponse, pathname: string): Promise<void> {
+    if (pathname !== '/api/categorize' && pathname !== '/api/tasks' && pathname !== '/api/transcribe') {
+        throw new HttpError(404, 'Not found');
+    }
+    const isTranscription = pathname === '/api/transcribe';
+    if (request.method !== 'POST') {
+        throw new HttpError(405, 'Use POST');
+    }
+    if (!isSameOrigin(request)) {
+        throw new HttpError(403, 'Cross-origin requests are not allowed');
+    }
+    const retryAfter = (isTranscription ? transcriptionLimiter : apiLimiter).take(clientId(request));
+    if (retryAfter > 0) {
+        sendJson(response, 429, { error: 'Too many requests' }, { 'Retry-After': String(Math.ceil(retryAfter / 1000)) });
+        return;
+    }
+    if (!ai) {
+        throw new HttpError(503, 'No Gemini API key is configured on the server');
+    }
+
+    const body = await readJson(request, isTranscription ? MAX_AUDIO_BODY_BYTES : MAX_BODY_BYTES);
+    try {
+        const answer = isTranscription
+            ? await transcribe(ai, readAudio(body))
+            : pathname === '/api/categorize'
+                ? await categorize(ai, readNoteText(body), readCategories(body))
+                : await extractTasks(ai, readNoteText(body));
+        sendJson(response, 200, { text: answer });
+    } catch (e) {
+        if (e instanceof HttpError) throw e;
+        console.error(`Failed to call Gemini for ${pathname}`, e);
+        throw new HttpError(502, 'Could not reach Gemini');
+    }
+}
+
+/**
+ * Checks the access token of a sync request.
+ * @param {IncomingMessage} request - The request.
+ * @returns {boolean} True if the request carries the server's sync token.
+ */
+function hasSyncToken(request: IncomingMessage): boolean {
+    const token = request.headers.authorization?.match(/^Bearer (.+)$/)?.[1] ?? '';
+    // Comparing digests keeps the comparison constant-time whatever the token's length.
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(token), digest(syncToken));
+}
+
+/**
+ * Reads a sync cursor.
+ * @param {unknown} value - The cursor sent by the device; empty before its first sync.
+ * @returns {number} The sequence number it stands for.
+ * @throws {HttpError} If the cursor is malformed.
+ */
+function readCursor(value: unknown): number {
+    if (value === null || value === undefined || value === '') return 0;
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+        throw new HttpError(400, 'Expected a cursor from an earlier sync');
+    }
+    return Number(value);
+}
+
+/**
+ * Reads the records pushed in a sync request body.
+ * @param {unknown} body - The parsed body.
+ * @returns {{ since: number; records: SyncRecord[] }} The device's cursor and its changed records.
+ * @throws {HttpError} If the records or cursor are malformed.
+ */
+function readPush(body: unknown): { since: number; records: SyncRecord[] } {
+    const since = isRecord(body) ? body.since : undefined;
+    const records = isRecord(body) ? body.records : undefined;
+    if (!Array.isArray(records) || !records.every(isValidSyncRecord)) {
+        throw new HttpError(400, 'Expected a list of sync records');
+    }
+    return { since: readCursor(since), records };
+}
+
+/**
+ * Handles a call to the sync API.
+ * @param {IncomingMessage} request - The request.
+ * @param {ServerResponse} response - The response.
+ * @param {URL} url - The request URL.
+ */
+async function handleSync(request: IncomingMessage, response: ServerResponse, url: URL): Promise<void> {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (request.method === 'OPTIONS') {
+        response.writeHead(204).end();
+        return;
+    }
+    if (url.pathname !== '/api/sync/changes') {
+        throw new HttpError(404, 'Not found');
+    }
+    if (!syncStore) {
+        throw new HttpError(503, 'Sync is not set up on this server');
+    }
+    if (!hasSyncToken(request)) {
+        throw new HttpError(401, 'Wrong access token');
+    }
+    const retryAfter = syncLimiter.take(clientId(request));
+    if (retryAfter > 0) {
+        sendJson(response, 429, { error: 'Too many requests' }, { 'Retry-After': String(Math.ceil(retryAfter / 1000)) });
+        return;
+    }
+
+    if (request.method === 'GET') {
+        const { records, cursor } = syncStore.changesSince(readCursor(url.searchParams.get('since')));
+        sendJson(response, 200, { records, cursor: String(cursor) });
+        return;
+    }
+    if (request.method !== 'POST') {
+        throw new HttpError(405, 'Use GET or POST');
+    }
+    const { since, records } = readPush(await readJson(request, MAX_SYNC_BODY_BYTES));
+    const result = await syncStore.push(since, records);
+    if (!result.accepted) {
+        sendJson(response, 409, { error: 'Other devices have pushed changes since your last pull' });
+        return;
+    }
+    sendJson(response, 200, { cursor: String(result.cursor) });
+}
+
+const server = createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const pathname = url.pathname;
+    if (!pathname.startsWith('/api/')) {
+        serveApp(request, response);
+        return;
+    }
+    try {
+        if (pathname.startsWith('/api/sync/')) {
+            await handleSync(request, response, url);
+        } else {
+            await handleApi(request, response, pathname);
+        }
+    } catch (e) {
+        if (e instanceof HttpError) {
+            sendJson(response, e.status, { error: e.message });
+        } else {
+            console.error("Failed to handle a request", e);
+            sendJson(response, 500, { error: 'Something went wrong' });
+        }
+    }
+});
+
+const liveServer = new WebSocketServer({ noServer: true, maxPayload: MAX_LIVE_MESSAGE_BYTES });
+
+server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    /**
+     * Turns down the upgrade with an HTTP error.
+     * @param {number} status - The HTTP status code.
+     * @param {string} reason - The status text.
+     * @param {string} [extraHeaders] - Extra header lines.
+     */
+    const refuse = (status: number, reason: string, extraHeaders = '') => {
+        socket.end(`HTTP/1.1 ${status} ${reason}\r\n${extraHeaders}Connection: close\r\n\r\n`);
+    };
+
+    const client = clientId(request);
+    if (new URL(request.url ?? '/', 'http://localhost').pathname !== '/api/live') {
+        refuse(404, 'Not Found');
+        return;
+    }
+    if (!isSameOrigin(request)) {
+        refuse(403, 'Forbidden');
+        return;
+    }
+    if (!ai) {
+        refuse(503, 'Service Unavailable');
+        return;
+    }
+    const retryAfter = (liveSessions.get(client) ?? 0) >= MAX_LIVE_SESSIONS_PER_CLIENT ? 1000 : liveSessionLimiter.take(client);
+    if (retryAfter > 0) {
+        refuse(429, 'Too Many Requests', `Retry-After: ${Math.ceil(retryAfter / 1000)}\r\n`);
+        return;
+    }
+
+    liveServer.handleUpgrade(request, socket, head, (ws: WebSocket) => {
+        const connectionId = `${client}#${nextConnectionId++}`;
+        liveSessions.set(client, (liveSessions.get(client) ?? 0) + 1);
+        ws.on('close', () => {
+            const open = (liveSessions.get(client) ?? 1) - 1;
+            if (open > 0) liveSessions.set(client, open);
+            else liveSessions.delete(client);
+        });
+        relayLiveSession(ws, ai, liveMessageLimiter, connectionId);
+    });
+});
+
+// Forget clients that have been idle long enough for their limits to reset.
+setInterval(() => {
+    apiLimiter.prune();
+    transcriptionLimiter.prune();
+    liveSessionLimiter.prune();
+    liveMessageLimiter.prune();
+    syncLimiter.prune();
+}, 60000).unref();
+
+server.listen(port, () => {
+    console.log(`QuickNotes server listening on http://localhost:${port}`);
+    if (!ai) {
+        console.warn('GEMINI_API_KEY is not set; categorization and live transcription will fail.');
+    }
+    if (!syncStore) {
+        console.warn('SYNC_TOKEN is not set; sync is turned off.');
+    }
+});
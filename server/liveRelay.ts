@@ -0,0 +1,95 @@
+/**
+ * @file This file relays live transcription sessions between the browser and the
+ * Gemini Live API. The browser streams microphone audio to the server over a
+ * WebSocket, and the server holds the Gemini session, so the API key never
+ * reaches the browser. The messages are described in services/geminiLiveProvider.ts.
+ */
+import { GoogleGenAI, LiveServerMessage, Modality, Session } from '@google/genai';
+import { WebSocket } from 'ws';
+import { LiveRelayClientMessage, LiveRelayServerMessage } from '../services/geminiLiveProvider';
+import { isRecord } from '../utils/validation';
+import { LIVE_MODEL } from './gemini';
+import { RateLimiter } from './rateLimiter';
+
+/** The WebSocket close code for a connection that broke the rules, e.g. by sending too much. */
+const POLICY_VIOLATION = 1008;
+/** The WebSocket close code for a failure on the server's side. */
+const INTERNAL_ERROR = 1011;
+
+/**
+ * Relays one browser connection to a new Gemini Live session. Audio sent
+ * before the session is ready is dropped; the browser waits for `open`.
+ * @param {WebSocket} socket - The browser's WebSocket.
+ * @param {GoogleGenAI} ai - The Gemini client.
+ * @param {RateLimiter} messageLimiter - Limits how fast a connection may send audio.
+ * @param {string} connectionId - Identifies the connection to the message limiter.
+ */
+export function relayLiveSession(socket: WebSocket, ai: GoogleGenAI, messageLimiter: RateLimiter, connectionId: string): void {
+    let session: Session | null = null;
+    let isClosed = false;
+
+    /**
+     * Sends a message to the browser if it is still connected.
+     * @param {LiveRelayServerMessage} message - The message.
+     */
+    const send = (message: LiveRelayServerMessage) => {
+        if (!isClosed) socket.send(JSON.stringify(message));
+    };
+
+    ai.live.connect({
+        model: LIVE_MODEL,
+        callbacks: {
+            onmessage: (message: LiveServerMessage) => send({ type: 'message', message }),
+            onerror: (e: ErrorEvent) => send({ type: 'error', error: e.message || 'The transcription session failed' }),
+            onclose: () => socket.close(),
+        },
+        config: {
+            inputAudioTranscription: {},
+            responseModalities: [Modality.AUDIO],
+        },
+    }).then(connected => {
+        if (isClosed) {
+            connected.close();
+            return;
+        }
+        session = connected;
+        send({ type: 'open' });
+    }).catch(e => {
+        console.error("Failed to open a live transcription session", e);
+        send({ type: 'error', error: 'Could not reach the transcription service' });
+        socket.close(INTERNAL_ERROR);
+    });
+
+    socket.on('message', (data: Buffer) => {
+        if (messageLimiter.take(connectionId) > 0) {
+            socket.close(POLICY_VIOLATION, 'Too many messages');
+            return;
+        }
+        let message: unknown;
+        try {
+            message = JSON.parse(data.toString('utf8'));
+        } catch (e) {
+            socket.close(POLICY_VIOLATION, 'Messages must be JSON');
+            return;
+        }
+        if (isAudioMessage(message)) {
+            session?.sendRealtimeInput({ media: { data: message.audio.data, mimeType: message.audio.mimeType } });
+        }
+    });
+
+    socket.on('close', () => {
+        isClosed = true;
+        session?.close();
+        session = null;
+    });
+}
+
+/**
+ * Checks that a message from the browser is a chunk of audio.
+ * @param {unknown} message - The parsed message.
+ * @returns {boolean} True if the message has the audio's data and MIME type as text.
+ */
+function isAudioMessage(message: unknown): message is LiveRelayClientMessage {
+    return isRecord(message) && message.type === 'audio' && isRecord(message.audio)
+        && typeof message.audio.data === 'string' && typeof message.audio.mimeType === 'string';
+}
@@ -0,0 +1,72 @@
+/**
+ * @file This file implements the server's per-client rate limiting. Each client
+ * has a bucket of tokens: every request takes one, and tokens come back at a
+ * steady rate up to the bucket's size, so short bursts are allowed but a client
+ * can't keep up more than the refill rate.
+ */
+
+/**
+ * Options for a rate limiter.
+ */
+export interface RateLimiterOptions {
+    /** The most requests a client can make in a burst. */
+    capacity: number;
+    /** How many requests a client can make per minute over time. */
+    refillPerMinute: number;
+}
+
+/**
+ * A per-client rate limiter.
+ */
+export interface RateLimiter {
+    /**
+     * Takes a token for a request.
+     * @param {string} clientId - The client making the request.
+     * @param {number} [now] - The current time in milliseconds. Defaults to now.
+     * @returns {number} 0 if the request is allowed, otherwise how many milliseconds to wait before trying again.
+     */
+    take: (clientId: string, now?: number) => number;
+    /**
+     * Forgets clients whose buckets have filled up again, so idle clients don't use memory.
+     * @param {number} [now] - The current time in milliseconds. Defaults to now.
+     */
+    prune: (now?: number) => void;
+}
+
+/**
+ * Creates a token-bucket rate limiter.
+ * @param {RateLimiterOptions} options - The bucket size and refill rate.
+ * @returns {RateLimiter} The rate limiter.
+ */
+export function createRateLimiter({ capacity, refillPerMinute }: RateLimiterOptions): RateLimiter {
+    const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+    const msPerToken = 60000 / refillPerMinute;
+
+    /**
+     * Returns the tokens a client has right now.
+     * @param {{ tokens: number; updatedAt: number }} bucket - The client's bucket.
+     * @param {number} now - The current time in milliseconds.
+     * @returns {number} The number of tokens, which may be fractional.
+     */
+    const tokensAt = (bucket: { tokens: number; updatedAt: number }, now: number): number =>
+        Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) / msPerToken);
+
+    return {
+        take(clientId, now = Date.now()) {
+            const bucket = buckets.get(clientId);
+            const tokens = bucket ? tokensAt(bucket, now) : capacity;
+            if (tokens < 1) {
+                buckets.set(clientId, { tokens, updatedAt: now });
+                return Math.ceil((1 - tokens) * msPerToken);
+            }
+            buckets.set(clientId, { tokens: tokens - 1, updatedAt: now });
+            return 0;
+        },
+
+        prune(now = Date.now()) {
+            buckets.forEach((bucket, clientId) => {
+                if (tokensAt(bucket, now) >= capacity) buckets.delete(clientId);
+            });
+        },
+    };
+}
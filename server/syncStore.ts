@@ -0,0 +1,122 @@
+/**
+ * @file This file implements the storage of the reference sync server: the
+ * latest version of each record, each with the sequence number of the push that
+ * stored it, which is what devices pull by. The data is kept in memory and
+ * written to a JSON file after every push.
+ */
+import { existsSync, readFileSync } from 'node:fs';
+import { rename, writeFile } from 'node:fs/promises';
+import { SyncRecord } from '../types';
+import { parseStamp } from '../utils/syncStamp';
+
+/** The longest record id accepted. */
+const MAX_ID_LENGTH = 200;
+
+/**
+ * A record as stored by the server.
+ */
+interface StoredRecord {
+    /** The record. */
+    record: SyncRecord;
+    /** The sequence number of the push that stored it. */
+    seq: number;
+}
+
+/**
+ * Everything the server stores.
+ */
+interface SyncData {
+    /** The sequence number of the latest push. */
+    seq: number;
+    /** The latest version of each record, by type and id. */
+    records: Record<string, StoredRecord>;
+}
+
+/**
+ * The sync server's storage.
+ */
+export interface SyncStore {
+    /**
+     * Returns the records stored after a sequence number.
+     * @param {number} since - The sequence number the device has seen, or 0 for every record.
+     * @returns {{ records: SyncRecord[]; cursor: number }} The records, oldest first, and the latest sequence number.
+     */
+    changesSince: (since: number) => { records: SyncRecord[]; cursor: number };
+    /**
+     * Stores records pushed by a device, keeping the latest version of each. The
+     * push is turned down if other pushes were stored after the device last pulled.
+     * @param {number} since - The sequence number the device pulled up to.
+     * @param {SyncRecord[]} records - The records.
+     * @returns {Promise<{ accepted: boolean; cursor: number }>} Whether the push was stored, and the latest sequence number.
+     */
+    push: (since: number, records: SyncRecord[]) => Promise<{ accepted: boolean; cursor: number }>;
+}
+
+/**
+ * Checks that a pushed value is a well-formed sync record.
+ * @param {unknown} value - The value.
+ * @returns {boolean} True if the value can be stored.
+ */
+export function isValidSyncRecord(value: unknown): value is SyncRecord {
+    const record = value as Partial<SyncRecord> | null;
+    return (record?.type === 'note' || record?.type === 'settings')
+        && typeof record.id === 'string' && record.id.length > 0 && record.id.length <= MAX_ID_LENGTH
+        && typeof record.stamp === 'string' && parseStamp(record.stamp) !== null
+        && (record.deleted === true ? record.data === undefined : typeof record.data === 'object' && record.data !== null);
+}
+
+/**
+ * Opens the store, loading the data saved in a file if there is any.
+ * @param {string} file - The path of the data file.
+ * @returns {SyncStore} The store.
+ */
+export function openSyncStore(file: string): SyncStore {
+    const data: SyncData = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : { seq: 0, records: {} };
+    let saving: Promise<void> = Promise.resolve();
+
+    /**
+     * Writes the data to the file. Writes go to a temporary file first, so a
+     * crash never leaves a half-written file behind, and happen one at a time.
+     * A failed write doesn't hold up the ones after it, which save the data again.
+     * @returns {Promise<void>} Resolves once the data is saved.
+     */
+    const save = (): Promise<void> => {
+        const contents = JSON.stringify(data);
+        saving = saving.catch(() => {}).then(async () => {
+            await writeFile(`${file}.tmp`, contents);
+            await rename(`${file}.tmp`, file);
+        });
+        return saving;
+    };
+
+    return {
+        changesSince(since) {
+            const records = Object.values(data.records)
+                .filter(stored => stored.seq > since)
+                .sort((a, b) => a.seq - b.seq)
+                .map(stored => stored.record);
+            return { records, cursor: data.seq };
+        },
+
+        async push(since, records) {
+            if (data.seq > since) {
+                return { accepted: false, cursor: data.seq };
+            }
+            const seq = data.seq + 1;
+            let stored = false;
+            records.forEach(record => {
+                const key = `${record.type}:${record.id}`;
+                const existing = data.records[key];
+                if (existing && existing.record.stamp >= record.stamp) return;
+                data.records[key] = { record, seq };
+                stored = true;
+            });
+            if (!stored) {
+                return { accepted: true, cursor: data.seq };
+            }
+            data.seq = seq;
+            await save();
+            return { accepted: true, cursor: seq };
+        },
+    };
+}
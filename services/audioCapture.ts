@@ -0,0 +1,140 @@
+/**
+ * @file This file sets up the microphone capture pipeline. Audio is amplified by the
+ * input gain, processed by an AudioWorklet off the main thread and delivered as
+ * 16 kHz, 16-bit PCM frames.
+ */
+import pcmCaptureWorkletUrl from './pcmCaptureWorklet.ts?worker&url';
+import type { PcmCaptureMessage, PcmCaptureOptions } from './pcmCaptureWorklet';
+import { PCM_SAMPLE_RATE, PCM_CAPTURE_PROCESSOR } from '../utils/audioUtils';
+
+/** The default number of samples per frame: 100 ms of audio at 16 kHz. */
+export const DEFAULT_FRAME_SIZE = 1600;
+
+/** How long to wait for the worklet to flush its last partial frame when stopping. */
+const FLUSH_TIMEOUT_MS = 200;
+
+/**
+ * Options for starting an audio capture.
+ */
+export interface AudioCaptureOptions {
+    /** Called on the main thread with each frame of 16 kHz PCM audio. */
+    onFrame: (pcm: Int16Array) => void;
+    /** The number of samples in each frame. Defaults to `DEFAULT_FRAME_SIZE`. */
+    frameSize?: number;
+    /** How much to amplify the input, where 1 (the default) leaves it unchanged. */
+    gain?: number;
+}
+
+/**
+ * An open microphone.
+ */
+export interface OpenMicrophone {
+    /** The microphone's audio stream. */
+    stream: MediaStream;
+    /** True if the chosen microphone wasn't found and the default one was opened instead. */
+    isFallback: boolean;
+}
+
+/**
+ * Lists the microphones the browser can record from. Their labels are empty
+ * until the user has allowed microphone access once.
+ * @returns {Promise<MediaDeviceInfo[]>} The audio input devices.
+ */
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'audioinput');
+}
+
+/**
+ * Opens a microphone, asking for permission if needed. If the chosen microphone
+ * has been unplugged, the default one is opened instead.
+ * @param {string} [deviceId] - The id of the microphone, or undefined for the default.
+ * @returns {Promise<OpenMicrophone>} The microphone's stream.
+ * @throws {Error} If no microphone can be opened, e.g. because permission was denied.
+ */
+export async function openMicrophone(deviceId?: string): Promise<OpenMicrophone> {
+    if (!deviceId) {
+        return { stream: await navigator.mediaDevices.getUserMedia({ audio: true }), isFallback: false };
+    }
+    try {
+        return { stream: await navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: deviceId } } }), isFallback: false };
+    } catch (e) {
+        if (!(e instanceof DOMException) || (e.name !== 'OverconstrainedError' && e.name !== 'NotFoundError')) throw e;
+        return { stream: await navigator.mediaDevices.getUserMedia({ audio: true }), isFallback: true };
+    }
+}
+
+/**
+ * A running audio capture.
+ */
+export interface AudioCapture {
+    /**
+     * Delivers any buffered audio, then disconnects the pipeline and closes its AudioContext.
+     * The media stream itself is left running; its owner is responsible for stopping it.
+     * @returns {Promise<void>} Resolves once the capture has stopped.
+     */
+    stop: () => Promise<void>;
+}
+
+/**
+ * Starts capturing audio from a media stream.
+ * The AudioContext runs at the device's native sample rate; the worklet resamples
+ * to 16 kHz, so this works on devices that ignore a requested sample rate.
+ *
+ * @param {MediaStream} stream - The microphone stream to capture.
+ * @param {AudioCaptureOptions} options - Where to deliver frames, and how large they should be.
+ * @returns {Promise<AudioCapture>} The running capture.
+ */
+export async function startAudioCapture(stream: MediaStream, options: AudioCaptureOptions): Promise<AudioCapture> {
+    const context: AudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+        await context.audioWorklet.addModule(pcmCaptureWorkletUrl);
+    } catch (e) {
+        await context.close();
+        throw e;
+    }
+
+    const processorOptions: PcmCaptureOptions = {
+        targetSampleRate: PCM_SAMPLE_RATE,
+        frameSize: options.frameSize ?? DEFAULT_FRAME_SIZE,
+    };
+    const source = context.createMediaStreamSource(stream);
+    const gain = context.createGain();
+    gain.gain.value = options.gain ?? 1;
+    const worklet = new AudioWorkletNode(context, PCM_CAPTURE_PROCESSOR, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions,
+    });
+
+    let resolveFlush: (() => void) | null = null;
+    worklet.port.onmessage = (event: MessageEvent<PcmCaptureMessage>) => {
+        if (event.data.type === 'frame') {
+            options.onFrame(event.data.pcm);
+        } else if (event.data.type === 'flushed') {
+            resolveFlush?.();
+        }
+    };
+
+    source.connect(gain).connect(worklet);
+    // The worklet outputs silence; connecting it keeps the graph pulling audio through it.
+    worklet.connect(context.destination);
+
+    return {
+        async stop() {
+            if (context.state === 'closed') return;
+            await new Promise<void>(resolve => {
+                resolveFlush = resolve;
+                setTimeout(resolve, FLUSH_TIMEOUT_MS);
+                worklet.port.postMessage({ type: 'flush' });
+            });
+            worklet.port.onmessage = null;
+            source.disconnect();
+            gain.disconnect();
+            worklet.disconnect();
+            await context.close();
+        },
+    };
+}
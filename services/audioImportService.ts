@@ -0,0 +1,68 @@
+/**
+ * @file This service transcribes audio files recorded elsewhere, such as voice
+ * memos. The file is decoded in the browser and resampled to 16 kHz mono, then
+ * sent for transcription in chunks of a couple of minutes, one after another.
+ */
+import { PCM_SAMPLE_RATE, floatTo16BitPCM } from '../utils/audioUtils';
+import { encodeWav } from '../utils/wavUtils';
+import { mixToMono, splitAtPauses } from '../utils/audioImport';
+import { transcribeAudio } from './geminiService';
+
+/** The largest file accepted, in bytes. */
+const MAX_FILE_BYTES = 200 * 1024 * 1024;
+/** The longest recording accepted, in seconds. */
+const MAX_DURATION_SECONDS = 60 * 60;
+
+/**
+ * A transcribed audio file.
+ */
+export interface ImportedAudio {
+    /** The transcript. Empty if no speech was found. */
+    text: string;
+    /** The audio as 16 kHz mono PCM, for keeping with the note. */
+    samples: Int16Array;
+}
+
+/**
+ * Decodes an audio file and resamples it to 16 kHz mono.
+ * @param {Blob} file - The file, in any format the browser can decode.
+ * @returns {Promise<Int16Array>} The PCM samples.
+ * @throws {Error} If the file is too large or long, or can't be decoded.
+ */
+export async function decodeAudioFile(file: Blob): Promise<Int16Array> {
+    if (file.size > MAX_FILE_BYTES) {
+        throw new Error('The file is larger than 200 MB.');
+    }
+    // An offline context decodes without touching the speakers, and resamples to its own rate.
+    const context = new OfflineAudioContext(1, 1, PCM_SAMPLE_RATE);
+    let decoded: AudioBuffer;
+    try {
+        decoded = await context.decodeAudioData(await file.arrayBuffer());
+    } catch {
+        throw new Error("The file couldn't be read as audio.");
+    }
+    if (decoded.duration > MAX_DURATION_SECONDS) {
+        throw new Error('The recording is longer than an hour.');
+    }
+    const channels = Array.from({ length: decoded.numberOfChannels }, (_, i) => decoded.getChannelData(i));
+    return floatTo16BitPCM(mixToMono(channels));
+}
+
+/**
+ * Decodes and transcribes an audio file.
+ * @param {Blob} file - The file.
+ * @param {(done: number, total: number) => void} [onProgress] - Called as chunks are transcribed.
+ * @returns {Promise<ImportedAudio>} The transcript and the decoded audio.
+ * @throws {Error} If the file can't be decoded or a chunk can't be transcribed.
+ */
+export async function transcribeAudioFile(file: Blob, onProgress?: (done: number, total: number) => void): Promise<ImportedAudio> {
+    const samples = await decodeAudioFile(file);
+    const chunks = splitAtPauses(samples, PCM_SAMPLE_RATE);
+    const parts: string[] = [];
+    onProgress?.(0, chunks.length);
+    for (const [index, chunk] of chunks.entries()) {
+        parts.push((await transcribeAudio(encodeWav([chunk], PCM_SAMPLE_RATE))).trim());
+        onProgress?.(index + 1, chunks.length);
+    }
+    return { text: parts.filter(Boolean).join(' '), samples };
+}
@@ -0,0 +1,18 @@
+/**
+ * @file This file defines the interface shared by all note categorizers.
+ */
+import { Category, CategorizationResult } from '../types';
+
+/**
+ * Something that sorts notes into the user's categories.
+ */
+export interface CategorizationProvider {
+    /**
+     * Categorizes a note.
+     * @param {string} text - The note text.
+     * @param {Category[]} categories - The user's categories.
+     * @returns {Promise<CategorizationResult>} The category, confidence, tags and title.
+     * @throws {Error} If the categorizer can't be reached.
+     */
+    categorize(text: string, categories: Category[]): Promise<CategorizationResult>;
+}
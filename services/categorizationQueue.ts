@@ -0,0 +1,187 @@
+/**
+ * @file This file implements the persistent queue of notes that were saved
+ * before the AI model could categorize them, e.g. because the device was
+ * offline. Entries are stored in IndexedDB and retried with exponential backoff,
+ * and right away when the browser comes back online. Nothing is attempted while
+ * the browser reports being offline, so time spent offline doesn't use up attempts.
+ */
+import { CategorizationStatus, PendingCategorization } from '../types';
+import { deletePendingCategorization, loadPendingCategorizations, savePendingCategorization } from './storageService';
+
+/** How many times a note is sent to the model before it is marked as failed. */
+export const MAX_CATEGORIZATION_ATTEMPTS = 6;
+/** The wait before the first retry; each further retry waits twice as long. */
+const INITIAL_RETRY_DELAY_MS = 10000;
+/** The longest wait between retries. */
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+/**
+ * Returns how long to wait before categorizing a note again.
+ * @param {number} attempts - The number of attempts made so far, at least 1.
+ * @returns {number} The delay in milliseconds.
+ */
+export function categorizationRetryDelay(attempts: number): number {
+    return Math.min(INITIAL_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Works out the state of a queue entry after another failed attempt.
+ * @param {PendingCategorization} entry - The entry before the attempt.
+ * @param {string} error - Why the attempt failed.
+ * @param {Date} now - The time of the attempt.
+ * @returns {PendingCategorization} The entry after the attempt.
+ */
+export function recordFailedAttempt(entry: PendingCategorization, error: string, now: Date): PendingCategorization {
+    const attempts = entry.attempts + 1;
+    const status: CategorizationStatus = attempts < MAX_CATEGORIZATION_ATTEMPTS ? 'pending' : 'failed';
+    return { ...entry, attempts, status, lastError: error, nextAttemptAt: new Date(now.getTime() + categorizationRetryDelay(attempts)) };
+}
+
+/**
+ * Options for the categorization queue.
+ */
+export interface CategorizationQueueOptions {
+    /** Categorizes a saved note and stores the result. Rejects if the AI model can't be reached. */
+    categorize: (noteId: string) => Promise<void>;
+    /** Called whenever a note's status changes; `undefined` means it has left the queue. */
+    onStatusChange: (noteId: string, status: CategorizationStatus | undefined) => void;
+}
+
+/**
+ * The categorization queue.
+ */
+export interface CategorizationQueue {
+    /**
+     * Queues a saved note whose categorization just failed.
+     * @param {string} noteId - The note.
+     * @param {string} [error] - Why categorization failed, if known.
+     */
+    enqueue: (noteId: string, error?: string) => Promise<void>;
+    /**
+     * Tries a note that ran out of attempts again, with a fresh set of attempts.
+     * @param {string} noteId - The note.
+     */
+    retry: (noteId: string) => Promise<void>;
+    /**
+     * Takes a note out of the queue, e.g. because the user picked its category.
+     * @param {string} noteId - The note.
+     */
+    cancel: (noteId: string) => Promise<void>;
+    /** Stops processing. Queued notes stay stored for the next session. */
+    stop: () => void;
+}
+
+/**
+ * Creates the categorization queue and starts working through the notes left
+ * in it by earlier sessions.
+ * @param {CategorizationQueueOptions} options - How to categorize notes and report progress.
+ * @returns {CategorizationQueue} The queue.
+ */
+export function createCategorizationQueue(options: CategorizationQueueOptions): CategorizationQueue {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let isProcessing = false;
+    let processAgain = false;
+    let isStopped = false;
+
+    /**
+     * Categorizes every note that is due, then schedules the next run.
+     */
+    const processDue = async () => {
+        if (isStopped) return;
+        if (isProcessing) {
+            processAgain = true;
+            return;
+        }
+        isProcessing = true;
+        if (timer) clearTimeout(timer);
+        timer = null;
+
+        try {
+            const entries = await loadPendingCategorizations();
+            for (const entry of entries) {
+                const now = new Date();
+                // The 'online' event starts another run, so there's no point trying until then.
+                if (isStopped || !navigator.onLine) break;
+                if (entry.status !== 'pending' || entry.nextAttemptAt > now) continue;
+
+                try {
+                    await options.categorize(entry.noteId);
+                    await deletePendingCategorization(entry.noteId);
+                    options.onStatusChange(entry.noteId, undefined);
+                } catch (e) {
+                    const updated = recordFailedAttempt(entry, e instanceof Error ? e.message : String(e), now);
+                    await savePendingCategorization(updated);
+                    if (updated.status !== entry.status) {
+                        options.onStatusChange(updated.noteId, updated.status);
+                    }
+                }
+            }
+
+            const next = (await loadPendingCategorizations())
+                .filter(entry => entry.status === 'pending')
+                .reduce((earliest: number | null, entry) => {
+                    const time = entry.nextAttemptAt.getTime();
+                    return earliest === null || time < earliest ? time : earliest;
+                }, null);
+            if (next !== null && !isStopped && navigator.onLine) {
+                timer = setTimeout(processDue, Math.max(0, next - Date.now()));
+            }
+        } catch (e) {
+            console.error("Failed to process the categorization queue", e);
+        } finally {
+            isProcessing = false;
+        }
+        if (processAgain) {
+            processAgain = false;
+            processDue();
+        }
+    };
+
+    // Coming back online is when queued notes are most likely to go through.
+    const handleOnline = async () => {
+        try {
+            const entries = await loadPendingCategorizations();
+            const now = new Date();
+            await Promise.all(entries
+                .filter(entry => entry.status === 'pending')
+                .map(entry => savePendingCategorization({ ...entry, nextAttemptAt: now })));
+        } catch (e) {
+            console.error("Failed to reschedule the categorization queue", e);
+        }
+        processDue();
+    };
+    window.addEventListener('online', handleOnline);
+    processDue();
+
+    return {
+        async enqueue(noteId, error) {
+            const now = new Date();
+            await savePendingCategorization({
+                noteId,
+                status: 'pending',
+                attempts: 1,
+                nextAttemptAt: new Date(now.getTime() + categorizationRetryDelay(1)),
+                lastError: error,
+            });
+            processDue();
+        },
+
+        async retry(noteId) {
+            const entry = (await loadPendingCategorizations()).find(e => e.noteId === noteId);
+            await savePendingCategorization({ ...entry, noteId, status: 'pending', attempts: 0, nextAttemptAt: new Date() });
+            options.onStatusChange(noteId, 'pending');
+            processDue();
+        },
+
+        async cancel(noteId) {
+            await deletePendingCategorization(noteId);
+            options.onStatusChange(noteId, undefined);
+        },
+
+        stop() {
+            isStopped = true;
+            if (timer) clearTimeout(timer);
+            window.removeEventListener('online', handleOnline);
+        },
+    };
+}
@@ -0,0 +1,50 @@
+/**
+ * @file This file selects the categorizer the app uses.
+ */
+import { CategorizerMode, Note } from '../types';
+import { CategorizationProvider } from './categorizationProvider';
+import { createGeminiCategorizer } from './geminiService';
+import { createLocalCategorizer } from './localCategorizer';
+import { createHybridCategorizer } from './hybridCategorizer';
+
+/** The categorizer modes with their labels and descriptions, in the order they are offered to the user. */
+export const CATEGORIZER_MODES: { mode: CategorizerMode; label: string; description: string }[] = [
+    { mode: 'gemini', label: 'Gemini', description: 'Most accurate, and suggests titles and tags. Needs an API key and a connection.' },
+    { mode: 'local', label: 'On this device', description: 'Uses your keywords and learns from the notes you save. Works offline.' },
+    { mode: 'hybrid', label: 'On this device, Gemini if unsure', description: 'Asks Gemini only about notes the local categorizer is unsure of.' },
+];
+
+/**
+ * Checks whether a Gemini API key was configured for the server when the app was built.
+ * The key itself stays on the server.
+ * @returns {boolean} True if Gemini can be used.
+ */
+export function isGeminiAvailable(): boolean {
+    return Boolean(process.env.GEMINI_CONFIGURED);
+}
+
+/**
+ * Resolves the categorizer mode: the user's choice, or Gemini if an API key is configured and local otherwise.
+ * @param {CategorizerMode} [mode] - The mode from the user's settings.
+ * @returns {CategorizerMode} The mode to use.
+ */
+export function resolveCategorizerMode(mode?: CategorizerMode): CategorizerMode {
+    return mode ?? (isGeminiAvailable() ? 'gemini' : 'local');
+}
+
+/**
+ * Creates the categorizer for a mode.
+ * @param {CategorizerMode | undefined} mode - The mode from the user's settings.
+ * @param {() => Note[]} getNotes - Returns the saved notes the local categorizer learns from.
+ * @returns {CategorizationProvider} The categorizer.
+ */
+export function createCategorizationProvider(mode: CategorizerMode | undefined, getNotes: () => Note[]): CategorizationProvider {
+    switch (resolveCategorizerMode(mode)) {
+        case 'local':
+            return createLocalCategorizer(getNotes);
+        case 'hybrid':
+            return createHybridCategorizer(createLocalCategorizer(getNotes), createGeminiCategorizer());
+        case 'gemini':
+            return createGeminiCategorizer();
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * @file This file implements a transcription provider backed by the Gemini Live API.
+ * The browser doesn't connect to Gemini itself: it streams audio over a WebSocket
+ * to the QuickNotes server, which holds the API key and relays the session
+ * (see server/liveRelay.ts).
+ */
+import { Blob, LiveServerMessage } from '@google/genai';
+import { TranscriptionProvider, createTranscriptionEmitter, liveMessageToEvents } from './transcriptionProvider';
+
+/** Where the server's live transcription relay is mounted. */
+const LIVE_RELAY_PATH = '/api/live';
+
+/**
+ * A message the browser sends to the live relay.
+ */
+export type LiveRelayClientMessage =
+    /** A chunk of 16 kHz PCM microphone audio. */
+    { type: 'audio'; audio: Blob };
+
+/**
+ * A message the live relay sends to the browser.
+ */
+export type LiveRelayServerMessage =
+    /** The Gemini session is connected and ready to receive audio. */
+    | { type: 'open' }
+    /** A message from the Gemini session, passed on as is. */
+    | { type: 'message'; message: LiveServerMessage }
+    /** The Gemini session failed; the relay closes the connection next. */
+    | { type: 'error'; error: string };
+
+/**
+ * Returns the URL of the live relay on the server the app was loaded from.
+ * @returns {string} The WebSocket URL.
+ */
+const liveRelayUrl = (): string =>
+    `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}${LIVE_RELAY_PATH}`;
+
+/**
+ * Creates a transcription provider that streams microphone audio to the Gemini Live API,
+ * through the server's relay, and emits the input transcriptions it sends back.
+ * @returns {TranscriptionProvider} The provider.
+ */
+export function createGeminiLiveProvider(): TranscriptionProvider {
+    const emitter = createTranscriptionEmitter();
+    let socket: WebSocket | null = null;
+
+    return {
+        requiresAudio: true,
+        subscribe: emitter.subscribe,
+
+        start() {
+            return new Promise<void>((resolve, reject) => {
+                const ws = new WebSocket(liveRelayUrl());
+                socket = ws;
+                let isOpen = false;
+                let relayError: Error | null = null;
+
+                ws.onmessage = (event: MessageEvent) => {
+                    let message: LiveRelayServerMessage;
+                    try {
+                        message = JSON.parse(event.data);
+                    } catch (e) {
+                        console.warn("Live relay sent a message that was not valid JSON:", event.data);
+                        return;
+                    }
+                    switch (message.type) {
+                        case 'open':
+                            isOpen = true;
+                            emitter.emit({ type: 'open' });
+                            resolve();
+                            break;
+                        case 'message':
+                            liveMessageToEvents(message.message).forEach(emitter.emit);
+                            break;
+                        case 'error':
+                            relayError = new Error(message.error);
+                            if (isOpen) emitter.emit({ type: 'error', error: relayError });
+                            break;
+                    }
+                };
+                ws.onerror = (e: Event) => {
+                    if (isOpen) emitter.emit({ type: 'error', error: e });
+                };
+                ws.onclose = (e: CloseEvent) => {
+                    if (socket === ws) socket = null;
+                    if (!isOpen) {
+                        reject(relayError ?? new Error(e.reason || 'Could not connect to the transcription server'));
+                        return;
+                    }
+                    emitter.emit({ type: 'close' });
+                };
+            });
+        },
+
+        sendAudio(audio) {
+            if (socket?.readyState !== WebSocket.OPEN) return;
+            const message: LiveRelayClientMessage = { type: 'audio', audio };
+            socket.send(JSON.stringify(message));
+        },
+
+        async stop() {
+            socket?.close();
+            socket = null;
+        },
+    };
+}
@@ -1,44 +1,200 @@
 /**
  * @file This service is responsible for all interactions with the Google Gemini API.
+ * The browser never holds the API key: requests go to the QuickNotes server
+ * (see server/), which sends the prompts to Gemini and returns the model's
+ * answer, and the answer is validated here.
  */
-import { GoogleGenAI } from "@google/genai";
+import { Category, CategorizationResult, ExtractedTask } from "../types";
+import { CategorizationProvider } from "./categorizationProvider";
+import { findCategory, sortCategories } from "../utils/categoryUtils";
+import { FALLBACK_CATEGORY } from "../utils/noteUtils";
+import { parseDueDate } from "../utils/dateParser";
+import { encode } from "../utils/audioUtils";
+import { isRecord } from "../utils/validation";
+
+/** The maximum number of secondary tags kept from a categorization. */
+export const MAX_TAGS = 5;
+/** The maximum length of a generated title. */
+const MAX_TITLE_LENGTH = 80;
+/** The maximum number of tasks kept from a single note. */
+const MAX_TASKS = 20;
+
+/**
+ * Sends a request to the QuickNotes server, which holds the API key and calls Gemini.
+ * @param {string} path The endpoint, relative to `/api`.
+ * @param {unknown} body The request body, sent as JSON.
+ * @returns {Promise<string>} The model's answer, as returned by the server.
+ * @throws {Error} If the server can't be reached or answers with an error.
+ */
+async function askServer(path: string, body: unknown): Promise<string> {
+    const response = await fetch(`/api${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.error ?? `The server answered ${response.status}`);
+    }
+    return typeof result.text === 'string' ? result.text : '';
+}
+
+/**
+ * Creates the result used when the model's answer can't be used, or when the model can't be reached.
+ * The confidence of 0 makes sure the user is asked to confirm the category.
+ * @param {Category[]} userCategories The categories the user has configured.
+ * @returns {CategorizationResult} A fallback result in the "Notes" category.
+ */
+export function fallbackResult(userCategories: Category[]): CategorizationResult {
+    return {
+        category: FALLBACK_CATEGORY,
+        categoryId: findCategory(userCategories, FALLBACK_CATEGORY)?.id,
+        confidence: 0,
+        tags: [],
+        title: '',
+    };
+}
+
+/**
+ * Validates the model's JSON response and converts it into a `CategorizationResult`.
+ * Unknown categories are not trusted: they are logged and replaced with the fallback
+ * category at zero confidence, so model drift shows up in the review screen.
+ *
+ * @param {string} responseText The raw JSON text returned by the model.
+ * @param {Category[]} userCategories The categories the user has configured.
+ * @returns {CategorizationResult} The validated result.
+ */
+export function parseCategorizationResponse(responseText: string, userCategories: Category[]): CategorizationResult {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(responseText);
+    } catch (e) {
+        console.warn("Categorization response was not valid JSON:", responseText);
+        return fallbackResult(userCategories);
+    }
+    const fields = isRecord(parsed) ? parsed : {};
+
+    const rawCategory = typeof fields.category === 'string' ? fields.category : '';
+    const category = findCategory(userCategories, rawCategory);
+    const isFallback = !category && rawCategory.trim().toLowerCase() === FALLBACK_CATEGORY.toLowerCase();
+    if (!category && !isFallback) {
+        console.warn("Categorization returned an unknown category:", rawCategory);
+        return fallbackResult(userCategories);
+    }
+
+    const confidence = Number(fields.confidence);
+    const tags: string[] = Array.isArray(fields.tags)
+        ? fields.tags.filter((tag): tag is string => typeof tag === 'string').map(tag => tag.trim()).filter(Boolean)
+        : [];
+
+    return {
+        category: category ? category.name : FALLBACK_CATEGORY,
+        categoryId: category?.id,
+        confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+        tags: Array.from(new Set(tags)).slice(0, MAX_TAGS),
+        title: typeof fields.title === 'string' ? fields.title.trim().slice(0, MAX_TITLE_LENGTH) : '',
+    };
+}
 
 /**
  * Sends transcribed text to the Gemini API to determine its category.
- * It constructs a prompt with the user's text and a list of possible categories.
- * If the API call fails or returns an invalid category, it defaults to "Notes".
+ * The model is asked for a structured JSON response containing a primary category
+ * (constrained to the user's categories and "Notes"), a confidence score,
+ * secondary tags and a short title. Category descriptions are included as hints.
+ * If the response can't be validated, it returns the "Notes" category with a
+ * confidence of 0. If the model can't be reached at all, it rejects, so the
+ * caller can queue the note and try again later.
  *
  * @param {string} text The transcribed text of the note to be categorized.
- * @param {string[]} userCategories The list of categories the user has configured.
- * @returns {Promise<string>} A promise that resolves to the determined category name.
+ * @param {Category[]} userCategories The categories the user has configured.
+ * @returns {Promise<CategorizationResult>} A promise that resolves to the categorization result.
+ * @throws {Error} If the server can't be reached or the API call fails.
  */
-export async function categorizeNote(text: string, userCategories: string[]): Promise<string> {
-    if (!process.env.API_KEY) {
-        throw new Error("API_KEY environment variable not set");
-    }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const categoriesString = userCategories.map(c => `"${c}"`).join(', ');
+export async function categorizeNote(text: string, userCategories: Category[]): Promise<CategorizationResult> {
+    const categories = sortCategories(userCategories).map(({ name, description }) => ({ name, description }));
+    const responseText = await askServer('/categorize', { text, categories });
+    return parseCategorizationResponse(responseText, userCategories);
+}
 
-    const prompt = `Please categorize the following note into ONE of these categories: ${categoriesString}. If none of the other categories are a good fit, categorize it as "Notes". Respond with ONLY the category name and nothing else.
-    
-    Note: "${text}"
-    
-    Category:`;
+/**
+ * Creates a categorizer backed by the Gemini API.
+ * @returns {CategorizationProvider} The categorizer, which rejects if the API can't be reached.
+ */
+export function createGeminiCategorizer(): CategorizationProvider {
+    return { categorize: categorizeNote };
+}
 
+/**
+ * Checks whether an entry of the model's task list has a title.
+ * @param {unknown} task - The entry.
+ * @returns {boolean} True if the entry is an object with a non-blank title.
+ */
+function isTitledTask(task: unknown): task is Record<string, unknown> & { title: string } {
+    return isRecord(task) && typeof task.title === 'string' && task.title.trim() !== '';
+}
+
+/**
+ * Validates the model's JSON response for task extraction and resolves due dates.
+ * Tasks without a title are dropped; deadline phrases that can't be understood are ignored.
+ *
+ * @param {string} responseText The raw JSON text returned by the model.
+ * @param {Date} now The time the note was dictated, which relative deadlines are based on.
+ * @returns {ExtractedTask[]} The extracted tasks.
+ */
+export function parseTaskExtractionResponse(responseText: string, now: Date): ExtractedTask[] {
+    let parsed: unknown;
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
+        parsed = JSON.parse(responseText);
+    } catch (e) {
+        console.warn("Task extraction response was not valid JSON:", responseText);
+        return [];
+    }
+    if (!isRecord(parsed) || !Array.isArray(parsed.tasks)) {
+        return [];
+    }
+
+    return parsed.tasks
+        .filter(isTitledTask)
+        .slice(0, MAX_TASKS)
+        .map((task): ExtractedTask => {
+            const dueDate = typeof task.due === 'string' ? parseDueDate(task.due, now) : null;
+            const person = typeof task.person === 'string' ? task.person.trim() : '';
+            return {
+                title: task.title.trim().slice(0, MAX_TITLE_LENGTH),
+                ...(dueDate ? { dueDate } : {}),
+                ...(person ? { person } : {}),
+            };
         });
-        const category = response.text.trim();
-        // Return a default category if the model's response is not one of the expected ones.
-        if (userCategories.includes(category)) {
-            return category;
-        }
-        return "Notes";
+}
+
+/**
+ * Asks the Gemini API for the action items in a note, such as the to-dos in a
+ * dictated list. Each task has a title, and optionally a due date and a person.
+ * If the API call fails, no tasks are returned, so the note can still be saved.
+ *
+ * @param {string} text The transcribed text of the note.
+ * @param {Date} [now] The time the note was dictated. Defaults to now.
+ * @returns {Promise<ExtractedTask[]>} A promise that resolves to the extracted tasks.
+ */
+export async function extractTasks(text: string, now: Date = new Date()): Promise<ExtractedTask[]> {
+    try {
+        const responseText = await askServer('/tasks', { text });
+        return parseTaskExtractionResponse(responseText, now);
     } catch (error) {
-        console.error("Error categorizing note:", error);
-        return "Notes"; // Fallback category
+        console.error("Error extracting tasks:", error);
+        return [];
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Transcribes a short recording with a regular, non-live Gemini request. Long
+ * recordings are cut into chunks first (see audioImportService).
+ *
+ * @param {Blob} wav The recording, as a WAV file of at most a few megabytes.
+ * @returns {Promise<string>} The transcript, empty if no speech was heard.
+ * @throws {Error} If the server can't be reached or the API call fails.
+ */
+export async function transcribeAudio(wav: Blob): Promise<string> {
+    const audio = encode(new Uint8Array(await wav.arrayBuffer()));
+    return askServer('/transcribe', { audio });
+}
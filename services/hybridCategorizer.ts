@@ -0,0 +1,32 @@
+/**
+ * @file This file implements the "local first" categorizer, which only asks the
+ * remote categorizer about notes the local one is unsure of.
+ */
+import { CategorizationProvider } from './categorizationProvider';
+import { LOW_CONFIDENCE_THRESHOLD } from '../utils/categoryUtils';
+
+/**
+ * Creates a categorizer that tries a local categorizer first and asks a remote
+ * one when the local confidence is below the review threshold. If the remote
+ * categorizer can't be reached, the local answer is used, and the user is asked
+ * to confirm it as usual.
+ * @param {CategorizationProvider} local - The categorizer tried first.
+ * @param {CategorizationProvider} remote - The categorizer asked when the first is unsure.
+ * @returns {CategorizationProvider} The combined categorizer.
+ */
+export function createHybridCategorizer(local: CategorizationProvider, remote: CategorizationProvider): CategorizationProvider {
+    return {
+        async categorize(text, categories) {
+            const localResult = await local.categorize(text, categories);
+            if (localResult.confidence >= LOW_CONFIDENCE_THRESHOLD) {
+                return localResult;
+            }
+            try {
+                return await remote.categorize(text, categories);
+            } catch (e) {
+                console.error("Failed to categorize note remotely, using the local result", e);
+                return localResult;
+            }
+        },
+    };
+}
@@ -0,0 +1,23 @@
+/**
+ * @file This file implements the local categorizer, which runs in the browser
+ * and learns from the user's saved notes. See `utils/localClassifier.ts`.
+ */
+import { Note } from '../types';
+import { CategorizationProvider } from './categorizationProvider';
+import { categorizeLocally, trainingExamples, trainNaiveBayes } from '../utils/localClassifier';
+
+/**
+ * Creates a categorizer that uses the categories' keywords and patterns and a
+ * model trained on the saved notes. The model is retrained for each note, so it
+ * always reflects the latest corrections. It never rejects.
+ * @param {() => Note[]} getNotes - Returns the saved notes to learn from.
+ * @returns {CategorizationProvider} The categorizer.
+ */
+export function createLocalCategorizer(getNotes: () => Note[]): CategorizationProvider {
+    return {
+        async categorize(text, categories) {
+            const model = trainNaiveBayes(trainingExamples(getNotes(), categories));
+            return categorizeLocally(text, categories, model);
+        },
+    };
+}
@@ -0,0 +1,92 @@
+/**
+ * @file This file is the AudioWorklet processor that captures microphone audio
+ * off the main thread. It resamples the audio from the device's sample rate to
+ * 16 kHz, converts it to 16-bit PCM and posts it to the main thread in fixed-size frames.
+ * It is loaded by `audioCapture.ts` and runs in an AudioWorkletGlobalScope.
+ */
+import { createResampler } from '../utils/resampler';
+import { floatTo16BitPCM, PCM_CAPTURE_PROCESSOR } from '../utils/audioUtils';
+
+// Globals provided by the AudioWorkletGlobalScope, which TypeScript's DOM library doesn't describe.
+declare const sampleRate: number;
+declare abstract class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: AudioWorkletNodeOptions);
+    abstract process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+}
+declare function registerProcessor(name: string, processorCtor: new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+/**
+ * Options passed to the processor through `processorOptions`.
+ */
+export interface PcmCaptureOptions {
+    /** The sample rate to resample to. */
+    targetSampleRate: number;
+    /** The number of samples (at the target rate) in each frame posted to the main thread. */
+    frameSize: number;
+}
+
+/**
+ * Messages posted from the processor to the main thread.
+ */
+export type PcmCaptureMessage =
+    /** A frame of 16-bit PCM audio at the target rate. */
+    | { type: 'frame'; pcm: Int16Array }
+    /** Sent in reply to a `flush` request, after any partial frame has been posted. */
+    | { type: 'flushed' };
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+    private readonly frameSize: number;
+    private readonly resampler: ReturnType<typeof createResampler>;
+    private frame: Int16Array;
+    private frameOffset = 0;
+
+    constructor(options?: AudioWorkletNodeOptions) {
+        super(options);
+        const { targetSampleRate, frameSize } = options?.processorOptions as PcmCaptureOptions;
+        this.frameSize = frameSize;
+        this.resampler = createResampler(sampleRate, targetSampleRate);
+        this.frame = new Int16Array(frameSize);
+
+        this.port.onmessage = (event: MessageEvent) => {
+            if (event.data?.type === 'flush') {
+                this.postFrame();
+                this.port.postMessage({ type: 'flushed' } satisfies PcmCaptureMessage);
+            }
+        };
+    }
+
+    /**
+     * Posts the samples collected so far (if any) and starts a new frame.
+     */
+    private postFrame() {
+        if (this.frameOffset === 0) return;
+        const pcm = this.frameOffset === this.frameSize ? this.frame : this.frame.slice(0, this.frameOffset);
+        this.port.postMessage({ type: 'frame', pcm } satisfies PcmCaptureMessage, [pcm.buffer]);
+        this.frame = new Int16Array(this.frameSize);
+        this.frameOffset = 0;
+    }
+
+    process(inputs: Float32Array[][]): boolean {
+        const channel = inputs[0]?.[0];
+        if (!channel) {
+            return true;
+        }
+
+        const pcm = floatTo16BitPCM(this.resampler.process(channel));
+        let read = 0;
+        while (read < pcm.length) {
+            const count = Math.min(pcm.length - read, this.frameSize - this.frameOffset);
+            this.frame.set(pcm.subarray(read, read + count), this.frameOffset);
+            this.frameOffset += count;
+            read += count;
+            if (this.frameOffset === this.frameSize) {
+                this.postFrame();
+            }
+        }
+        // Keep the processor alive for as long as the node exists.
+        return true;
+    }
+}
+
+registerProcessor(PCM_CAPTURE_PROCESSOR, PcmCaptureProcessor);
@@ -0,0 +1,162 @@
+/**
+ * @file This file implements a transcription provider that keeps a dictation
+ * going across dropped sessions. Live sessions end on network errors and when
+ * they reach the server's duration limit; this wrapper opens a new session in
+ * their place and buffers the audio recorded in between, so no speech is lost.
+ */
+import { Blob } from '@google/genai';
+import { TranscriptionEvent, TranscriptionProvider, createTranscriptionEmitter } from './transcriptionProvider';
+
+/**
+ * Options for a reconnecting provider.
+ */
+export interface ReconnectOptions {
+    /** How many times to try opening a new session before giving up. */
+    maxAttempts?: number;
+    /** The delay before the first attempt; each further attempt waits twice as long. */
+    initialDelayMs?: number;
+    /** The most audio chunks kept while reconnecting. The oldest are dropped beyond this. */
+    maxBufferedChunks?: number;
+}
+
+/** At 100 ms per chunk, this buffers up to two minutes of audio. */
+const DEFAULT_MAX_BUFFERED_CHUNKS = 1200;
+
+/**
+ * Waits for a while.
+ * @param {number} ms - The time to wait, in milliseconds.
+ * @returns {Promise<void>} Resolves after the delay.
+ */
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Wraps a transcription provider so that dropped sessions are replaced automatically.
+ * An `error` event is only emitted once every reconnection attempt has failed.
+ * @param {() => TranscriptionProvider} createProvider - Creates a new, unstarted session.
+ * @param {ReconnectOptions} [options] - How to retry.
+ * @returns {TranscriptionProvider} The provider.
+ */
+export function createReconnectingProvider(createProvider: () => TranscriptionProvider, options: ReconnectOptions = {}): TranscriptionProvider {
+    const { maxAttempts = 5, initialDelayMs = 500, maxBufferedChunks = DEFAULT_MAX_BUFFERED_CHUNKS } = options;
+    const emitter = createTranscriptionEmitter();
+    let current: TranscriptionProvider | null = null;
+    let unsubscribeCurrent: (() => void) | null = null;
+    let isStopped = true;
+    let isReconnecting = false;
+    let buffer: Blob[] = [];
+
+    /**
+     * Detaches from the current session and closes it.
+     */
+    const dropCurrent = () => {
+        unsubscribeCurrent?.();
+        unsubscribeCurrent = null;
+        const provider = current;
+        current = null;
+        provider?.stop().catch(e => console.error("Failed to close transcription session", e));
+    };
+
+    /**
+     * Opens a new session and routes its events through this provider.
+     */
+    const connect = async () => {
+        const provider = createProvider();
+        current = provider;
+        unsubscribeCurrent = provider.subscribe((event) => {
+            if (provider === current) handleEvent(event);
+        });
+        await provider.start();
+    };
+
+    /**
+     * Replaces the current session with a new one, retrying with exponential backoff.
+     */
+    const reconnect = async () => {
+        if (isReconnecting || isStopped) return;
+        isReconnecting = true;
+        emitter.emit({ type: 'reconnecting' });
+        dropCurrent();
+
+        let lastError: unknown = null;
+        for (let attempt = 0; attempt < maxAttempts; attempt++) {
+            await delay(initialDelayMs * 2 ** attempt);
+            if (isStopped) return;
+            try {
+                await connect();
+                const pending = buffer;
+                buffer = [];
+                pending.forEach(chunk => current?.sendAudio(chunk));
+                isReconnecting = false;
+                emitter.emit({ type: 'reconnected' });
+                return;
+            } catch (e) {
+                console.error("Failed to reconnect transcription session", e);
+                lastError = e;
+                dropCurrent();
+            }
+        }
+        isReconnecting = false;
+        buffer = [];
+        emitter.emit({ type: 'error', error: lastError });
+    };
+
+    /**
+     * Handles an event from the current session.
+     * @param {TranscriptionEvent} event - The event.
+     */
+    const handleEvent = (event: TranscriptionEvent) => {
+        switch (event.type) {
+            case 'partial':
+                emitter.emit(event);
+                break;
+            case 'error':
+            case 'close':
+            case 'expiring':
+                // The session ended (or is about to) without being asked to.
+                reconnect();
+                break;
+        }
+    };
+
+    return {
+        get requiresAudio() {
+            return true;
+        },
+        subscribe: emitter.subscribe,
+
+        async start() {
+            isStopped = false;
+            buffer = [];
+            try {
+                await connect();
+            } catch (e) {
+                isStopped = true;
+                dropCurrent();
+                throw e;
+            }
+            emitter.emit({ type: 'open' });
+        },
+
+        sendAudio(audio) {
+            if (isReconnecting || !current) {
+                buffer.push(audio);
+                if (buffer.length > maxBufferedChunks) buffer.shift();
+                return;
+            }
+            current.sendAudio(audio);
+        },
+
+        async stop() {
+            if (isStopped) return;
+            isStopped = true;
+            isReconnecting = false;
+            buffer = [];
+            const provider = current;
+            unsubscribeCurrent?.();
+            unsubscribeCurrent = null;
+            current = null;
+            await provider?.stop();
+            emitter.emit({ type: 'close' });
+        },
+    };
+}
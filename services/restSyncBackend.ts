@@ -0,0 +1,55 @@
+/**
+ * @file This file implements a sync backend that talks to a REST sync API, such
+ * as the one the QuickNotes server provides under `/api/sync`:
+ *
+ *   GET  <url>/changes?since=<cursor>            → { records, cursor }
+ *   POST <url>/changes  { since, records }       → { cursor }, or 409 if other devices pushed since the cursor
+ *
+ * Requests carry the access token as a bearer token.
+ */
+import { SyncRecord, SyncSettings } from '../types';
+import { SyncBackend } from './syncBackend';
+
+/**
+ * Creates a sync backend for a REST sync API.
+ * @param {SyncSettings} settings - The API's URL and the access token.
+ * @returns {SyncBackend} The backend.
+ */
+export function createRestSyncBackend(settings: SyncSettings): SyncBackend {
+    const baseUrl = settings.url.trim().replace(/\/+$/, '');
+    const headers = { Authorization: `Bearer ${settings.token}` };
+
+    /**
+     * Reads the body of a failed response into an error.
+     * @param {Response} response - The response.
+     * @returns {Promise<Error>} The error to throw.
+     */
+    const responseError = async (response: Response): Promise<Error> => {
+        const body = await response.json().catch(() => ({}));
+        if (response.status === 401) return new Error('The sync server did not accept the access token');
+        return new Error(body.error ?? `The sync server answered ${response.status}`);
+    };
+
+    return {
+        id: baseUrl,
+
+        async pull(cursor) {
+            const response = await fetch(`${baseUrl}/changes?since=${encodeURIComponent(cursor ?? '')}`, { headers });
+            if (!response.ok) throw await responseError(response);
+            const body = await response.json();
+            return { records: Array.isArray(body.records) ? body.records : [], cursor: String(body.cursor) };
+        },
+
+        async push(cursor, records: SyncRecord[]) {
+            const response = await fetch(`${baseUrl}/changes`, {
+                method: 'POST',
+                headers: { ...headers, 'Content-Type': 'application/json' },
+                body: JSON.stringify({ since: cursor, records }),
+            });
+            if (response.status === 409) return { accepted: false };
+            if (!response.ok) throw await responseError(response);
+            const body = await response.json();
+            return { accepted: true, cursor: String(body.cursor) };
+        },
+    };
+}
@@ -0,0 +1,113 @@
+/**
+ * @file This file implements a fake transcription provider that replays canned
+ * Gemini Live messages, so the app can run without a network connection or API key.
+ */
+import { LiveServerMessage } from '@google/genai';
+import { TranscriptionProvider, createTranscriptionEmitter, liveMessageToEvents } from './transcriptionProvider';
+
+/**
+ * A single step of a transcription script. Each step runs after waiting `delayMs`
+ * from the previous step.
+ */
+export type ScriptStep =
+    /** Delivers a message as if it came from the Gemini Live API. */
+    | { delayMs: number; message: LiveServerMessage }
+    /** Simulates a session error. */
+    | { delayMs: number; error: string }
+    /** Simulates the server closing the session. */
+    | { delayMs: number; close: true };
+
+/** The dictation replayed when no script is given. */
+const DEFAULT_SCRIPT_TEXT = "Remember to call Sam about the quarterly report by Friday. Also pick up milk on the way home.";
+
+/**
+ * Builds a Live API message carrying a piece of input transcription.
+ * @param {string} text - The transcribed text.
+ * @returns {LiveServerMessage} The message.
+ */
+export function createTranscriptionMessage(text: string): LiveServerMessage {
+    return Object.assign(new LiveServerMessage(), {
+        serverContent: { inputTranscription: { text } },
+    });
+}
+
+/**
+ * Builds a script that dictates the given text a few words at a time.
+ * @param {string} text - The text to dictate.
+ * @param {number} [intervalMs=300] - The delay between chunks.
+ * @param {number} [wordsPerChunk=2] - How many words each chunk carries.
+ * @returns {ScriptStep[]} The script.
+ */
+export function createScriptFromText(text: string, intervalMs = 300, wordsPerChunk = 2): ScriptStep[] {
+    // Keep the whitespace attached to each word, as the Live API does.
+    const words = text.match(/\s*\S+/g) ?? [];
+    const steps: ScriptStep[] = [];
+    for (let i = 0; i < words.length; i += wordsPerChunk) {
+        steps.push({ delayMs: intervalMs, message: createTranscriptionMessage(words.slice(i, i + wordsPerChunk).join('')) });
+    }
+    return steps;
+}
+
+/**
+ * Creates a transcription provider that replays a script of Live API messages.
+ * It doesn't need microphone audio; any audio sent to it is ignored.
+ * The script stops at its last step; the session stays open until `stop` is called
+ * (or until a `close` step runs).
+ *
+ * @param {ScriptStep[]} [script] - The steps to replay. Defaults to a short sample dictation.
+ * @returns {TranscriptionProvider} The provider.
+ */
+export function createScriptedTranscriptionProvider(script: ScriptStep[] = createScriptFromText(DEFAULT_SCRIPT_TEXT)): TranscriptionProvider {
+    const emitter = createTranscriptionEmitter();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let isOpen = false;
+
+    const close = () => {
+        if (timer) {
+            clearTimeout(timer);
+            timer = null;
+        }
+        if (isOpen) {
+            isOpen = false;
+            emitter.emit({ type: 'close' });
+        }
+    };
+
+    const runStep = (index: number) => {
+        const step = script[index];
+        if (!step) {
+            timer = null;
+            return;
+        }
+        timer = setTimeout(() => {
+            if ('message' in step) {
+                liveMessageToEvents(step.message).forEach(emitter.emit);
+            } else if ('error' in step) {
+                emitter.emit({ type: 'error', error: new Error(step.error) });
+            } else {
+                close();
+                return;
+            }
+            runStep(index + 1);
+        }, step.delayMs);
+    };
+
+    return {
+        requiresAudio: false,
+        subscribe: emitter.subscribe,
+
+        async start() {
+            isOpen = true;
+            emitter.emit({ type: 'open' });
+            runStep(0);
+        },
+
+        sendAudio() {
+            // Scripted sessions don't listen to audio.
+        },
+
+        async stop() {
+            close();
+        },
+    };
+}
@@ -0,0 +1,55 @@
+import 'fake-indexeddb/auto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { deleteNote, enableVault, loadNote, loadNotes, loadSettings, saveNote } from './storageService';
+
+/** The localStorage of an older version of the app, with unreadable settings. */
+const legacyStorage = new Map<string, string>([
+    ['quickNotesSettings', '{"categories": ['],
+    ['quickNotesNotes', JSON.stringify([{ id: 'n1', text: 'Buy milk', category: 'Shopping', timestamp: '2024-05-01T10:00:00.000Z' }])],
+]);
+
+describe('migration from localStorage', () => {
+    beforeAll(() => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => legacyStorage.get(key) ?? null,
+            removeItem: (key: string) => legacyStorage.delete(key),
+        });
+    });
+
+    afterAll(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('imports the notes and keeps settings it cannot read', async () => {
+        const notes = await loadNotes();
+        expect(notes).toEqual([{ id: 'n1', text: 'Buy milk', category: 'Shopping', timestamp: new Date('2024-05-01T10:00:00.000Z') }]);
+        expect(await loadSettings()).toBeNull();
+        expect(legacyStorage.has('quickNotesNotes')).toBe(false);
+        expect(legacyStorage.get('quickNotesSettings')).toBe('{"categories": [');
+    });
+});
+
+describe('vault', () => {
+    afterAll(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('keeps a note deleted while the vault is being turned on', async () => {
+        await saveNote({ id: 'n2', text: 'Old news', category: 'Notes', timestamp: new Date('2024-05-02T10:00:00.000Z') });
+        // Delete the note once the re-encryption has read it: the first encryption seals the passphrase check.
+        const encrypt = crypto.subtle.encrypt.bind(crypto.subtle);
+        let encryptions = 0;
+        let deletion: Promise<void> | undefined;
+        vi.spyOn(crypto.subtle, 'encrypt').mockImplementation((...args) => {
+            if (++encryptions === 2) deletion = deleteNote('n2');
+            return encrypt(...args);
+        });
+
+        await enableVault('correct horse battery staple');
+        await deletion;
+        expect(deletion).toBeDefined();
+        expect(await loadNote('n2')).toBeUndefined();
+    });
+});
@@ -0,0 +1,1019 @@
+/**
+ * @file This service persists notes and settings in IndexedDB.
+ * The database schema is versioned: each version has an upgrade step that runs
+ * once when a browser first opens the database at that version. On first use,
+ * data stored by older versions of the app in localStorage is migrated automatically.
+ *
+ * Every save gives the note or settings a new sync change stamp, and every
+ * deleted note leaves a tombstone, so the sync engine can tell what changed.
+ *
+ * With the vault on, notes, settings, tasks, queued webhook deliveries and
+ * recordings are encrypted with a key derived from the user's passphrase. Only
+ * the fields the database itself needs stay readable: ids, the note a task or
+ * delivery belongs to, and a note's time, change stamp and device-local
+ * bookkeeping. The key is kept in memory only, from unlocking the vault until it
+ * is locked again.
+ */
+import { CategorizationStatus, DeliveryStatus, Note, PendingCategorization, SealedValue, SyncRecord, SyncState, Task, Tombstone, UserSettings, VaultConfig, VaultStatus, WebhookDelivery } from '../types';
+import { isStampFrom, laterStamp, nextStamp } from '../utils/syncStamp';
+import { noteToRecord, settingsToRecord, syncedSettings, tombstoneToRecord } from '../utils/syncRecords';
+import { isRecord } from '../utils/validation';
+import { createSalt, deriveVaultKey, openBytes, openJson, PBKDF2_ITERATIONS, sealBytes, sealJson } from '../utils/vaultCrypto';
+
+/** The name of the IndexedDB database. */
+const DB_NAME = 'quickNotes';
+/** The current schema version. Bump this and add an upgrade step to change the schema. */
+const DB_VERSION = 6;
+
+/** Object store holding one record per note, keyed by note id. */
+const NOTES_STORE = 'notes';
+/** Object store holding the user's settings under `SETTINGS_KEY`. */
+const SETTINGS_STORE = 'settings';
+/** Object store for internal bookkeeping, such as whether the localStorage migration has run. */
+const META_STORE = 'meta';
+/** Object store holding recorded audio as blobs, keyed by the `audioId` of the note it belongs to. */
+const AUDIO_STORE = 'audio';
+/** Object store holding the task list, keyed by task id and indexed by the note each task came from. */
+const TASKS_STORE = 'tasks';
+/** Object store holding the webhook delivery queue, keyed by delivery id and indexed by note. */
+const DELIVERIES_STORE = 'webhookDeliveries';
+/** Object store holding the queue of notes waiting to be categorized, keyed by note id. */
+const CATEGORIZATION_STORE = 'pendingCategorizations';
+/** Object store holding a tombstone for each deleted note, keyed by note id. */
+const TOMBSTONES_STORE = 'tombstones';
+
+/**
+ * A record as it is stored while the vault is on: the fields in `K` stay readable
+ * and the rest are encrypted into `sealed`.
+ */
+type SealedRecord<T, K extends keyof T> = Pick<T, K> & { sealed: SealedValue };
+/** A record as it is stored: unencrypted while the vault is off, sealed while it is on. */
+type StoredRecord<T, K extends keyof T> = T | SealedRecord<T, K>;
+/** A note as it is stored. */
+type StoredNote = StoredRecord<Note, typeof PLAIN_NOTE_FIELDS[number]>;
+/** The settings as they are stored. */
+type StoredSettings = StoredRecord<UserSettings, typeof PLAIN_SETTINGS_FIELDS[number]>;
+/** A task as it is stored. */
+type StoredTask = StoredRecord<Task, typeof PLAIN_QUEUED_FIELDS[number]>;
+/** A webhook delivery as it is stored. */
+type StoredDelivery = StoredRecord<WebhookDelivery, typeof PLAIN_QUEUED_FIELDS[number]>;
+/** A recording as it is stored: a blob while the vault is off, its encrypted bytes and type while it is on. */
+type StoredAudio = Blob | { type: string; sealed: SealedValue };
+
+const SETTINGS_KEY = 'user';
+const LOCAL_STORAGE_MIGRATED_KEY = 'localStorageMigrated';
+/** Meta key of this device's id, which makes its change stamps unique. */
+const DEVICE_ID_KEY = 'deviceId';
+/** Meta key of the latest change stamp made or seen on this device. */
+const CLOCK_KEY = 'syncClock';
+/** Meta key of the sync engine's progress. */
+const SYNC_STATE_KEY = 'syncState';
+/** Meta key of the vault's key derivation settings, present while the vault is on. */
+const VAULT_CONFIG_KEY = 'vault';
+/** The value encrypted into `VaultConfig.check`. */
+const VAULT_CHECK = 'quickNotesVault';
+/** The note fields left unencrypted in the vault: those the timestamp index, syncing and in-place status updates read. */
+const PLAIN_NOTE_FIELDS = ['id', 'timestamp', 'changeStamp', 'audioId', 'deliveries', 'categorization'] as const;
+/** The settings fields left unencrypted in the vault. */
+const PLAIN_SETTINGS_FIELDS = ['changeStamp'] as const;
+/** The task and delivery fields left unencrypted in the vault: their key and the note index. */
+const PLAIN_QUEUED_FIELDS = ['id', 'noteId'] as const;
+
+/** How many minutes without activity lock a new vault. */
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+/** The localStorage keys used by versions of the app before IndexedDB. */
+const LEGACY_NOTES_KEY = 'quickNotesNotes';
+const LEGACY_SETTINGS_KEY = 'quickNotesSettings';
+
+/**
+ * Schema upgrade steps, keyed by the version they upgrade to.
+ * Steps run in order, so a new browser runs all of them and an existing one only the missing ones.
+ */
+const upgrades: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+    1: (db) => {
+        const notes = db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+        notes.createIndex('timestamp', 'timestamp');
+        db.createObjectStore(SETTINGS_STORE);
+        db.createObjectStore(META_STORE);
+    },
+    2: (db) => {
+        db.createObjectStore(AUDIO_STORE);
+    },
+    3: (db) => {
+        const tasks = db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+        tasks.createIndex('noteId', 'noteId');
+    },
+    4: (db) => {
+        const deliveries = db.createObjectStore(DELIVERIES_STORE, { keyPath: 'id' });
+        deliveries.createIndex('noteId', 'noteId');
+    },
+    5: (db) => {
+        db.createObjectStore(CATEGORIZATION_STORE, { keyPath: 'noteId' });
+    },
+    6: (db) => {
+        db.createObjectStore(TOMBSTONES_STORE, { keyPath: 'id' });
+    },
+};
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ * @param {IDBRequest<T>} request - The request to wait for.
+ * @returns {Promise<T>} Resolves with the request's result.
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Waits for a transaction to commit.
+ * @param {IDBTransaction} transaction - The transaction to wait for.
+ * @returns {Promise<void>} Resolves when the transaction completes.
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Copies data saved under a localStorage key by an older version of the app into
+ * the database, then removes the key. Data that can't be read is left where it
+ * is, so nothing is lost.
+ * @param {IDBDatabase} db - The open database.
+ * @param {string} key - The localStorage key.
+ * @param {(data: unknown) => boolean} isValid - Checks the parsed data's shape.
+ * @param {(transaction: IDBTransaction, data: unknown) => void} write - Stores the data.
+ * @param {string} storeName - The object store the data is written to.
+ * @returns {Promise<boolean>} True if the key is gone: migrated, or never there.
+ */
+async function migrateLegacyKey(
+    db: IDBDatabase,
+    key: string,
+    isValid: (data: unknown) => boolean,
+    write: (transaction: IDBTransaction, data: unknown) => void,
+    storeName: string,
+): Promise<boolean> {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return true;
+    let data: unknown;
+    try {
+        data = JSON.parse(raw);
+    } catch (e) {
+        console.error(`Failed to migrate ${key} from localStorage`, e);
+        return false;
+    }
+    if (!isValid(data)) {
+        console.error(`Failed to migrate ${key} from localStorage: unexpected data`);
+        return false;
+    }
+    const transaction = db.transaction(storeName, 'readwrite');
+    write(transaction, data);
+    await transactionDone(transaction);
+    localStorage.removeItem(key);
+    return true;
+}
+
+/**
+ * Copies notes and settings saved by older versions of the app from localStorage
+ * into the database, then removes the localStorage keys. Runs until both have
+ * been copied; a key whose data can't be read is kept and tried again next time.
+ * @param {IDBDatabase} db - The open database.
+ */
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const migrated = await requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get(LOCAL_STORAGE_MIGRATED_KEY));
+    if (migrated) {
+        return;
+    }
+
+    const settingsMigrated = await migrateLegacyKey(db, LEGACY_SETTINGS_KEY, isRecord, (transaction, settings) => {
+        transaction.objectStore(SETTINGS_STORE).put(settings, SETTINGS_KEY);
+    }, SETTINGS_STORE);
+    const notesMigrated = await migrateLegacyKey(db, LEGACY_NOTES_KEY, Array.isArray, (transaction, notes) => {
+        const notesStore = transaction.objectStore(NOTES_STORE);
+        (notes as Note[]).forEach(note => {
+            notesStore.put({ ...note, timestamp: new Date(note.timestamp) });
+        });
+    }, NOTES_STORE);
+    if (!settingsMigrated || !notesMigrated) return;
+
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    transaction.objectStore(META_STORE).put(true, LOCAL_STORAGE_MIGRATED_KEY);
+    await transactionDone(transaction);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+/** This device's id, loaded when the database is opened. */
+let deviceId = '';
+/** The latest change stamp made or seen on this device. */
+let latestStamp: string | null = null;
+/** The vault's settings, or null while the vault is off. Loaded when the database is opened. */
+let vaultConfig: VaultConfig | null = null;
+/** The key derived from the passphrase, or null while the vault is locked or off. */
+let vaultKey: CryptoKey | null = null;
+/**
+ * Settles once the latest change to the vault, such as a new passphrase, is stored.
+ * Everything that reads or writes the stores the vault encrypts waits for it first.
+ */
+let vaultChange: Promise<unknown> = Promise.resolve();
+
+/**
+ * Loads this device's id and change clock, creating the id on first use.
+ * @param {IDBDatabase} db - The open database.
+ */
+async function loadClock(db: IDBDatabase): Promise<void> {
+    const meta = db.transaction(META_STORE).objectStore(META_STORE);
+    const [storedId, storedClock] = await Promise.all([
+        requestToPromise(meta.get(DEVICE_ID_KEY)),
+        requestToPromise(meta.get(CLOCK_KEY)),
+    ]);
+    latestStamp = storedClock ?? null;
+    if (storedId) {
+        deviceId = storedId;
+        return;
+    }
+    deviceId = crypto.randomUUID().replace(/-/g, '');
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    transaction.objectStore(META_STORE).put(deviceId, DEVICE_ID_KEY);
+    await transactionDone(transaction);
+}
+
+/**
+ * Creates the change stamp for a change made in a transaction, and records the
+ * advanced clock in the same transaction. The transaction must include the meta store.
+ * @param {IDBTransaction} transaction - The transaction making the change.
+ * @returns {string} The new stamp.
+ */
+function stampChange(transaction: IDBTransaction): string {
+    latestStamp = nextStamp(latestStamp, deviceId);
+    transaction.objectStore(META_STORE).put(latestStamp, CLOCK_KEY);
+    return latestStamp;
+}
+
+/**
+ * Advances the clock past a stamp received from another device, so later local
+ * changes are ordered after it. The transaction must include the meta store.
+ * @param {IDBTransaction} transaction - The transaction storing the received change.
+ * @param {string} stamp - The received stamp.
+ */
+function observeStamp(transaction: IDBTransaction, stamp: string): void {
+    latestStamp = laterStamp(latestStamp, stamp);
+    transaction.objectStore(META_STORE).put(latestStamp, CLOCK_KEY);
+}
+
+/**
+ * Opens the database, upgrading its schema and migrating legacy data as needed.
+ * The connection is shared by all callers.
+ * @returns {Promise<IDBDatabase>} The open database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                const transaction = request.transaction!;
+                for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+                    upgrades[version]?.(db, transaction);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).then(async (db) => {
+            // Let a newer version of the app in another tab upgrade the schema.
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            await migrateFromLocalStorage(db);
+            await loadClock(db);
+            vaultConfig = await requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get(VAULT_CONFIG_KEY)) ?? null;
+            return db;
+        });
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Returns the key to encrypt and decrypt with, once any change to the vault is stored.
+ * @returns {Promise<CryptoKey | null>} The vault key, or null while the vault is off.
+ * @throws {Error} If the vault is locked.
+ */
+async function currentVaultKey(): Promise<CryptoKey | null> {
+    await vaultChange.catch(() => {});
+    if (!vaultConfig) return null;
+    if (!vaultKey) throw new Error("The vault is locked");
+    return vaultKey;
+}
+
+/**
+ * Turns a record into the form it is stored in, encrypting all but some fields.
+ * @param {T} record - The record.
+ * @param {readonly K[]} plainFields - The fields to leave readable.
+ * @param {CryptoKey | null} key - The vault key, or null to store the record as it is.
+ * @returns {Promise<StoredRecord<T, K>>} The stored form.
+ */
+async function sealRecord<T extends object, K extends keyof T>(record: T, plainFields: readonly K[], key: CryptoKey | null): Promise<StoredRecord<T, K>> {
+    if (!key) return record;
+    const plain: Partial<Pick<T, K>> = {};
+    const secret: Partial<T> = { ...record };
+    plainFields.forEach(field => {
+        if (record[field] !== undefined) plain[field] = record[field];
+        delete secret[field];
+    });
+    return { ...plain as Pick<T, K>, sealed: await sealJson(key, secret) };
+}
+
+/**
+ * Tells whether a stored record is encrypted.
+ * @param {StoredRecord<T, K>} stored - The stored form.
+ * @returns {boolean} True if the record was stored while the vault was on.
+ */
+function isSealed<T, K extends keyof T>(stored: StoredRecord<T, K>): stored is SealedRecord<T, K> {
+    return (stored as Partial<SealedRecord<T, K>>).sealed !== undefined;
+}
+
+/**
+ * Restores a record from the form it is stored in.
+ * @param {StoredRecord<T, K>} stored - The stored form.
+ * @param {CryptoKey | null} key - The vault key, or null while the vault is off.
+ * @returns {Promise<T>} The record.
+ * @throws {Error} If the record is encrypted and the key is missing or wrong.
+ */
+async function openRecord<T extends object, K extends keyof T>(stored: StoredRecord<T, K>, key: CryptoKey | null): Promise<T> {
+    if (!isSealed(stored)) return stored;
+    if (!key) throw new Error("The vault is locked");
+    const { sealed, ...plain } = stored;
+    // What was encrypted is exactly what `sealRecord` left out of the plain fields.
+    return { ...await openJson(key, sealed) as Omit<T, K>, ...plain } as T;
+}
+
+/**
+ * Turns a recording into the form it is stored in.
+ * @param {Blob} audio - The encoded audio.
+ * @param {CryptoKey | null} key - The vault key, or null to store the recording as it is.
+ * @returns {Promise<StoredAudio>} The stored form.
+ */
+async function sealAudio(audio: Blob, key: CryptoKey | null): Promise<StoredAudio> {
+    if (!key) return audio;
+    return { type: audio.type, sealed: await sealBytes(key, await audio.arrayBuffer()) };
+}
+
+/**
+ * Restores a recording from the form it is stored in.
+ * @param {StoredAudio} stored - The stored form.
+ * @param {CryptoKey | null} key - The vault key, or null while the vault is off.
+ * @returns {Promise<Blob>} The encoded audio.
+ * @throws {Error} If the recording is encrypted and the key is missing or wrong.
+ */
+async function openAudio(stored: StoredAudio, key: CryptoKey | null): Promise<Blob> {
+    if (stored instanceof Blob) return stored;
+    if (!key) throw new Error("The vault is locked");
+    return new Blob([await openBytes(key, stored.sealed)], { type: stored.type });
+}
+
+/**
+ * Turns a note into the form it is stored in, encrypting all but `PLAIN_NOTE_FIELDS`.
+ * @param {Note} note - The note.
+ * @param {CryptoKey | null} key - The vault key, or null to store the note as it is.
+ * @returns {Promise<StoredNote>} The stored form.
+ */
+const sealNote = (note: Note, key: CryptoKey | null): Promise<StoredNote> => sealRecord(note, PLAIN_NOTE_FIELDS, key);
+
+/**
+ * Turns the settings into the form they are stored in, encrypting all but the change stamp.
+ * @param {UserSettings} settings - The settings.
+ * @param {CryptoKey | null} key - The vault key, or null to store the settings as they are.
+ * @returns {Promise<StoredSettings>} The stored form.
+ */
+const sealSettings = (settings: UserSettings, key: CryptoKey | null): Promise<StoredSettings> => sealRecord(settings, PLAIN_SETTINGS_FIELDS, key);
+
+/**
+ * Loads all saved notes, newest first.
+ * @returns {Promise<Note[]>} The saved notes.
+ */
+export async function loadNotes(): Promise<Note[]> {
+    const db = await openDatabase();
+    const key = await currentVaultKey();
+    const notes = await requestToPromise<StoredNote[]>(db.transaction(NOTES_STORE).objectStore(NOTES_STORE).index('timestamp').getAll());
+    return Promise.all(notes.reverse().map(note => openRecord(note, key)));
+}
+
+/**
+ * Saves a single note, replacing any note with the same id.
+ * @param {Note} note - The note to save.
+ */
+export async function saveNote(note: Note): Promise<void> {
+    await saveNotes([note]);
+}
+
+/**
+ * Saves several notes in one transaction, giving each a new change stamp.
+ * @param {Note[]} notes - The notes to save.
+ */
+export async function saveNotes(notes: Note[]): Promise<void> {
+    if (notes.length === 0) return;
+    const db = await openDatabase();
+    const key = await currentVaultKey();
+    // Encrypt first: the transaction would commit while waiting for the crypto.
+    const stored = await Promise.all(notes.map(note => sealNote(note, key)));
+    const transaction = db.transaction([NOTES_STORE, TOMBSTONES_STORE, META_STORE], 'readwrite');
+    const store = transaction.objectStore(NOTES_STORE);
+    const tombstones = transaction.objectStore(TOMBSTONES_STORE);
+    stored.forEach(note => {
+        store.put({ ...note, changeStamp: stampChange(transaction) });
+        // A note saved again after being deleted, e.g. by an import, is no longer deleted.
+        tombstones.delete(note.id);
+    });
+    await transactionDone(transaction);
+}
+
+/**
+ * Saves a note merged with another device's version of it. The clock is first
+ * advanced past that version's stamp, so the merged note is stamped later and
+ * replaces it on the sync server, even if this device's clock is behind.
+ * @param {Note} note - The merged note.
+ * @param {string} remoteStamp - The change stamp of the other device's version.
+ */
+export async function saveMergedNote(note: Note, remoteStamp: string): Promise<void> {
+    const db = await openDatabase();
+    const stored = await sealNote(note, await currentVaultKey());
+    const transaction = db.transaction([NOTES_STORE, TOMBSTONES_STORE, META_STORE], 'readwrite');
+    observeStamp(transaction, remoteStamp);
+    transaction.objectStore(NOTES_STORE).put({ ...stored, changeStamp: stampChange(transaction) });
+    transaction.objectStore(TOMBSTONES_STORE).delete(note.id);
+    await transactionDone(transaction);
+}
+
+/**
+ * Records how far delivery of a note to a webhook target has got.
+ * Does nothing if the note has been deleted.
+ * @param {string} noteId - The id of the note.
+ * @param {string} targetId - The id of the webhook target.
+ * @param {DeliveryStatus} status - The delivery status.
+ */
+export async function saveNoteDeliveryStatus(noteId: string, targetId: string, status: DeliveryStatus): Promise<void> {
+    const db = await openDatabase();
+    await vaultChange.catch(() => {});
+    const transaction = db.transaction(NOTES_STORE, 'readwrite');
+    const notes = transaction.objectStore(NOTES_STORE);
+    const request = notes.get(noteId);
+    request.onsuccess = () => {
+        const note: StoredNote | undefined = request.result;
+        if (note) {
+            notes.put({ ...note, deliveries: { ...note.deliveries, [targetId]: status } });
+        }
+    };
+    await transactionDone(transaction);
+}
+
+/**
+ * Records whether a saved note is still waiting to be categorized, without touching the rest of it.
+ * @param {string} noteId - The id of the note.
+ * @param {CategorizationStatus | undefined} status - The new status, or undefined once the note is categorized.
+ */
+export async function saveNoteCategorizationStatus(noteId: string, status: CategorizationStatus | undefined): Promise<void> {
+    const db = await openDatabase();
+    await vaultChange.catch(() => {});
+    const transaction = db.transaction(NOTES_STORE, 'readwrite');
+    const notes = transaction.objectStore(NOTES_STORE);
+    const request = notes.get(noteId);
+    request.onsuccess = () => {
+        const note: StoredNote | undefined = request.result;
+        if (note) {
+            notes.put({ ...note, categorization: status });
+        }
+    };
+    await transactionDone(transaction);
+}
+
+/** The stores a note deletion touches. */
+const DELETE_NOTE_STORES = [NOTES_STORE, AUDIO_STORE, TASKS_STORE, DELIVERIES_STORE, CATEGORIZATION_STORE, TOMBSTONES_STORE, META_STORE];
+
+/**
+ * Deletes a note by its id, along with its recorded audio, the tasks extracted from it,
+ * any webhook deliveries still queued for it and its place in the categorization queue.
+ * A tombstone is left behind so the deletion can be synced.
+ * @param {string} id - The id of the note to delete.
+ */
+export async function deleteNote(id: string): Promise<void> {
+    const db = await openDatabase();
+    await vaultChange.catch(() => {});
+    const transaction = db.transaction(DELETE_NOTE_STORES, 'readwrite');
+    removeNote(transaction, id, stampChange(transaction));
+    await transactionDone(transaction);
+}
+
+/**
+ * Removes a note and everything belonging to it within a transaction, and records its tombstone.
+ * @param {IDBTransaction} transaction - A read-write transaction over `DELETE_NOTE_STORES`.
+ * @param {string} id - The id of the note.
+ * @param {string} stamp - The change stamp of the deletion.
+ */
+function removeNote(transaction: IDBTransaction, id: string, stamp: string): void {
+    const tombstone: Tombstone = { id, stamp };
+    transaction.objectStore(TOMBSTONES_STORE).put(tombstone);
+    transaction.objectStore(CATEGORIZATION_STORE).delete(id);
+    const tasks = transaction.objectStore(TASKS_STORE);
+    const taskKeys = tasks.index('noteId').getAllKeys(id);
+    taskKeys.onsuccess = () => taskKeys.result.forEach(key => tasks.delete(key));
+    const deliveries = transaction.objectStore(DELIVERIES_STORE);
+    const deliveryKeys = deliveries.index('noteId').getAllKeys(id);
+    deliveryKeys.onsuccess = () => deliveryKeys.result.forEach(key => deliveries.delete(key));
+    const notes = transaction.objectStore(NOTES_STORE);
+    const request = notes.get(id);
+    request.onsuccess = () => {
+        const note: StoredNote | undefined = request.result;
+        if (note?.audioId) {
+            transaction.objectStore(AUDIO_STORE).delete(note.audioId);
+        }
+        notes.delete(id);
+    };
+}
+
+/**
+ * Loads the task list.
+ * @returns {Promise<Task[]>} All tasks, in no particular order.
+ */
+export async function loadTasks(): Promise<Task[]> {
+    const db = await openDatabase();
+    const key = await currentVaultKey();
+    const tasks = await requestToPromise<StoredTask[]>(db.transaction(TASKS_STORE).objectStore(TASKS_STORE).getAll());
+    return Promise.all(tasks.map(task => openRecord(task, key)));
+}
+
+/**
+ * Saves several tasks in one transaction, replacing any tasks with the same ids.
+ * @param {Task[]} tasks - The tasks to save.
+ */
+export async function saveTasks(tasks: Task[]): Promise<void> {
+    if (tasks.length === 0) return;
+    const db = await openDatabase();
+    const key = await currentVaultKey();
+    const stored = await Promise.all(tasks.map(task => sealRecord(task, PLAIN_QUEUED_FIELDS, key)));
+    const transaction = db.transaction(TASKS_STORE, 'readwrite');
+    const store = transaction.objectStore(TASKS_STORE);
+    stored.forEach(task => store.put(task));
+    await transactionDone(transaction);
+}
+
+/**
+ * Deletes a task.
+ * @param {string} id - The id of the task.
+ */
+export async function deleteTask(id: string): Promise<void> {
+    const db = await openDatabase();
+    await vaultChange.catch(() => {});
+    const transaction = db.transaction(TASKS_STORE, 'readwrite');
+    transaction.objectStore(TASKS_STORE).delete(id);
+    await transactionDone(transaction);
+}
+
+/**
+ * Loads the webhook delivery queue.
+ * @returns {Promise<WebhookDelivery[]>} All queued and failed deliveries, in no particular order.
+ */
+export async function loadDeliveries(): Promise<WebhookDelivery[]> {
+    const db = await openDatabase();
+    const key = await currentVaultKey();
+    const deliveries = await requestToPromise<StoredDelivery[]>(db.transaction(DELIVERIES_STORE).objectStore(DELIVERIES_STORE).getAll());
+    return Promise.all(deliveries.map(delivery => openRecord(delivery, key)));
+}
+
+/**
+ * Saves several webhook deliveries in one transaction, replacing any with the same ids.
+ * @param {WebhookDelivery[]} deliveries - The deliveries to save.
+ */
+export async function saveDeliveries(deliveries: WebhookDelivery[]): Promise<void> {
+    if (deliveries.length === 0) return;
+    const db = await openDatabase();
+    const key = await currentVaultKey();
+    const stored = await Promise.all(deliveries.map(delivery => sealRecord(delivery, PLAIN_QUEUED_FIELDS, key)));
+    const transaction = db.transaction(DELIVERIES_STORE, 'readwrite');
+    const store = transaction.objectStore(DELIVERIES_STORE);
+    stored.forEach(delivery => store.put(delivery));
+    await transactionDone(transaction);
+}
+
+/**
+ * Removes a webhook delivery from the queue.
+ * @param {string} id - The id of the delivery.
+ */
+export async function deleteDelivery(id: string): Promise<void> {
+    const db = await openDatabase();
+    await vaultChange.catch(() => {});
+    const transaction = db.transaction(DELIVERIES_STORE, 'readwrite');
+    transaction.objectStore(DELIVERIES_STORE).delete(id);
+    await transactionDone(transaction);
+}
+
+/**
+ * Loads the queue of notes waiting to be categorized.
+ * @returns {Promise<PendingCategorization[]>} All queued and failed entries, in no particular order.
+ */
+export async function loadPendingCategorizations(): Promise<PendingCategorization[]> {
+    const db = await openDatabase();
+    return requestToPromise<PendingCategorization[]>(db.transaction(CATEGORIZATION_STORE).objectStore(CATEGORIZATION_STORE).getAll());
+}
+
+/**
+ * Saves an entry in the categorization queue, replacing any entry for the same note.
+ * @param {PendingCategorization} entry - The entry to save.
+ */
+export async function savePendingCategorization(entry: PendingCategorization): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(CATEGORIZATION_STORE, 'readwrite');
+    transaction.objectStore(CATEGORIZATION_STORE).put(entry);
+    await transactionDone(transaction);
+}
+
+/**
+ * Removes a note from the categorization queue.
+ * @param {string} noteId - The id of the note.
+ */
+export async function deletePendingCategorization(noteId: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(CATEGORIZATION_STORE, 'readwrite');
+    transaction.objectStore(CATEGORIZATION_STORE).delete(noteId);
+    await transactionDone(transaction);
+}
+
+/**
+ * Saves a recording.
+ * @param {string} id - The id to store the recording under.
+ * @param {Blob} audio - The encoded audio.
+ */
+export async function saveAudio(id: string, audio: Blob): Promise<void> {
+    const db = await openDatabase();
+    const stored = await sealAudio(audio, await currentVaultKey());
+    const transaction = db.transaction(AUDIO_STORE, 'readwrite');
+    transaction.objectStore(AUDIO_STORE).put(stored, id);
+    await transactionDone(transaction);
+}
+
+/**
+ * Loads a recording.
+ * @param {string} id - The id of the recording.
+ * @returns {Promise<Blob | null>} The encoded audio, or null if it doesn't exist.
+ */
+export async function loadAudio(id: string): Promise<Blob | null> {
+    const db = await openDatabase();
+    const key = await currentVaultKey();
+    const audio = await requestToPromise<StoredAudio | undefined>(db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).get(id));
+    return audio ? openAudio(audio, key) : null;
+}
+
+/**
+ * Deletes a recording.
+ * @param {string} id - The id of the recording.
+ */
+export async function deleteAudio(id: string): Promise<void> {
+    const db = await openDatabase();
+    await vaultChange.catch(() => {});
+    const transaction = db.transaction(AUDIO_STORE, 'readwrite');
+    transaction.objectStore(AUDIO_STORE).delete(id);
+    await transactionDone(transaction);
+}
+
+/**
+ * Loads the user's settings.
+ * @returns {Promise<UserSettings | null>} The stored settings, or null if none have been saved yet.
+ */
+export async function loadSettings(): Promise<UserSettings | null> {
+    const db = await openDatabase();
+    const key = await currentVaultKey();
+    const settings = await requestToPromise<StoredSettings | undefined>(db.transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE).get(SETTINGS_KEY));
+    return settings ? openRecord(settings, key) : null;
+}
+
+/**
+ * Saves the user's settings. They get a new change stamp only if something that
+ * is synced changed, so editing the sync connection alone isn't sent to other devices.
+ * @param {UserSettings} settings - The settings to save.
+ */
+export async function saveSettings(settings: UserSettings): Promise<void> {
+    const db = await openDatabase();
+    const key = await currentVaultKey();
+    const [stored, sealed] = await Promise.all([loadSettings(), sealSettings(settings, key)]);
+    const isUnchanged = stored?.changeStamp
+        && JSON.stringify(syncedSettings(stored)) === JSON.stringify(syncedSettings(settings));
+    const transaction = db.transaction([SETTINGS_STORE, META_STORE], 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).put({ ...sealed, changeStamp: isUnchanged ? stored.changeStamp : stampChange(transaction) }, SETTINGS_KEY);
+    await transactionDone(transaction);
+}
+
+/**
+ * Loads a single note.
+ * @param {string} id - The id of the note.
+ * @returns {Promise<Note | undefined>} The note, or undefined if it doesn't exist.
+ */
+export async function loadNote(id: string): Promise<Note | undefined> {
+    const db = await openDatabase();
+    const key = await currentVaultKey();
+    const note = await requestToPromise<StoredNote | undefined>(db.transaction(NOTES_STORE).objectStore(NOTES_STORE).get(id));
+    return note ? openRecord(note, key) : undefined;
+}
+
+/**
+ * Loads the tombstone of a deleted note.
+ * @param {string} id - The id of the note.
+ * @returns {Promise<Tombstone | undefined>} The tombstone, or undefined if the note wasn't deleted.
+ */
+export async function loadTombstone(id: string): Promise<Tombstone | undefined> {
+    const db = await openDatabase();
+    return requestToPromise<Tombstone | undefined>(db.transaction(TOMBSTONES_STORE).objectStore(TOMBSTONES_STORE).get(id));
+}
+
+/**
+ * Returns this device's id, which ends each change stamp it makes.
+ * @returns {Promise<string>} The id.
+ */
+export async function getDeviceId(): Promise<string> {
+    await openDatabase();
+    return deviceId;
+}
+
+/**
+ * Loads how far this device has synced.
+ * @returns {Promise<SyncState | null>} The sync state, or null if the device has never synced.
+ */
+export async function loadSyncState(): Promise<SyncState | null> {
+    const db = await openDatabase();
+    const state = await requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get(SYNC_STATE_KEY));
+    return state ?? null;
+}
+
+/**
+ * Saves how far this device has synced.
+ * @param {SyncState} state - The sync state.
+ */
+export async function saveSyncState(state: SyncState): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    transaction.objectStore(META_STORE).put(state, SYNC_STATE_KEY);
+    await transactionDone(transaction);
+}
+
+/**
+ * Collects the changes to send to the sync server: notes, deletions and settings
+ * this device changed after a given stamp. Records saved before change stamps
+ * existed are stamped now, so they are sent too.
+ * @param {string | null} since - The latest stamp already sent, or null to collect every record.
+ * @returns {Promise<SyncRecord[]>} The changed records.
+ */
+export async function loadLocalChanges(since: string | null): Promise<SyncRecord[]> {
+    const db = await openDatabase();
+    const key = await currentVaultKey();
+    const reading = db.transaction([NOTES_STORE, TOMBSTONES_STORE, SETTINGS_STORE]);
+    // Notes and settings are read in their stored form, whose change stamp is never encrypted.
+    const [notes, tombstones, storedSettings] = await Promise.all([
+        requestToPromise<StoredNote[]>(reading.objectStore(NOTES_STORE).getAll()),
+        requestToPromise<Tombstone[]>(reading.objectStore(TOMBSTONES_STORE).getAll()),
+        requestToPromise<StoredSettings | undefined>(reading.objectStore(SETTINGS_STORE).get(SETTINGS_KEY)),
+    ]);
+
+    const unstampedNotes = notes.filter(note => !note.changeStamp);
+    let settings = storedSettings;
+    if (unstampedNotes.length > 0 || (settings && !settings.changeStamp)) {
+        const writing = db.transaction([NOTES_STORE, SETTINGS_STORE, META_STORE], 'readwrite');
+        unstampedNotes.forEach(note => {
+            note.changeStamp = stampChange(writing);
+            writing.objectStore(NOTES_STORE).put(note);
+        });
+        if (settings && !settings.changeStamp) {
+            settings = { ...settings, changeStamp: stampChange(writing) };
+            writing.objectStore(SETTINGS_STORE).put(settings, SETTINGS_KEY);
+        }
+        await transactionDone(writing);
+    }
+
+    const isChanged = (stamp: string | undefined) =>
+        Boolean(stamp) && (since === null || (isStampFrom(stamp, deviceId) && stamp! > since));
+    const changedNotes = await Promise.all(notes.filter(note => isChanged(note.changeStamp)).map(note => openRecord(note, key)));
+    const changedSettings = settings && isChanged(settings.changeStamp) ? [await openRecord(settings, key)] : [];
+    return [
+        ...changedNotes.map(noteToRecord),
+        ...tombstones.filter(tombstone => isChanged(tombstone.stamp)).map(tombstoneToRecord),
+        ...changedSettings.map(settingsToRecord),
+    ];
+}
+
+/**
+ * Stores a note received from the sync server, keeping its change stamp.
+ * @param {Note} note - The note, with the stamp it was changed with.
+ */
+export async function applySyncedNote(note: Note): Promise<void> {
+    const db = await openDatabase();
+    const stored = await sealNote(note, await currentVaultKey());
+    const transaction = db.transaction([NOTES_STORE, TOMBSTONES_STORE, META_STORE], 'readwrite');
+    transaction.objectStore(NOTES_STORE).put(stored);
+    transaction.objectStore(TOMBSTONES_STORE).delete(note.id);
+    observeStamp(transaction, note.changeStamp!);
+    await transactionDone(transaction);
+}
+
+/**
+ * Deletes a note that was deleted on another device, keeping the deletion's change stamp.
+ * @param {string} id - The id of the note.
+ * @param {string} stamp - The change stamp of the deletion.
+ */
+export async function applySyncedDeletion(id: string, stamp: string): Promise<void> {
+    const db = await openDatabase();
+    await vaultChange.catch(() => {});
+    const transaction = db.transaction(DELETE_NOTE_STORES, 'readwrite');
+    removeNote(transaction, id, stamp);
+    observeStamp(transaction, stamp);
+    await transactionDone(transaction);
+}
+
+/**
+ * Stores settings received from the sync server, keeping their change stamp.
+ * @param {UserSettings} settings - The settings, with the stamp they were changed with.
+ */
+export async function applySyncedSettings(settings: UserSettings): Promise<void> {
+    const db = await openDatabase();
+    const stored = await sealSettings(settings, await currentVaultKey());
+    const transaction = db.transaction([SETTINGS_STORE, META_STORE], 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).put(stored, SETTINGS_KEY);
+    observeStamp(transaction, settings.changeStamp!);
+    await transactionDone(transaction);
+}
+
+/**
+ * Tells whether the vault is on and whether it needs unlocking.
+ * @returns {Promise<VaultStatus>} The vault's status.
+ */
+export async function getVaultStatus(): Promise<VaultStatus> {
+    await openDatabase();
+    await vaultChange.catch(() => {});
+    return {
+        enabled: vaultConfig !== null,
+        locked: vaultConfig !== null && vaultKey === null,
+        autoLockMinutes: vaultConfig?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+    };
+}
+
+/**
+ * Derives the key for a passphrase and checks it against the vault.
+ * @param {string} passphrase - The passphrase.
+ * @param {VaultConfig} config - The vault's settings.
+ * @returns {Promise<CryptoKey | null>} The key, or null if the passphrase is wrong.
+ */
+async function deriveCheckedKey(passphrase: string, config: VaultConfig): Promise<CryptoKey | null> {
+    const key = await deriveVaultKey(passphrase, config.salt, config.iterations);
+    try {
+        return await openJson(key, config.check) === VAULT_CHECK ? key : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Creates the settings and key of a vault with a new passphrase.
+ * @param {string} passphrase - The passphrase.
+ * @param {number} autoLockMinutes - The auto-lock timeout to keep.
+ * @returns {Promise<{ config: VaultConfig; key: CryptoKey }>} The vault's settings and key.
+ */
+async function createVault(passphrase: string, autoLockMinutes: number): Promise<{ config: VaultConfig; key: CryptoKey }> {
+    const salt = createSalt();
+    const key = await deriveVaultKey(passphrase, salt, PBKDF2_ITERATIONS);
+    return { config: { salt, iterations: PBKDF2_ITERATIONS, check: await sealJson(key, VAULT_CHECK), autoLockMinutes }, key };
+}
+
+/** The stores whose records the vault encrypts. */
+const VAULT_STORES = [NOTES_STORE, SETTINGS_STORE, TASKS_STORE, DELIVERIES_STORE, AUDIO_STORE];
+
+/**
+ * Re-encrypts every note, task, delivery and recording and the settings, and stores
+ * the vault's new settings in the same transaction, so the data and the settings
+ * to unlock it never disagree. Other reads and writes wait until it is done.
+ * @param {CryptoKey | null} from - The current key, or null while the vault is off.
+ * @param {VaultConfig | null} config - The new settings, or null to turn the vault off.
+ * @param {CryptoKey | null} to - The new key, or null to turn the vault off.
+ */
+async function reencryptVault(from: CryptoKey | null, config: VaultConfig | null, to: CryptoKey | null): Promise<void> {
+    const change = vaultChange.catch(() => {}).then(async () => {
+        const db = await openDatabase();
+        const reading = db.transaction(VAULT_STORES);
+        const [notes, settings, tasks, deliveries, audioIds, audio] = await Promise.all([
+            requestToPromise<StoredNote[]>(reading.objectStore(NOTES_STORE).getAll()),
+            requestToPromise<StoredSettings | undefined>(reading.objectStore(SETTINGS_STORE).get(SETTINGS_KEY)),
+            requestToPromise<StoredTask[]>(reading.objectStore(TASKS_STORE).getAll()),
+            requestToPromise<StoredDelivery[]>(reading.objectStore(DELIVERIES_STORE).getAll()),
+            requestToPromise(reading.objectStore(AUDIO_STORE).getAllKeys()),
+            requestToPromise<StoredAudio[]>(reading.objectStore(AUDIO_STORE).getAll()),
+        ]);
+        const sealedNotes = await Promise.all(notes.map(async note => sealNote(await openRecord(note, from), to)));
+        const sealedSettings = settings ? await sealSettings(await openRecord(settings, from), to) : null;
+        const sealedTasks = await Promise.all(tasks.map(async task => sealRecord(await openRecord(task, from), PLAIN_QUEUED_FIELDS, to)));
+        const sealedDeliveries = await Promise.all(deliveries.map(async delivery => sealRecord(await openRecord(delivery, from), PLAIN_QUEUED_FIELDS, to)));
+        // One recording at a time, since long ones take a lot of memory once decrypted.
+        const sealedAudio: StoredAudio[] = [];
+        for (const recording of audio) {
+            sealedAudio.push(await sealAudio(await openAudio(recording, from), to));
+        }
+
+        const writing = db.transaction([...VAULT_STORES, META_STORE], 'readwrite');
+        sealedNotes.forEach(note => writing.objectStore(NOTES_STORE).put(note));
+        if (sealedSettings) writing.objectStore(SETTINGS_STORE).put(sealedSettings, SETTINGS_KEY);
+        sealedTasks.forEach(task => writing.objectStore(TASKS_STORE).put(task));
+        sealedDeliveries.forEach(delivery => writing.objectStore(DELIVERIES_STORE).put(delivery));
+        sealedAudio.forEach((recording, index) => writing.objectStore(AUDIO_STORE).put(recording, audioIds[index]));
+        if (config) {
+            writing.objectStore(META_STORE).put(config, VAULT_CONFIG_KEY);
+        } else {
+            writing.objectStore(META_STORE).delete(VAULT_CONFIG_KEY);
+        }
+        await transactionDone(writing);
+        vaultConfig = config;
+        vaultKey = to;
+    });
+    vaultChange = change;
+    await change;
+}
+
+/**
+ * Unlocks the vault, so notes, settings, tasks and recordings can be read and saved.
+ * @param {string} passphrase - The passphrase.
+ * @returns {Promise<boolean>} False if the passphrase is wrong.
+ */
+export async function unlockVault(passphrase: string): Promise<boolean> {
+    await openDatabase();
+    await vaultChange.catch(() => {});
+    if (!vaultConfig) return true;
+    const key = await deriveCheckedKey(passphrase, vaultConfig);
+    if (!key) return false;
+    vaultKey = key;
+    return true;
+}
+
+/**
+ * Locks the vault by forgetting its key. Reading or saving anything the vault
+ * encrypts fails until it is unlocked again.
+ */
+export function lockVault(): void {
+    vaultKey = null;
+}
+
+/**
+ * Turns the vault on, encrypting everything it covers with a key derived from a passphrase.
+ * The vault is unlocked afterwards.
+ * @param {string} passphrase - The passphrase.
+ */
+export async function enableVault(passphrase: string): Promise<void> {
+    const { config, key } = await createVault(passphrase, DEFAULT_AUTO_LOCK_MINUTES);
+    await reencryptVault(null, config, key);
+}
+
+/**
+ * Changes the vault's passphrase, re-encrypting everything with the new key.
+ * @param {string} current - The current passphrase.
+ * @param {string} next - The new passphrase.
+ * @returns {Promise<boolean>} False if the current passphrase is wrong.
+ */
+export async function changeVaultPassphrase(current: string, next: string): Promise<boolean> {
+    const status = await getVaultStatus();
+    if (!status.enabled) return false;
+    const from = await deriveCheckedKey(current, vaultConfig!);
+    if (!from) return false;
+    const { config, key } = await createVault(next, status.autoLockMinutes);
+    await reencryptVault(from, config, key);
+    return true;
+}
+
+/**
+ * Turns the vault off, storing everything unencrypted again.
+ * @param {string} passphrase - The current passphrase.
+ * @returns {Promise<boolean>} False if the passphrase is wrong.
+ */
+export async function disableVault(passphrase: string): Promise<boolean> {
+    const status = await getVaultStatus();
+    if (!status.enabled) return true;
+    const from = await deriveCheckedKey(passphrase, vaultConfig!);
+    if (!from) return false;
+    await reencryptVault(from, null, null);
+    return true;
+}
+
+/**
+ * Sets how long the vault stays unlocked without activity.
+ * @param {number} minutes - The timeout in minutes, or 0 to never lock the vault by itself.
+ */
+export async function saveVaultAutoLock(minutes: number): Promise<void> {
+    const db = await openDatabase();
+    await vaultChange.catch(() => {});
+    if (!vaultConfig) return;
+    const config = { ...vaultConfig, autoLockMinutes: minutes };
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    transaction.objectStore(META_STORE).put(config, VAULT_CONFIG_KEY);
+    await transactionDone(transaction);
+    vaultConfig = config;
+}
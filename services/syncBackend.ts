@@ -0,0 +1,51 @@
+/**
+ * @file This file defines the interface the sync engine uses to talk to a sync
+ * server. The server keeps a log of changes; each device pulls what changed since
+ * its cursor and pushes its own changes. Any server that keeps this contract can
+ * be plugged in; `createRestSyncBackend` talks to the QuickNotes server's sync API.
+ */
+import { SyncRecord } from '../types';
+
+/**
+ * The changes pulled from a sync server.
+ */
+export interface SyncPullResult {
+    /** The records that changed since the cursor, each in its latest version. */
+    records: SyncRecord[];
+    /** The server's position in its change log, to pull from next time. */
+    cursor: string;
+}
+
+/**
+ * The server's answer to a push. A push is turned down if other devices pushed
+ * changes after the cursor it was based on; the device then pulls those first,
+ * so it can merge them before pushing again.
+ */
+export type SyncPushResult =
+    /** The records were stored. */
+    | { accepted: true; cursor: string }
+    /** Other devices pushed changes the device hasn't seen yet. */
+    | { accepted: false };
+
+/**
+ * A sync server.
+ */
+export interface SyncBackend {
+    /** Identifies the server, so that switching servers syncs everything again. */
+    readonly id: string;
+    /**
+     * Fetches the records changed since a cursor.
+     * @param {string | null} cursor - The cursor from the last sync, or null for every record.
+     * @returns {Promise<SyncPullResult>} The changed records and the new cursor.
+     * @throws {Error} If the server can't be reached or refuses the request.
+     */
+    pull(cursor: string | null): Promise<SyncPullResult>;
+    /**
+     * Sends records changed on this device.
+     * @param {string | null} cursor - The cursor of the pull the records were merged with.
+     * @param {SyncRecord[]} records - The changed records.
+     * @returns {Promise<SyncPushResult>} Whether the records were stored.
+     * @throws {Error} If the server can't be reached or refuses the request.
+     */
+    push(cursor: string | null, records: SyncRecord[]): Promise<SyncPushResult>;
+}
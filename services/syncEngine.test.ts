@@ -0,0 +1,99 @@
+import 'fake-indexeddb/auto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { openSyncStore, SyncStore } from '../server/syncStore';
+import { Note, SyncStatus } from '../types';
+import { formatStamp } from '../utils/syncStamp';
+import { createSyncEngine } from './syncEngine';
+import { SyncBackend } from './syncBackend';
+import { loadNote, saveNote } from './storageService';
+
+/** When this device's clock says the note was edited here. */
+const LOCAL_TIME = Date.UTC(2026, 0, 1, 12);
+/** An hour later: the other device's clock is ahead of this one's. */
+const REMOTE_TIME = LOCAL_TIME + 60 * 60 * 1000;
+
+/**
+ * Creates a backend that talks to a sync store directly, as the REST API would.
+ * @param {SyncStore} store - The store.
+ * @returns {SyncBackend} The backend.
+ */
+function storeBackend(store: SyncStore): SyncBackend {
+    return {
+        id: 'test',
+        async pull(cursor) {
+            const { records, cursor: next } = store.changesSince(Number(cursor ?? 0));
+            return { records, cursor: String(next) };
+        },
+        async push(cursor, records) {
+            const result = await store.push(Number(cursor ?? 0), records);
+            return result.accepted ? { accepted: true, cursor: String(result.cursor) } : { accepted: false };
+        },
+    };
+}
+
+/**
+ * Runs one sync and waits for it to finish.
+ * @param {SyncBackend} backend - The server to sync with.
+ * @returns {Promise<SyncStatus>} The status the sync ended with.
+ */
+function syncOnce(backend: SyncBackend): Promise<SyncStatus> {
+    return new Promise(resolve => {
+        const engine = createSyncEngine({
+            backend,
+            onRemoteChanges: () => {},
+            onStatusChange: status => {
+                if (status.state === 'syncing') return;
+                engine.stop();
+                resolve(status);
+            },
+        });
+    });
+}
+
+describe('sync engine', () => {
+    let dataDir: string;
+
+    beforeAll(() => {
+        dataDir = mkdtempSync(path.join(tmpdir(), 'quicknotes-sync-'));
+        vi.stubGlobal('localStorage', { getItem: () => null, removeItem: () => {} });
+        vi.stubGlobal('window', new EventTarget());
+        vi.stubGlobal('document', Object.assign(new EventTarget(), { visibilityState: 'visible' }));
+        vi.stubGlobal('navigator', { onLine: true });
+    });
+
+    afterAll(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('pushes a merged conflict even when this device\'s clock is behind', async () => {
+        const store = openSyncStore(path.join(dataDir, 'conflict.json'));
+        const remoteStamp = formatStamp(REMOTE_TIME, 0, 'otherdevice');
+        await store.push(0, [{
+            type: 'note',
+            id: 'n1',
+            stamp: remoteStamp,
+            data: { id: 'n1', text: 'Edited on the other device', category: 'Notes', timestamp: new Date(LOCAL_TIME).toISOString() },
+        }]);
+
+        vi.useFakeTimers({ toFake: ['Date'], now: LOCAL_TIME });
+        const local: Note = { id: 'n1', text: 'Edited here', category: 'Notes', timestamp: new Date(LOCAL_TIME) };
+        await saveNote(local);
+
+        const status = await syncOnce(storeBackend(store));
+        expect(status.state).toBe('idle');
+
+        const merged = await loadNote('n1');
+        expect(merged?.changeStamp! > remoteStamp).toBe(true);
+        const [pushed] = store.changesSince(0).records;
+        expect(pushed.stamp).toBe(merged?.changeStamp);
+        expect(pushed.data).toMatchObject({
+            text: 'Edited on the other device',
+            revisions: [expect.objectContaining({ text: 'Edited here', conflict: true })],
+        });
+    });
+});
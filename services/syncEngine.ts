@@ -0,0 +1,216 @@
+/**
+ * @file This file implements the sync engine, which keeps notes and settings in
+ * step across devices through a sync server. Each sync pulls what other devices
+ * changed and stores it, merging notes that were also edited here, then pushes
+ * what changed here. The latest change stamp wins, except that a note edited on
+ * two devices keeps the losing version in its history. Syncs run shortly after
+ * local changes, every minute, when the app comes back into view and when the
+ * browser comes back online.
+ */
+import { SyncRecord, SyncState, SyncStatus } from '../types';
+import { applySyncedDeletion, applySyncedNote, applySyncedSettings, getDeviceId, loadLocalChanges, loadNote, loadSettings, loadSyncState, loadTombstone, saveMergedNote, saveSyncState } from './storageService';
+import { SyncBackend } from './syncBackend';
+import { mergeConflictingNotes, recordToNote, recordToSettings } from '../utils/syncRecords';
+import { isStampFrom, laterStamp } from '../utils/syncStamp';
+
+/** How often to sync while the app is open. */
+const SYNC_INTERVAL_MS = 60000;
+/** How long to wait after a local change before syncing, so a burst of changes is sent together. */
+const SYNC_DELAY_MS = 2000;
+/** How many times to pull and push again when other devices push in between. */
+const MAX_PUSH_ATTEMPTS = 3;
+
+/**
+ * Options for the sync engine.
+ */
+export interface SyncEngineOptions {
+    /** The server to sync with. */
+    backend: SyncBackend;
+    /** Called after changes from other devices were stored, so the app can reload them. */
+    onRemoteChanges: () => void;
+    /** Called whenever the sync status changes. */
+    onStatusChange: (status: SyncStatus) => void;
+}
+
+/**
+ * The sync engine.
+ */
+export interface SyncEngine {
+    /** Schedules a sync shortly, e.g. after a local change. */
+    requestSync: () => void;
+    /**
+     * Syncs right away.
+     * @returns {Promise<void>} Resolves when the sync has finished or failed.
+     */
+    syncNow: () => Promise<void>;
+    /** Stops syncing. */
+    stop: () => void;
+}
+
+/**
+ * Stores the records pulled from the server.
+ * @param {SyncRecord[]} records - The pulled records.
+ * @param {SyncState} state - How far this device had synced before the pull.
+ * @param {string} deviceId - This device's id.
+ * @returns {Promise<boolean>} True if anything on this device changed.
+ */
+async function applyRemoteRecords(records: SyncRecord[], state: SyncState, deviceId: string): Promise<boolean> {
+    // A local change is unsent if this device made it after its last push.
+    const isUnsent = (stamp?: string) =>
+        Boolean(stamp) && (state.pushedStamp === null || (isStampFrom(stamp, deviceId) && stamp! > state.pushedStamp));
+    let changed = false;
+
+    for (const record of records) {
+        if (record.type === 'settings') {
+            const local = await loadSettings();
+            const settings = recordToSettings(record, local);
+            // On the first sync the server's settings win, so a new device doesn't replace them with its defaults.
+            const isNewer = state.cursor === null || !local?.changeStamp || record.stamp > local.changeStamp;
+            if (settings && isNewer && record.stamp !== local?.changeStamp) {
+                await applySyncedSettings(settings);
+                changed = true;
+            }
+            continue;
+        }
+
+        const [local, tombstone] = await Promise.all([loadNote(record.id), loadTombstone(record.id)]);
+        const localStamp = local?.changeStamp ?? tombstone?.stamp;
+        if (localStamp === record.stamp) continue;
+
+        if (record.deleted) {
+            if (local && (!localStamp || record.stamp > localStamp)) {
+                await applySyncedDeletion(record.id, record.stamp);
+                changed = true;
+            }
+            continue;
+        }
+
+        const remote = recordToNote(record, local);
+        if (!remote) {
+            console.warn("Sync server sent a note that could not be read:", record.id);
+            continue;
+        }
+        if (local && isUnsent(local.changeStamp)) {
+            // Edited here and on another device since they last synced.
+            await saveMergedNote(mergeConflictingNotes(local, remote), record.stamp);
+            changed = true;
+        } else if (!localStamp || record.stamp > localStamp) {
+            await applySyncedNote(remote);
+            changed = true;
+        }
+    }
+    return changed;
+}
+
+/**
+ * Creates the sync engine and starts syncing.
+ * @param {SyncEngineOptions} options - The server and how to report progress.
+ * @returns {SyncEngine} The engine.
+ */
+export function createSyncEngine(options: SyncEngineOptions): SyncEngine {
+    const { backend } = options;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let isSyncing = false;
+    let syncAgain = false;
+    let isStopped = false;
+    let lastSyncedAt: Date | undefined;
+
+    /**
+     * Pulls, merges and pushes once.
+     * @returns {Promise<boolean>} True if changes from other devices were stored.
+     */
+    const syncOnce = async (): Promise<boolean> => {
+        const deviceId = await getDeviceId();
+        const stored = await loadSyncState();
+        let state: SyncState = stored?.backendId === backend.id ? stored : { backendId: backend.id, cursor: null, pushedStamp: null };
+        let changed = false;
+
+        for (let attempt = 0; attempt < MAX_PUSH_ATTEMPTS; attempt++) {
+            const pulled = await backend.pull(state.cursor);
+            if (await applyRemoteRecords(pulled.records, state, deviceId)) changed = true;
+
+            const outgoing = await loadLocalChanges(state.pushedStamp);
+            const pushed = outgoing.length > 0 ? await backend.push(pulled.cursor, outgoing) : { accepted: true as const, cursor: pulled.cursor };
+            if (pushed.accepted) {
+                const pushedStamp = outgoing.reduce((latest: string | null, record) => laterStamp(latest, record.stamp), state.pushedStamp);
+                await saveSyncState({ ...state, cursor: pushed.cursor, pushedStamp });
+                return changed;
+            }
+            // Another device pushed in between: pull its changes and merge them first.
+            state = { ...state, cursor: pulled.cursor };
+            await saveSyncState(state);
+        }
+        throw new Error("Other devices kept changing notes during the sync");
+    };
+
+    /**
+     * Syncs, then schedules the next periodic sync.
+     */
+    const run = async () => {
+        if (isStopped) return;
+        if (isSyncing) {
+            syncAgain = true;
+            return;
+        }
+        if (timer) clearTimeout(timer);
+        timer = null;
+        // The 'online' event starts another sync, so there's no point trying until then.
+        if (!navigator.onLine) {
+            options.onStatusChange({ state: 'offline', lastSyncedAt });
+            return;
+        }
+
+        isSyncing = true;
+        options.onStatusChange({ state: 'syncing', lastSyncedAt });
+        let changed = false;
+        try {
+            changed = await syncOnce();
+            lastSyncedAt = new Date();
+            options.onStatusChange({ state: 'idle', lastSyncedAt });
+        } catch (e) {
+            console.error("Failed to sync", e);
+            options.onStatusChange({ state: 'error', lastSyncedAt, error: e instanceof Error ? e.message : String(e) });
+        } finally {
+            isSyncing = false;
+        }
+        if (isStopped) return;
+        if (changed) options.onRemoteChanges();
+        if (syncAgain) {
+            syncAgain = false;
+            await run();
+            return;
+        }
+        timer = setTimeout(run, SYNC_INTERVAL_MS);
+    };
+
+    const handleOnline = () => {
+        run();
+    };
+    const handleVisibilityChange = () => {
+        if (document.visibilityState === 'visible') run();
+    };
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    run();
+
+    return {
+        requestSync() {
+            if (isStopped) return;
+            if (isSyncing) {
+                syncAgain = true;
+                return;
+            }
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(run, SYNC_DELAY_MS);
+        },
+
+        syncNow: run,
+
+        stop() {
+            isStopped = true;
+            if (timer) clearTimeout(timer);
+            window.removeEventListener('online', handleOnline);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        },
+    };
+}
@@ -0,0 +1,104 @@
+/**
+ * @file This file defines the interface shared by all live transcription providers,
+ * along with helpers for implementing one.
+ */
+import { Blob, LiveServerMessage } from '@google/genai';
+
+/**
+ * An event emitted by a transcription provider while a session is active.
+ */
+export type TranscriptionEvent =
+    /** The session is connected and ready to receive audio. */
+    | { type: 'open' }
+    /** A new piece of transcribed text, to be appended to what came before. */
+    | { type: 'partial'; text: string }
+    /** The server will end the session soon, e.g. because it reached its duration limit. */
+    | { type: 'expiring' }
+    /** The session dropped and a new one is being opened. Audio sent meanwhile is buffered. */
+    | { type: 'reconnecting' }
+    /** A new session replaced the dropped one and buffered audio has been sent. */
+    | { type: 'reconnected' }
+    /** The session failed. */
+    | { type: 'error'; error: unknown }
+    /** The session has ended. */
+    | { type: 'close' };
+
+/** A function that receives transcription events. */
+export type TranscriptionListener = (event: TranscriptionEvent) => void;
+
+/**
+ * A source of live transcriptions. The app starts a provider, streams microphone
+ * audio into it (if it needs any), and listens for partial transcripts until it stops it.
+ */
+export interface TranscriptionProvider {
+    /** Whether the provider needs microphone audio. Scripted providers don't. */
+    readonly requiresAudio: boolean;
+    /**
+     * Opens a transcription session.
+     * @returns {Promise<void>} Resolves once the session is ready to receive audio.
+     */
+    start(): Promise<void>;
+    /**
+     * Streams a chunk of 16 kHz PCM audio into the session.
+     * @param {Blob} audio - The encoded audio chunk.
+     */
+    sendAudio(audio: Blob): void;
+    /**
+     * Closes the session. A `close` event is emitted once it has ended.
+     * @returns {Promise<void>} Resolves once the session is closed.
+     */
+    stop(): Promise<void>;
+    /**
+     * Registers a listener for transcription events.
+     * @param {TranscriptionListener} listener - The function to call for each event.
+     * @returns {() => void} A function that removes the listener.
+     */
+    subscribe(listener: TranscriptionListener): () => void;
+}
+
+/**
+ * A minimal event emitter used by providers to fan events out to their listeners.
+ */
+export interface TranscriptionEmitter {
+    /** Sends an event to every registered listener. */
+    emit: (event: TranscriptionEvent) => void;
+    /** Registers a listener and returns a function that removes it. */
+    subscribe: (listener: TranscriptionListener) => () => void;
+}
+
+/**
+ * Creates an emitter for transcription events.
+ * @returns {TranscriptionEmitter} A new emitter with no listeners.
+ */
+export function createTranscriptionEmitter(): TranscriptionEmitter {
+    const listeners = new Set<TranscriptionListener>();
+    return {
+        emit: (event) => {
+            listeners.forEach(listener => listener(event));
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+}
+
+/**
+ * Translates a message from the Gemini Live API into transcription events.
+ * Shared by the Gemini Live provider and the scripted fake, so both behave the same.
+ * @param {LiveServerMessage} message - The message received from the server.
+ * @returns {TranscriptionEvent[]} The events the message represents (possibly none).
+ */
+export function liveMessageToEvents(message: LiveServerMessage): TranscriptionEvent[] {
+    const events: TranscriptionEvent[] = [];
+    const text = message.serverContent?.inputTranscription?.text;
+    if (text) {
+        events.push({ type: 'partial', text });
+    }
+    if (message.goAway) {
+        events.push({ type: 'expiring' });
+    }
+    return events;
+}
@@ -0,0 +1,22 @@
+/**
+ * @file This file selects the transcription provider the app uses.
+ */
+import { TranscriptionProvider } from './transcriptionProvider';
+import { createGeminiLiveProvider } from './geminiLiveProvider';
+import { createScriptedTranscriptionProvider } from './scriptedTranscriptionProvider';
+import { createReconnectingProvider } from './reconnectingProvider';
+
+/**
+ * Creates the transcription provider configured for this build.
+ * Setting `TRANSCRIPTION_PROVIDER=scripted` replays a canned dictation instead of
+ * using the Gemini Live API, which is useful for working offline or without an API key.
+ * Live sessions are replaced automatically when they drop.
+ * @returns {TranscriptionProvider} A new, unstarted provider.
+ */
+export function createTranscriptionProvider(): TranscriptionProvider {
+    if (process.env.TRANSCRIPTION_PROVIDER === 'scripted') {
+        return createScriptedTranscriptionProvider();
+    }
+    // Live sessions drop on network hiccups and at the server's duration limit.
+    return createReconnectingProvider(createGeminiLiveProvider);
+}
@@ -0,0 +1,186 @@
+/**
+ * @file This file implements the persistent queue that delivers saved notes to
+ * webhook targets. Deliveries are stored in IndexedDB, so notes saved while
+ * offline, or while a receiver is down, are sent later, even after a reload.
+ * Failed attempts are retried with exponential backoff until they succeed or
+ * run out of attempts.
+ */
+import { DeliveryStatus, Note, WebhookDelivery, WebhookTarget } from '../types';
+import { deleteDelivery, loadDeliveries, saveDeliveries } from './storageService';
+import { buildPayload, sendWebhook } from './webhookService';
+
+/** How many times a delivery is attempted before it is marked as failed. */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+/** The wait before the first retry; each further retry waits twice as long. */
+const INITIAL_RETRY_DELAY_MS = 5000;
+/** The longest wait between retries. */
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+/**
+ * Returns how long to wait before retrying a delivery.
+ * @param {number} attempts - The number of attempts made so far, at least 1.
+ * @returns {number} The delay in milliseconds.
+ */
+export function retryDelay(attempts: number): number {
+    return Math.min(INITIAL_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Works out the state of a delivery after an attempt.
+ * @param {WebhookDelivery} delivery - The delivery before the attempt.
+ * @param {{ ok: boolean; retryable: boolean; error?: string }} result - The outcome of the attempt.
+ * @param {Date} now - The time of the attempt.
+ * @returns {WebhookDelivery} The delivery after the attempt.
+ */
+export function recordAttempt(delivery: WebhookDelivery, result: { ok: boolean; retryable: boolean; error?: string }, now: Date): WebhookDelivery {
+    const attempts = delivery.attempts + 1;
+    if (result.ok) {
+        return { ...delivery, attempts, status: 'delivered', lastError: undefined };
+    }
+    const status: DeliveryStatus = result.retryable && attempts < MAX_DELIVERY_ATTEMPTS ? 'pending' : 'failed';
+    return { ...delivery, attempts, status, lastError: result.error, nextAttemptAt: new Date(now.getTime() + retryDelay(attempts)) };
+}
+
+/**
+ * Options for the delivery queue.
+ */
+export interface WebhookQueueOptions {
+    /** Returns the user's current webhook targets. */
+    getTargets: () => WebhookTarget[];
+    /** Called whenever a delivery's status changes. */
+    onStatusChange: (noteId: string, targetId: string, status: DeliveryStatus) => void;
+}
+
+/**
+ * The webhook delivery queue.
+ */
+export interface WebhookQueue {
+    /**
+     * Queues a note for delivery to webhook targets and starts delivering it.
+     * @param {Note} note - The saved note.
+     * @param {string[]} targetIds - The ids of the targets to deliver to.
+     * @returns {Promise<void>} Resolves once the deliveries are stored.
+     */
+    enqueue: (note: Note, targetIds: string[]) => Promise<void>;
+    /**
+     * Tries a failed delivery again, starting a fresh round of attempts.
+     * @param {string} noteId - The id of the note.
+     * @param {string} targetId - The id of the target.
+     * @returns {Promise<void>} Resolves once the delivery is queued again.
+     */
+    retry: (noteId: string, targetId: string) => Promise<void>;
+    /** Stops delivering. Queued deliveries stay stored for the next session. */
+    stop: () => void;
+}
+
+/**
+ * Creates the delivery queue and starts delivering anything left from earlier sessions.
+ * @param {WebhookQueueOptions} options - Where to find targets and report progress.
+ * @returns {WebhookQueue} The queue.
+ */
+export function createWebhookQueue(options: WebhookQueueOptions): WebhookQueue {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let isProcessing = false;
+    let processAgain = false;
+    let isStopped = false;
+
+    /**
+     * Attempts every delivery that is due, then schedules the next run.
+     */
+    const processDue = async () => {
+        if (isStopped) return;
+        if (isProcessing) {
+            processAgain = true;
+            return;
+        }
+        isProcessing = true;
+        if (timer) clearTimeout(timer);
+        timer = null;
+
+        try {
+            const deliveries = await loadDeliveries();
+            const targets = options.getTargets();
+            for (const delivery of deliveries) {
+                const now = new Date();
+                if (isStopped || delivery.status !== 'pending' || delivery.nextAttemptAt > now) continue;
+
+                const target = targets.find(t => t.id === delivery.targetId);
+                const result = target
+                    ? await sendWebhook(target, buildPayload(target, delivery, now), now)
+                    : { ok: false, retryable: false, error: 'The webhook was removed from settings.' };
+                const updated = recordAttempt(delivery, result, now);
+                if (updated.status === 'delivered') {
+                    await deleteDelivery(updated.id);
+                } else {
+                    await saveDeliveries([updated]);
+                }
+                if (updated.status !== delivery.status) {
+                    options.onStatusChange(updated.noteId, updated.targetId, updated.status);
+                }
+            }
+
+            const next = (await loadDeliveries())
+                .filter(delivery => delivery.status === 'pending')
+                .reduce((earliest: number | null, delivery) => {
+                    const time = delivery.nextAttemptAt.getTime();
+                    return earliest === null || time < earliest ? time : earliest;
+                }, null);
+            if (next !== null && !isStopped) {
+                timer = setTimeout(processDue, Math.max(0, next - Date.now()));
+            }
+        } catch (e) {
+            console.error("Failed to process webhook deliveries", e);
+        } finally {
+            isProcessing = false;
+        }
+        if (processAgain) {
+            processAgain = false;
+            processDue();
+        }
+    };
+
+    // Coming back online is a good moment to retry without waiting out the backoff.
+    const handleOnline = async () => {
+        try {
+            const deliveries = await loadDeliveries();
+            const now = new Date();
+            await saveDeliveries(deliveries.filter(d => d.status === 'pending').map(d => ({ ...d, nextAttemptAt: now })));
+        } catch (e) {
+            console.error("Failed to reschedule webhook deliveries", e);
+        }
+        processDue();
+    };
+    window.addEventListener('online', handleOnline);
+    processDue();
+
+    return {
+        async enqueue(note, targetIds) {
+            const now = new Date();
+            await saveDeliveries(targetIds.map(targetId => ({
+                id: crypto.randomUUID(),
+                noteId: note.id,
+                targetId,
+                note,
+                status: 'pending',
+                attempts: 0,
+                nextAttemptAt: now,
+                createdAt: now,
+            })));
+            processDue();
+        },
+
+        async retry(noteId, targetId) {
+            const deliveries = await loadDeliveries();
+            const failed = deliveries.filter(d => d.noteId === noteId && d.targetId === targetId && d.status === 'failed');
+            await saveDeliveries(failed.map(d => ({ ...d, status: 'pending', attempts: 0, nextAttemptAt: new Date() })));
+            failed.forEach(d => options.onStatusChange(d.noteId, d.targetId, 'pending'));
+            processDue();
+        },
+
+        stop() {
+            isStopped = true;
+            if (timer) clearTimeout(timer);
+            window.removeEventListener('online', handleOnline);
+        },
+    };
+}
@@ -0,0 +1,154 @@
+/**
+ * @file This file sends saved notes to the user's webhook targets, so other
+ * tools (Zapier, a home server, a team chat bot) can act on them. Requests can
+ * be signed so receivers can check they came from this app; see
+ * `scripts/webhook-stub.mjs` for a receiver that verifies signatures.
+ */
+import { Note, WebhookDelivery, WebhookTarget } from '../types';
+
+/** Header carrying the HMAC-SHA256 signature, as `sha256=<hex>`. */
+export const SIGNATURE_HEADER = 'X-QuickNotes-Signature';
+/** Header carrying the time the request was signed, in milliseconds since the epoch. */
+export const TIMESTAMP_HEADER = 'X-QuickNotes-Timestamp';
+/** Header carrying the delivery id, which stays the same across retries. */
+export const DELIVERY_HEADER = 'X-QuickNotes-Delivery';
+
+/** How long to wait for a webhook to respond before counting the attempt as failed. */
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Creates an empty webhook target for the user to fill in.
+ * @returns {WebhookTarget} The target.
+ */
+export function createWebhookTarget(): WebhookTarget {
+    return { id: crypto.randomUUID(), name: '', url: '', headers: [], sendAllNotes: false };
+}
+
+/**
+ * The JSON body POSTed to a webhook.
+ */
+export interface WebhookPayload {
+    /** What happened. */
+    event: 'note.saved' | 'test';
+    /** The delivery id; receivers can use it to ignore repeated deliveries. */
+    deliveryId: string;
+    /** Which attempt this is, starting at 1. */
+    attempt: number;
+    /** When the request was sent, as an ISO 8601 string. */
+    sentAt: string;
+    /** The target the note is sent to. */
+    target: { id: string; name: string };
+    /** The saved note. */
+    note: Omit<Note, 'deliveries'>;
+}
+
+/**
+ * The outcome of one delivery attempt.
+ */
+export interface DeliveryResult {
+    /** Whether the webhook accepted the note. */
+    ok: boolean;
+    /** Whether trying again later might succeed. Client errors such as 404 are not retried. */
+    retryable: boolean;
+    /** Why the attempt failed. */
+    error?: string;
+}
+
+/**
+ * Encodes bytes as lowercase hex.
+ * @param {ArrayBuffer} buffer - The bytes.
+ * @returns {string} The hex string.
+ */
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Signs a request body. The signature covers the timestamp too, so a captured
+ * request can't be replayed later with a new timestamp.
+ * @param {string} secret - The target's signing secret.
+ * @param {string} timestamp - The value of the timestamp header.
+ * @param {string} body - The request body.
+ * @returns {Promise<string>} The signature, as `sha256=<hex>`.
+ */
+export async function signPayload(secret: string, timestamp: string, body: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+    return `sha256=${toHex(signature)}`;
+}
+
+/**
+ * Builds the body of a request to a webhook.
+ * @param {WebhookTarget} target - The target.
+ * @param {WebhookDelivery} delivery - The delivery, with `attempts` counting earlier attempts.
+ * @param {Date} now - The time of the attempt.
+ * @returns {WebhookPayload} The payload.
+ */
+export function buildPayload(target: WebhookTarget, delivery: WebhookDelivery, now: Date): WebhookPayload {
+    const { deliveries: _, ...note } = delivery.note;
+    return {
+        event: 'note.saved',
+        deliveryId: delivery.id,
+        attempt: delivery.attempts + 1,
+        sentAt: now.toISOString(),
+        target: { id: target.id, name: target.name },
+        note,
+    };
+}
+
+/**
+ * POSTs a payload to a webhook target. Never throws; failures are described in the result.
+ * @param {WebhookTarget} target - The target.
+ * @param {WebhookPayload} payload - The payload.
+ * @param {Date} [now] - The time of the attempt. Defaults to now.
+ * @returns {Promise<DeliveryResult>} Whether the webhook accepted the payload.
+ */
+export async function sendWebhook(target: WebhookTarget, payload: WebhookPayload, now: Date = new Date()): Promise<DeliveryResult> {
+    const body = JSON.stringify(payload);
+    const timestamp = String(now.getTime());
+    const headers: Record<string, string> = {};
+    target.headers.forEach(({ name, value }) => {
+        if (name.trim()) headers[name.trim()] = value;
+    });
+    headers['Content-Type'] = 'application/json';
+    headers[TIMESTAMP_HEADER] = timestamp;
+    headers[DELIVERY_HEADER] = payload.deliveryId;
+
+    try {
+        if (target.secret) {
+            headers[SIGNATURE_HEADER] = await signPayload(target.secret, timestamp, body);
+        }
+        const response = await fetch(target.url, {
+            method: 'POST',
+            headers,
+            body,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        if (response.ok) {
+            return { ok: true, retryable: false };
+        }
+        // Rate limits, timeouts and server errors may clear up; other client errors won't.
+        const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+        return { ok: false, retryable, error: `HTTP ${response.status} ${response.statusText}`.trim() };
+    } catch (e) {
+        // Network errors, including CORS rejections, look the same from here.
+        return { ok: false, retryable: true, error: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+/**
+ * Sends a sample note to a webhook target, so the user can check it is set up correctly.
+ * @param {WebhookTarget} target - The target.
+ * @returns {Promise<DeliveryResult>} Whether the webhook accepted the sample.
+ */
+export async function sendTestWebhook(target: WebhookTarget): Promise<DeliveryResult> {
+    const now = new Date();
+    return sendWebhook(target, {
+        event: 'test',
+        deliveryId: crypto.randomUUID(),
+        attempt: 1,
+        sentAt: now.toISOString(),
+        target: { id: target.id, name: target.name },
+        note: { id: 'test', text: 'Notes:\n\nThis is a test note from QuickNotes AI.', category: 'Notes', timestamp: now },
+    }, now);
+}
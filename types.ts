@@ -10,12 +10,187 @@ export interface Note {
     id: string;
     /** The main transcribed content of the note. */
     text: string;
-    /** The category assigned to the note by the AI model. */
+    /** The display name of the category assigned to the note by the AI model. */
     category: string;
+    /** The stable id of the note's category, if it matches one of the user's categories. */
+    categoryId?: string;
+    /** A short title generated by the AI model. */
+    title?: string;
+    /** How confident the AI model was in the category, from 0 to 1. */
+    confidence?: number;
+    /** Secondary tags suggested by the AI model. */
+    tags?: string[];
     /** The date and time when the note was saved. */
     timestamp: Date;
     /** An optional flag to indicate if the note has been sent via email. */
     emailSent?: boolean;
+    /** The id of the original recording in storage, if the user chose to keep audio. */
+    audioId?: string;
+    /** The length of the original recording, in seconds. */
+    audioDuration?: number;
+    /** The date and time of the last edit, if the note was edited after saving. */
+    updatedAt?: Date;
+    /** Earlier versions of the note, oldest first. */
+    revisions?: NoteRevision[];
+    /** How far delivery of the note to each webhook target has got, by target id. */
+    deliveries?: Record<string, DeliveryStatus>;
+    /** Set while the note waits for the AI model to categorize it, because the model couldn't be reached. */
+    categorization?: CategorizationStatus;
+    /** Whether the user chose the category themselves rather than accepting the categorizer's. */
+    categorySetByUser?: boolean;
+    /** When the note last changed, as a sync change stamp. Set by storage on every save. */
+    changeStamp?: string;
+}
+
+/**
+ * An earlier version of a saved note, recorded when the note was edited.
+ */
+export interface NoteRevision {
+    /** A unique identifier for the revision. */
+    id: string;
+    /** When this version was replaced by an edit. */
+    timestamp: Date;
+    /** The text of the note at that point. */
+    text: string;
+    /** The category name of the note at that point. */
+    category: string;
+    /** The category id of the note at that point. */
+    categoryId?: string;
+    /** Set when this version lost a sync conflict: the note was edited on another device at the same time. */
+    conflict?: boolean;
+}
+
+/**
+ * The user-editable fields of a note.
+ */
+export interface NoteEdit {
+    /** The new text. */
+    text: string;
+    /** The display name of the new category. */
+    category: string;
+    /** The id of the new category, if it is one of the user's categories. */
+    categoryId?: string;
+}
+
+/**
+ * A user-defined category that notes are sorted into.
+ */
+export interface Category {
+    /** A stable identifier that survives renames. */
+    id: string;
+    /** The display name, also used when asking the AI model to categorize a note. */
+    name: string;
+    /** The color used to label the category, as a CSS hex color. */
+    color: string;
+    /** The position of the category in the user's ordering, starting at 0. */
+    order: number;
+    /** An optional description passed to the AI model as a hint for what belongs in the category. */
+    description?: string;
+    /** Whether action items are extracted from notes in this category and added to the task list. */
+    extractsTasks?: boolean;
+    /** The formatting steps for notes in this category. If unset, the user's formatting is used. */
+    formattingSteps?: FormattingStep[];
+    /** Words or phrases that point the local categorizer to this category. */
+    keywords?: string[];
+    /** Regular expressions that point the local categorizer to this category. */
+    patterns?: string[];
+}
+
+/** A step of the transcript formatting pipeline. */
+export type FormattingStep = 'removeFillers' | 'replacements' | 'numberedLists' | 'capitalize' | 'sentencePerLine' | 'paragraphs';
+
+/**
+ * An entry in the user's replacement dictionary, used to fix words the transcription gets wrong.
+ */
+export interface Replacement {
+    /** The phrase as transcribed. */
+    from: string;
+    /** The text to put in its place. */
+    to: string;
+}
+
+/**
+ * How finished transcripts are formatted.
+ */
+export interface FormattingOptions {
+    /** The steps to run. They always run in the pipeline's order. */
+    steps: FormattingStep[];
+    /** The replacement dictionary used by the `replacements` step. */
+    replacements: Replacement[];
+}
+
+/**
+ * An action item found in a dictated note, before it is added to the task list.
+ */
+export interface ExtractedTask {
+    /** What needs to be done, as a short imperative sentence. */
+    title: string;
+    /** When the task is due, at the start of that day, if the note mentions a deadline. */
+    dueDate?: Date;
+    /** The person the task involves, e.g. who to call or who it is for. */
+    person?: string;
+}
+
+/**
+ * An action item in the task list.
+ */
+export interface Task extends ExtractedTask {
+    /** A unique identifier for the task. */
+    id: string;
+    /** The id of the note the task was extracted from. */
+    noteId: string;
+    /** Whether the task has been checked off. */
+    completed: boolean;
+    /** When the task was added to the list. */
+    createdAt: Date;
+    /** When the task was checked off. */
+    completedAt?: Date;
+}
+
+/**
+ * A note that has been transcribed and categorized but not saved yet.
+ */
+export type DraftNote = Omit<Note, 'id' | 'timestamp'> & {
+    /** Identifies the draft among the notes under review. */
+    draftId: string;
+    /** Action items found in the note, added to the task list when the note is saved. */
+    tasks?: ExtractedTask[];
+    /** An email address the note is sent to once it is saved, chosen by a voice command or a rule. */
+    sendTo?: string;
+    /** The automation rules that matched the note when it was categorized. */
+    firedRules?: AutomationRule[];
+};
+
+/**
+ * Text dictated onto the end of a saved note, waiting for the user to confirm it.
+ */
+export interface PendingAppend {
+    /** The id of the saved note the text is added to. */
+    noteId: string;
+    /** The dictated text, formatted. */
+    text: string;
+    /** A category chosen by voice command while dictating; the note moves to it. */
+    category?: Category;
+    /** Action items found in the added text, added to the task list on confirmation. */
+    tasks?: ExtractedTask[];
+    /** An email address the note is sent to once the text is added, chosen by a voice command. */
+    sendTo?: string;
+}
+
+/**
+ * The structured result of asking the AI model to categorize a note.
+ */
+export interface CategorizationResult {
+    /** The display name of the primary category. */
+    category: string;
+    /** The id of the primary category, if it matches one of the user's categories. */
+    categoryId?: string;
+    /** How confident the model is in the primary category, from 0 to 1. */
+    confidence: number;
+    /** Optional secondary tags describing the note. */
+    tags: string[];
+    /** A short generated title for the note. */
+    title: string;
 }
 
 /**
@@ -26,12 +201,20 @@ export enum AppState {
     IDLE = 'IDLE',
     /** The application is actively listening to the microphone and transcribing. */
     RECORDING = 'RECORDING',
+    /** Recording is paused; the transcript so far is kept until the user resumes or stops. */
+    PAUSED = 'PAUSED',
     /** The application is processing the transcription (e.g., categorizing). */
     PROCESSING = 'PROCESSING',
     /** The user is reviewing the transcribed note before saving or discarding. */
     REVIEW = 'REVIEW',
 }
 
+/** The things a spoken command can do during dictation. */
+export type VoiceCommandAction = 'newParagraph' | 'newLine' | 'bulletPoint' | 'scratchThat' | 'setCategory' | 'sendTo' | 'stopDictation';
+
+/** The phrases that trigger each voice command, lowercase. */
+export type VoiceCommandPhrases = Record<VoiceCommandAction, string[]>;
+
 /**
  * Represents the user's configurable settings.
  */
@@ -43,5 +226,261 @@ export interface UserSettings {
     /** A list of secondary email addresses for sending notes. */
     otherEmails: string[];
     /** The list of categories the AI will use to classify notes. */
-    categories: string[];
+    categories: Category[];
+    /** Whether to keep the original recording with each note. */
+    keepAudio?: boolean;
+    /** Whether spoken commands such as "new paragraph" are recognized during dictation. Defaults to true. */
+    voiceCommandsEnabled?: boolean;
+    /** The phrases for each voice command. Commands not listed use the default phrases. */
+    voiceCommands?: Partial<VoiceCommandPhrases>;
+    /** How transcripts are formatted, unless a category has its own steps. */
+    formatting?: FormattingOptions;
+    /** What happens when the speaker goes quiet while dictating. */
+    silence?: SilenceSettings;
+    /** The microphone and input gain used on this device. Not synced, since devices differ. */
+    microphone?: MicrophoneSettings;
+    /** Actions run automatically on notes of certain categories. */
+    automationRules?: AutomationRule[];
+    /** HTTP endpoints saved notes are pushed to. */
+    webhooks?: WebhookTarget[];
+    /** Which categorizer sorts new notes. Defaults to Gemini if an API key is configured, otherwise local. */
+    categorizer?: CategorizerMode;
+    /** How this device syncs with a server. Kept on this device; never synced itself. */
+    sync?: SyncSettings;
+    /** When the synced settings last changed, as a sync change stamp. Set by storage. */
+    changeStamp?: string;
+}
+
+/**
+ * The connection to a sync server.
+ */
+export interface SyncSettings {
+    /** Whether this device syncs. */
+    enabled: boolean;
+    /** The base URL of the sync API, e.g. `/api/sync` for the QuickNotes server. */
+    url: string;
+    /** The access token sent to the server. */
+    token: string;
+}
+
+/**
+ * A note, a deleted note or the settings, as exchanged with a sync server.
+ * The server keeps the record with the latest change stamp for each type and id.
+ */
+export interface SyncRecord {
+    /** What kind of record this is. */
+    type: 'note' | 'settings';
+    /** The note id, or `user` for the settings. */
+    id: string;
+    /** When the record last changed. */
+    stamp: string;
+    /** Set for a deleted note. */
+    deleted?: boolean;
+    /** The note or settings, in JSON form. Omitted for a deleted note. */
+    data?: unknown;
+}
+
+/**
+ * A record of a deleted note, kept so the deletion can be synced to other devices.
+ */
+export interface Tombstone {
+    /** The id of the deleted note. */
+    id: string;
+    /** When the note was deleted, as a sync change stamp. */
+    stamp: string;
+}
+
+/**
+ * How far this device has synced with a server.
+ */
+export interface SyncState {
+    /** The server the state belongs to. Switching servers starts over. */
+    backendId: string;
+    /** The server's position in its change log after the last sync, or null before the first. */
+    cursor: string | null;
+    /** The latest change stamp this device has sent, or null to send every record. */
+    pushedStamp: string | null;
+}
+
+/**
+ * How syncing is going, for display in settings.
+ */
+export interface SyncStatus {
+    /** What the sync engine is doing. */
+    state: 'idle' | 'syncing' | 'offline' | 'error';
+    /** When the last sync finished successfully. */
+    lastSyncedAt?: Date;
+    /** Why the last sync failed. */
+    error?: string;
+}
+
+/**
+ * A value encrypted with the vault key.
+ */
+export interface SealedValue {
+    /** The random AES-GCM IV the value was encrypted with. */
+    iv: Uint8Array;
+    /** The encrypted JSON or binary data, with its authentication tag. */
+    data: ArrayBuffer;
+}
+
+/**
+ * How the vault on this device derives its key, stored unencrypted so it can be unlocked.
+ */
+export interface VaultConfig {
+    /** The PBKDF2 salt. */
+    salt: Uint8Array;
+    /** The number of PBKDF2 iterations. */
+    iterations: number;
+    /** A known value encrypted with the key, to tell a wrong passphrase apart. */
+    check: SealedValue;
+    /** Lock the vault after this many minutes without activity, or 0 to never lock it by itself. */
+    autoLockMinutes: number;
+}
+
+/**
+ * Whether notes and settings on this device are encrypted, for display in settings.
+ */
+export interface VaultStatus {
+    /** Whether notes and settings are encrypted with a passphrase. */
+    enabled: boolean;
+    /** Whether the passphrase is needed before notes and settings can be read. */
+    locked: boolean;
+    /** Lock the vault after this many minutes without activity, or 0 to never lock it by itself. */
+    autoLockMinutes: number;
+}
+
+/**
+ * How new notes are categorized: by the Gemini API, by the local keyword and
+ * naive Bayes categorizer, or locally first with Gemini asked when the local one is unsure.
+ */
+export type CategorizerMode = 'gemini' | 'local' | 'hybrid';
+
+/**
+ * The state of a note's delivery to a webhook target.
+ * `pending` deliveries are queued or being retried; `failed` ones have given up.
+ */
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * An HTTP header sent with every request to a webhook target.
+ */
+export interface WebhookHeader {
+    /** The header name, e.g. `Authorization`. */
+    name: string;
+    /** The header value. */
+    value: string;
+}
+
+/**
+ * An HTTP endpoint saved notes are POSTed to as JSON.
+ */
+export interface WebhookTarget {
+    /** A unique identifier for the target. */
+    id: string;
+    /** A name for the target, shown in the delivery status of notes. */
+    name: string;
+    /** The URL notes are POSTed to. */
+    url: string;
+    /** Extra headers sent with each request, e.g. for authentication. */
+    headers: WebhookHeader[];
+    /** A secret for signing each request with HMAC-SHA256, so the receiver can verify it. */
+    secret?: string;
+    /** Whether every saved note is sent here; otherwise only notes an automation rule sends. */
+    sendAllNotes: boolean;
+}
+
+/**
+ * A note queued for delivery to a webhook target. Deliveries are stored, so
+ * they survive reloads and are retried with exponential backoff.
+ */
+export interface WebhookDelivery {
+    /** A unique identifier for the delivery, sent to the receiver so it can ignore repeats. */
+    id: string;
+    /** The id of the note being delivered. */
+    noteId: string;
+    /** The id of the target the note is delivered to. */
+    targetId: string;
+    /** The note as it was when it was saved. */
+    note: Note;
+    /** Whether the delivery is still being tried. */
+    status: DeliveryStatus;
+    /** The number of attempts made so far. */
+    attempts: number;
+    /** When to make the next attempt. */
+    nextAttemptAt: Date;
+    /** When the note was queued. */
+    createdAt: Date;
+    /** Why the last attempt failed. */
+    lastError?: string;
+}
+
+/**
+ * The state of a note saved before the AI model could categorize it.
+ * `pending` notes are retried automatically; `failed` ones have given up.
+ */
+export type CategorizationStatus = 'pending' | 'failed';
+
+/**
+ * A note queued for categorization. The queue is stored, so notes dictated
+ * offline are categorized once the model can be reached, even after a reload.
+ */
+export interface PendingCategorization {
+    /** The id of the note to categorize. */
+    noteId: string;
+    /** Whether the note is still being retried. */
+    status: CategorizationStatus;
+    /** The number of attempts made so far, including the one made when the note was dictated. */
+    attempts: number;
+    /** When to make the next attempt. */
+    nextAttemptAt: Date;
+    /** Why the last attempt failed. */
+    lastError?: string;
+}
+
+/**
+ * What an automation rule does to a matching note.
+ */
+export type AutomationAction =
+    /** Save the note without showing it for review. */
+    | { type: 'autoSave' }
+    /** Email the note to one of the user's addresses when it is saved. */
+    | { type: 'email'; address: string }
+    /** Add a tag to the note. */
+    | { type: 'addTag'; tag: string }
+    /** Send the note to one of the user's webhook targets when it is saved. */
+    | { type: 'webhook'; targetId: string };
+
+/**
+ * An action run automatically on notes that `categorizeNote` puts in a category.
+ */
+export interface AutomationRule {
+    /** A unique identifier for the rule. */
+    id: string;
+    /** The id of the category the rule applies to. */
+    categoryId: string;
+    /** The lowest categorization confidence, from 0 to 1, at which the rule fires. */
+    minConfidence?: number;
+    /** What the rule does. */
+    action: AutomationAction;
+}
+
+/**
+ * The microphone used for dictation.
+ */
+export interface MicrophoneSettings {
+    /** The id of the input device, or undefined for the browser's default microphone. */
+    deviceId?: string;
+    /** How much to amplify the input, where 1 leaves it unchanged. */
+    gain: number;
+}
+
+/**
+ * Silence detection while dictating. A value of 0 turns the behavior off.
+ */
+export interface SilenceSettings {
+    /** Stop recording after this many seconds of silence. */
+    autoStopSeconds: number;
+    /** Start a new note after a pause of this many seconds. */
+    splitSeconds: number;
 }
\ No newline at end of file
@@ -0,0 +1,81 @@
+/**
+ * @file This file contains helpers for importing recorded audio files: which files
+ * can be imported, and how decoded audio is cut into chunks short enough to
+ * transcribe in one request.
+ */
+
+/** The `accept` attribute of the audio file picker: WAV, MP3, M4A and WebM. */
+export const IMPORT_AUDIO_ACCEPT = 'audio/wav,audio/x-wav,audio/mpeg,audio/mp4,audio/x-m4a,audio/webm,.wav,.mp3,.m4a,.webm';
+/** The file extensions that can be imported. */
+const IMPORT_AUDIO_EXTENSIONS = ['wav', 'mp3', 'm4a', 'webm'];
+/** The longest chunk sent for transcription, in seconds. At 16 kHz this keeps each request under 4 MB. */
+export const TRANSCRIPTION_CHUNK_SECONDS = 120;
+/** How far before the end of a chunk to look for a pause to cut at, in seconds. */
+const CUT_SEARCH_SECONDS = 10;
+/** The length of the frames compared when looking for a pause, in seconds. */
+const CUT_FRAME_SECONDS = 0.05;
+
+/**
+ * Checks whether a file looks like audio that can be imported. The extension is
+ * checked too, since browsers don't report a type for every audio file.
+ * @param {{ name: string; type: string }} file - The file.
+ * @returns {boolean} True for WAV, MP3, M4A and WebM files.
+ */
+export function isImportableAudio(file: { name: string; type: string }): boolean {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    return IMPORT_AUDIO_EXTENSIONS.includes(extension) || /^audio\/(wav|x-wav|mpeg|mp4|x-m4a|webm)$/.test(file.type);
+}
+
+/**
+ * Mixes the channels of decoded audio down to one.
+ * @param {Float32Array[]} channels - The samples of each channel, all the same length.
+ * @returns {Float32Array} The mono samples.
+ */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+    if (channels.length === 1) return channels[0];
+    const mono = new Float32Array(channels[0].length);
+    channels.forEach(channel => {
+        for (let i = 0; i < mono.length; i++) {
+            mono[i] += channel[i] / channels.length;
+        }
+    });
+    return mono;
+}
+
+/**
+ * Cuts audio into chunks of at most `chunkSeconds`. Each cut is made at the
+ * quietest moment shortly before the limit, so words are rarely split in two.
+ * @param {Int16Array} samples - The mono PCM samples.
+ * @param {number} sampleRate - The sample rate.
+ * @param {number} [chunkSeconds] - The longest chunk, in seconds.
+ * @returns {Int16Array[]} The chunks, in order. They share the samples' buffer.
+ */
+export function splitAtPauses(samples: Int16Array, sampleRate: number, chunkSeconds: number = TRANSCRIPTION_CHUNK_SECONDS): Int16Array[] {
+    const chunkLength = Math.floor(chunkSeconds * sampleRate);
+    const frameLength = Math.max(1, Math.floor(CUT_FRAME_SECONDS * sampleRate));
+    const searchLength = Math.min(Math.floor(CUT_SEARCH_SECONDS * sampleRate), Math.floor(chunkLength / 2));
+    const chunks: Int16Array[] = [];
+    let start = 0;
+
+    while (samples.length - start > chunkLength) {
+        const limit = start + chunkLength;
+        let cut = limit;
+        let quietest = Infinity;
+        for (let frame = limit - searchLength; frame + frameLength <= limit; frame += frameLength) {
+            let energy = 0;
+            for (let i = frame; i < frame + frameLength; i++) {
+                energy += samples[i] * samples[i];
+            }
+            if (energy < quietest) {
+                quietest = energy;
+                cut = frame + Math.floor(frameLength / 2);
+            }
+        }
+        chunks.push(samples.subarray(start, cut));
+        start = cut;
+    }
+    if (start < samples.length) {
+        chunks.push(samples.subarray(start));
+    }
+    return chunks;
+}
@@ -20,21 +20,40 @@ export function encode(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
+/** The sample rate the Gemini Live API expects for input audio. */
+export const PCM_SAMPLE_RATE = 16000;
+
+/** The name the audio capture worklet processor is registered under. */
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture';
+
 /**
- * Creates a Gemini API-compatible Blob object from raw audio data.
- * It converts a Float32Array (from the Web Audio API) into a 16-bit PCM
- * Int16Array, then Base64-encodes it and sets the correct MIME type.
- * @param {Float32Array} data - The raw audio data from an AudioProcessingEvent.
- * @returns {Blob} An object containing the Base64-encoded data and MIME type.
+ * Converts Web Audio float samples to 16-bit PCM.
+ * Samples are clipped to [-1, 1] first, and positive values are scaled by 32767
+ * so that a full-scale sample of 1.0 doesn't overflow the Int16 range.
+ * @param {Float32Array} data - Samples in the range [-1, 1].
+ * @returns {Int16Array} The 16-bit PCM samples.
  */
-export function createBlob(data: Float32Array): Blob {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-      int16[i] = data[i] * 32768;
+export function floatTo16BitPCM(data: Float32Array): Int16Array {
+    const int16 = new Int16Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      const sample = Math.max(-1, Math.min(1, data[i]));
+      int16[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
     }
+    return int16;
+}
+
+/**
+ * Creates a Gemini API-compatible Blob object from 16 kHz audio data.
+ * Float samples (from the Web Audio API) are converted to 16-bit PCM first;
+ * PCM samples are used as they are. The result is Base64-encoded and labelled
+ * with the correct MIME type.
+ * @param {Float32Array | Int16Array} data - The 16 kHz mono audio data.
+ * @returns {Blob} An object containing the Base64-encoded data and MIME type.
+ */
+export function createBlob(data: Float32Array | Int16Array): Blob {
+    const int16 = data instanceof Int16Array ? data : floatTo16BitPCM(data);
     return {
-      data: encode(new Uint8Array(int16.buffer)),
-      mimeType: 'audio/pcm;rate=16000',
+      data: encode(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
+      mimeType: `audio/pcm;rate=${PCM_SAMPLE_RATE}`,
     };
   }
\ No newline at end of file
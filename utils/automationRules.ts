@@ -0,0 +1,148 @@
+/**
+ * @file This file contains the rules engine that runs automatic actions on new
+ * notes, such as saving them without review or adding a tag. Rules are keyed on
+ * the category `categorizeNote` returned, so they fire once, when a note is
+ * categorized, and aren't re-run when the user changes the category during review.
+ */
+
+import { AutomationAction, AutomationRule, Category, DraftNote, WebhookTarget } from '../types';
+import { isValidEmail } from './validation';
+
+/** The actions a rule can take, with their labels, in the order they are offered in settings. */
+export const AUTOMATION_ACTIONS: { type: AutomationAction['type']; label: string }[] = [
+    { type: 'autoSave', label: 'Save without review' },
+    { type: 'email', label: 'Email to' },
+    { type: 'addTag', label: 'Add tag' },
+    { type: 'webhook', label: 'Send to webhook' },
+];
+
+/**
+ * Creates the default action of a type, with empty parameters for the user to fill in.
+ * @param {AutomationAction['type']} type - The type of action.
+ * @returns {AutomationAction} The action.
+ */
+export function createAutomationAction(type: AutomationAction['type']): AutomationAction {
+    switch (type) {
+        case 'autoSave': return { type };
+        case 'email': return { type, address: '' };
+        case 'addTag': return { type, tag: '' };
+        case 'webhook': return { type, targetId: '' };
+    }
+}
+
+/**
+ * Creates a new rule for a category.
+ * @param {string} categoryId - The id of the category the rule applies to.
+ * @returns {AutomationRule} The rule.
+ */
+export function createAutomationRule(categoryId: string): AutomationRule {
+    return { id: crypto.randomUUID(), categoryId, action: createAutomationAction('autoSave') };
+}
+
+/**
+ * Checks that a rule is complete.
+ * @param {AutomationRule} rule - The rule.
+ * @param {Category[]} categories - The user's categories.
+ * @param {string[]} emailAddresses - The user's email addresses.
+ * @param {WebhookTarget[]} webhooks - The user's webhook targets.
+ * @returns {string | null} A description of the problem, or null if the rule is valid.
+ */
+export function validateAutomationRule(rule: AutomationRule, categories: Category[], emailAddresses: string[], webhooks: WebhookTarget[]): string | null {
+    if (!categories.some(c => c.id === rule.categoryId)) {
+        return 'Every rule needs a category.';
+    }
+    if (rule.minConfidence !== undefined && (rule.minConfidence < 0 || rule.minConfidence > 1)) {
+        return 'Rule confidence thresholds must be between 0% and 100%.';
+    }
+    const { action } = rule;
+    switch (action.type) {
+        case 'email':
+            return isValidEmail(action.address) && emailAddresses.includes(action.address)
+                ? null
+                : 'Email rules must use one of your email addresses.';
+        case 'addTag':
+            return action.tag.trim() ? null : 'Tag rules need a tag.';
+        case 'webhook':
+            return webhooks.some(w => w.id === action.targetId) ? null : 'Webhook rules must use one of your webhooks.';
+        default:
+            return null;
+    }
+}
+
+/**
+ * Finds the rules that fire for a categorization.
+ * @param {AutomationRule[]} rules - The user's rules.
+ * @param {{ categoryId?: string; confidence?: number }} result - The category and confidence `categorizeNote` returned.
+ * @returns {AutomationRule[]} The matching rules, in the order they are configured.
+ */
+export function findMatchingRules(rules: AutomationRule[], result: { categoryId?: string; confidence?: number }): AutomationRule[] {
+    if (!result.categoryId) return [];
+    // A category chosen by voice command has no confidence and counts as certain.
+    const confidence = result.confidence ?? 1;
+    return rules.filter(rule => rule.categoryId === result.categoryId && confidence >= (rule.minConfidence ?? 0));
+}
+
+/**
+ * Runs the rules that change a draft right away: tags are added, and an email
+ * rule sets the recipient unless one was dictated. Rules that act on saving
+ * (saving without review, webhooks) are recorded on the draft and run by the caller.
+ * @param {DraftNote} draft - The categorized note.
+ * @param {AutomationRule[]} rules - The user's rules.
+ * @returns {DraftNote} The draft with the rules applied and listed in `firedRules`.
+ */
+export function applyAutomationRules(draft: DraftNote, rules: AutomationRule[]): DraftNote {
+    const fired = findMatchingRules(rules, draft);
+    if (fired.length === 0) return draft;
+
+    const tags = [...(draft.tags ?? [])];
+    let sendTo = draft.sendTo;
+    fired.forEach(({ action }) => {
+        if (action.type === 'addTag') {
+            const tag = action.tag.trim().replace(/^#/, '');
+            if (!tags.some(t => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+        } else if (action.type === 'email') {
+            sendTo = sendTo ?? action.address;
+        }
+    });
+    return { ...draft, tags, sendTo, firedRules: fired };
+}
+
+/**
+ * Lists the webhook targets a saved note goes to: those that receive every note,
+ * and those chosen by the rules that fired for it.
+ * @param {AutomationRule[] | undefined} firedRules - The rules that fired for the note.
+ * @param {WebhookTarget[]} webhooks - The user's webhook targets.
+ * @returns {string[]} The ids of the targets, without duplicates.
+ */
+export function webhookTargetsFor(firedRules: AutomationRule[] | undefined, webhooks: WebhookTarget[]): string[] {
+    const ids = webhooks.filter(w => w.sendAllNotes).map(w => w.id);
+    (firedRules ?? []).forEach(({ action }) => {
+        if (action.type === 'webhook' && webhooks.some(w => w.id === action.targetId)) ids.push(action.targetId);
+    });
+    return [...new Set(ids)];
+}
+
+/**
+ * Tells whether a rule asked for a draft to be saved without review.
+ * @param {DraftNote} draft - The draft.
+ * @returns {boolean} Whether to save it right away.
+ */
+export function shouldAutoSave(draft: DraftNote): boolean {
+    return draft.firedRules?.some(rule => rule.action.type === 'autoSave') ?? false;
+}
+
+/**
+ * Describes what a rule does, for the review card.
+ * @param {AutomationRule} rule - The rule.
+ * @param {WebhookTarget[]} [webhooks] - The user's webhook targets, to name the one a rule sends to.
+ * @returns {string} A short description, e.g. "Tag #groceries".
+ */
+export function describeRule(rule: AutomationRule, webhooks: WebhookTarget[] = []): string {
+    const { action } = rule;
+    switch (action.type) {
+        case 'autoSave': return 'Save without review';
+        case 'email': return `Email to ${action.address}`;
+        case 'addTag': return `Tag #${action.tag.trim().replace(/^#/, '')}`;
+        case 'webhook': return `Send to ${webhooks.find(w => w.id === action.targetId)?.name || 'webhook'}`;
+    }
+}
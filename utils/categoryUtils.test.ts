@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeCategories } from './categoryUtils';
+
+describe('normalizeCategories', () => {
+    it('gives legacy category names the same ids every time they are loaded', () => {
+        const legacy = ['To-do', 'Groceries', 'Book club', 'groceries!', '???'];
+        const categories = normalizeCategories(legacy);
+        expect(categories.map(category => category.id)).toEqual(['todo', 'legacy-groceries', 'legacy-bookclub', 'legacy-groceries-3', 'legacy-4']);
+        expect(normalizeCategories(legacy)).toEqual(categories);
+    });
+});
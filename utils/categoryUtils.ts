@@ -0,0 +1,116 @@
+/**
+ * @file This file contains helper functions for working with the user's note categories.
+ */
+
+import { Category } from '../types';
+
+/** The palette new categories pick their colors from. */
+export const CATEGORY_COLORS = ['#60a5fa', '#f472b6', '#facc15', '#4ade80', '#a78bfa', '#fb923c', '#2dd4bf', '#f87171'];
+
+/** Categorizations below this confidence are flagged so the user can pick a category themselves. */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/** The color used for notes whose category no longer exists. */
+export const UNKNOWN_CATEGORY_COLOR = '#9ca3af';
+
+/** The default set of categories for a new user. */
+export const DEFAULT_CATEGORIES: Category[] = [
+    { id: 'todo', name: 'To-Do', color: '#f87171', order: 0, description: 'Tasks and things I need to get done.', extractsTasks: true },
+    { id: 'follow-ups', name: 'Follow-ups', color: '#facc15', order: 1, description: 'People to contact or things to check back on.', extractsTasks: true },
+    { id: 'ideas', name: 'Ideas', color: '#a78bfa', order: 2, description: 'New ideas, thoughts and inspiration.' },
+    { id: 'notes', name: 'Notes', color: '#60a5fa', order: 3, description: 'Anything that does not fit another category.' },
+];
+
+/**
+ * Reduces a category name to a form that can be compared loosely,
+ * so that "To-do", "To-Do" and "todo" are treated as the same category.
+ * @param {string} name - The category name.
+ * @returns {string} The lowercase name with everything but letters and digits removed.
+ */
+export function normalizeCategoryName(name: string): string {
+    return name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Finds the category matching a name, ignoring case, spacing and punctuation.
+ * @param {Category[]} categories - The user's categories.
+ * @param {string} name - The name to look up.
+ * @returns {Category | undefined} The matching category, if any.
+ */
+export function findCategory(categories: Category[], name: string): Category | undefined {
+    const key = normalizeCategoryName(name);
+    return categories.find(c => normalizeCategoryName(c.name) === key);
+}
+
+/**
+ * Resolves the category a note belongs to, preferring its stable id over its name.
+ * @param {Category[]} categories - The user's categories.
+ * @param {{ category: string; categoryId?: string }} note - The note (or note-like object) to resolve.
+ * @returns {Category | undefined} The note's category, if it still exists.
+ */
+export function resolveCategory(categories: Category[], note: { category: string; categoryId?: string }): Category | undefined {
+    if (note.categoryId) {
+        const byId = categories.find(c => c.id === note.categoryId);
+        if (byId) return byId;
+    }
+    return findCategory(categories, note.category);
+}
+
+/**
+ * Returns a copy of the categories sorted by the user's ordering.
+ * @param {Category[]} categories - The categories to sort.
+ * @returns {Category[]} The sorted categories.
+ */
+export function sortCategories(categories: Category[]): Category[] {
+    return [...categories].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Creates a new category with a fresh id and a color from the palette.
+ * @param {string} name - The display name of the category.
+ * @param {number} order - The position of the category in the user's ordering.
+ * @returns {Category} The new category.
+ */
+export function createCategory(name: string, order: number): Category {
+    return {
+        id: crypto.randomUUID(),
+        name,
+        color: CATEGORY_COLORS[order % CATEGORY_COLORS.length],
+        order,
+    };
+}
+
+/**
+ * Converts stored category data into the current `Category` shape.
+ * Older versions of the app stored categories as a plain list of names; those
+ * are upgraded, reusing the default category (and its id) when the names match.
+ * Other names get an id derived from the name, so notes filed under them keep
+ * their category however often the settings are loaded.
+ * Default categories saved before task extraction existed keep extracting tasks.
+ * @param {unknown} stored - The `categories` value read from storage.
+ * @returns {Category[]} The categories, sorted and with a contiguous `order`.
+ */
+export function normalizeCategories(stored: unknown): Category[] {
+    if (!Array.isArray(stored)) {
+        return DEFAULT_CATEGORIES;
+    }
+    const legacyIds = new Set<string>();
+    const categories = stored.map((entry, index): Category => {
+        if (typeof entry === 'string') {
+            const known = findCategory(DEFAULT_CATEGORIES, entry);
+            if (known) return { ...known, name: entry, order: index };
+            let id = `legacy-${normalizeCategoryName(entry) || index}`;
+            if (legacyIds.has(id)) id = `${id}-${index}`;
+            legacyIds.add(id);
+            return { ...createCategory(entry, index), id };
+        }
+        const defaults = DEFAULT_CATEGORIES.find(c => c.id === entry.id);
+        return {
+            ...createCategory(String(entry.name ?? ''), index),
+            ...entry,
+            order: typeof entry.order === 'number' ? entry.order : index,
+            extractsTasks: entry.extractsTasks ?? defaults?.extractsTasks,
+        };
+    });
+    return sortCategories(categories).map((category, index) => ({ ...category, order: index }));
+}
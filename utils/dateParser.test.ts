@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { parseDueDate } from './dateParser';
+
+/** A Monday. */
+const MONDAY = new Date(2026, 0, 5, 9, 30);
+
+describe('parseDueDate', () => {
+    it('resolves a weekday named on that day to the next week', () => {
+        expect(parseDueDate('by Monday', MONDAY)).toEqual(new Date(2026, 0, 12));
+        expect(parseDueDate('this Monday', MONDAY)).toEqual(new Date(2026, 0, 5));
+        expect(parseDueDate('by Friday', MONDAY)).toEqual(new Date(2026, 0, 9));
+    });
+});
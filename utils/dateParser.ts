@@ -0,0 +1,177 @@
+/**
+ * @file This file contains a parser for the due-date phrases people use when
+ * dictating tasks, such as "by Friday", "tomorrow" or "in two weeks".
+ * Dates are resolved relative to the current day, in local time.
+ */
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+/** Spelled-out numbers accepted in phrases like "in two weeks". */
+const NUMBER_WORDS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+    seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, 'a couple of': 2,
+};
+
+/** Words that often introduce a deadline and carry no meaning of their own. */
+const LEADING_WORDS = /^(?:(?:no later than|due|by|before|on|until|till|for|at|the)\s+)+/;
+
+/**
+ * Returns the start of the day a number of days after a date.
+ * @param {Date} date - The starting date.
+ * @param {number} days - The number of days to add; may be negative.
+ * @returns {Date} Midnight, local time, on the resulting day.
+ */
+const addDays = (date: Date, days: number): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Looks up a weekday or month by its full name or an abbreviation of at least three letters.
+ * @param {string[]} names - The full names to search.
+ * @param {string} word - The word to look up.
+ * @returns {number} The index of the match, or -1.
+ */
+const findName = (names: string[], word: string): number =>
+    word.length >= 3 ? names.findIndex(name => name.startsWith(word.replace(/\.$/, ''))) : -1;
+
+/**
+ * Parses a count such as "3", "three" or "a couple of".
+ * @param {string} word - The count.
+ * @returns {number | null} The number, or null if it isn't one.
+ */
+const parseCount = (word: string): number | null => {
+    if (/^\d+$/.test(word)) return Number(word);
+    return NUMBER_WORDS[word] ?? null;
+};
+
+/**
+ * Builds a date from its parts, rejecting days that don't exist (e.g. February 30).
+ * @param {number} year - The full year.
+ * @param {number} month - The month, from 0.
+ * @param {number} day - The day of the month.
+ * @returns {Date | null} The date, or null if it doesn't exist.
+ */
+const makeDate = (year: number, month: number, day: number): Date | null => {
+    const date = new Date(year, month, day);
+    return date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+/**
+ * Moves a date forward by whole months, keeping the day of the month where possible.
+ * @param {Date} date - The starting date.
+ * @param {number} months - The number of months to add.
+ * @returns {Date} The same day in the target month, or that month's last day if it is shorter.
+ */
+const sameDayInMonth = (date: Date, months: number): Date => {
+    const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0);
+    return new Date(lastDay.getFullYear(), lastDay.getMonth(), Math.min(date.getDate(), lastDay.getDate()));
+};
+
+/**
+ * Resolves a month and day without a year to their next occurrence, counting today.
+ * @param {Date} today - The current day.
+ * @param {number} month - The month, from 0.
+ * @param {number} day - The day of the month.
+ * @returns {Date | null} The date, or null if it doesn't exist.
+ */
+const nextMonthDay = (today: Date, month: number, day: number): Date | null => {
+    const thisYear = makeDate(today.getFullYear(), month, day);
+    if (thisYear && thisYear >= today) return thisYear;
+    return makeDate(today.getFullYear() + 1, month, day);
+};
+
+/**
+ * Parses a due-date phrase.
+ * @param {string} phrase - The phrase, e.g. "by next Friday" or "March 3rd".
+ * @param {Date} [now] - The current time. Defaults to now.
+ * @returns {Date | null} Midnight, local time, on the due day, or null if the phrase isn't understood.
+ */
+export function parseDueDate(phrase: string, now: Date = new Date()): Date | null {
+    const today = addDays(now, 0);
+    const text = phrase
+        .toLowerCase()
+        .replace(/[,!?]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/\.$/, '')
+        .replace(LEADING_WORDS, '');
+    if (!text) return null;
+
+    if (/^(today|tonight|this (morning|afternoon|evening)|end of (the )?day|eod)$/.test(text)) return today;
+    if (/^(tomorrow|tmrw)( (morning|afternoon|evening|night))?$/.test(text)) return addDays(today, 1);
+    if (text === 'day after tomorrow') return addDays(today, 2);
+
+    // "in 3 days", "in two weeks", "in a month"
+    let match = text.match(/^in (\d+|a couple of|[a-z]+) (day|week|month)s?$/);
+    if (match) {
+        const count = parseCount(match[1]);
+        if (count === null) return null;
+        if (match[2] === 'day') return addDays(today, count);
+        if (match[2] === 'week') return addDays(today, count * 7);
+        return sameDayInMonth(today, count);
+    }
+
+    // Weeks start on Monday: "next week" is next Monday, "end of the week" is Friday.
+    const daysSinceMonday = (today.getDay() + 6) % 7;
+    if (text === 'next week') return addDays(today, 7 - daysSinceMonday);
+    if (/^(the )?end of (the |this )?week$/.test(text)) {
+        return addDays(today, daysSinceMonday <= 4 ? 4 - daysSinceMonday : 11 - daysSinceMonday);
+    }
+    if (/^(the )?end of (the |this )?month$/.test(text)) return new Date(today.getFullYear(), today.getMonth() + 1, 0);
+    if (text === 'next month') return new Date(today.getFullYear(), today.getMonth() + 1, 1);
+
+    // "friday", "this friday", "next friday", "friday next week"
+    match = text.match(/^(this |next |coming |this coming )?([a-z]+\.?)( next week)?$/);
+    if (match) {
+        const weekday = findName(WEEKDAYS, match[2]);
+        if (weekday !== -1) {
+            // Naming today's weekday means the one a week away, unless it is "this Monday".
+            const ahead = (weekday - today.getDay() + 7) % 7 || (match[1] === 'this ' ? 0 : 7);
+            const isNextWeek = match[1] === 'next ' || Boolean(match[3]);
+            if (!isNextWeek) return addDays(today, ahead);
+            // The named day in the following Monday-to-Sunday week.
+            const targetSinceMonday = (weekday + 6) % 7;
+            return addDays(today, 7 - daysSinceMonday + targetSinceMonday);
+        }
+    }
+
+    // 2025-03-14
+    match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (match) return makeDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+
+    // 3/14 or 3/14/2025, month first
+    match = text.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+    if (match) {
+        const month = Number(match[1]) - 1;
+        const day = Number(match[2]);
+        if (!match[3]) return nextMonthDay(today, month, day);
+        const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+        return makeDate(year, month, day);
+    }
+
+    // "march 14", "march 14th 2025"
+    match = text.match(/^([a-z]+\.?) (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/);
+    if (match && findName(MONTHS, match[1]) !== -1) {
+        const month = findName(MONTHS, match[1]);
+        return match[3] ? makeDate(Number(match[3]), month, Number(match[2])) : nextMonthDay(today, month, Number(match[2]));
+    }
+
+    // "14 march", "14th of march 2025"
+    match = text.match(/^(\d{1,2})(?:st|nd|rd|th)?(?: of)? ([a-z]+\.?)(?: (\d{4}))?$/);
+    if (match && findName(MONTHS, match[2]) !== -1) {
+        const month = findName(MONTHS, match[2]);
+        return match[3] ? makeDate(Number(match[3]), month, Number(match[1])) : nextMonthDay(today, month, Number(match[1]));
+    }
+
+    // "the 14th": this month, or next month if that day has passed
+    match = text.match(/^(\d{1,2})(?:st|nd|rd|th)$/);
+    if (match) {
+        const day = Number(match[1]);
+        const thisMonth = makeDate(today.getFullYear(), today.getMonth(), day);
+        if (thisMonth && thisMonth >= today) return thisMonth;
+        const nextMonth = new Date(today.getFullYear(), today.getMonth() + 1, 1);
+        return makeDate(nextMonth.getFullYear(), nextMonth.getMonth(), day);
+    }
+
+    return null;
+}
@@ -0,0 +1,77 @@
+/**
+ * @file This file contains a small word-level diff used to show what changed between note revisions.
+ */
+
+/**
+ * A run of text in a diff.
+ */
+export interface DiffSegment {
+    /** Whether the text is in both versions, only in the new one, or only in the old one. */
+    type: 'same' | 'added' | 'removed';
+    /** The text of the segment, including its surrounding whitespace. */
+    text: string;
+}
+
+/** Texts longer than this many words are compared as a whole instead of word by word. */
+const MAX_DIFF_WORDS = 2000;
+
+/**
+ * Splits text into words, keeping the whitespace before each word attached to it.
+ * @param {string} text - The text to split.
+ * @returns {string[]} The words.
+ */
+const tokenize = (text: string): string[] => text.match(/\s*\S+|\s+$/g) ?? [];
+
+/**
+ * Computes a word-level diff between two texts using the longest common subsequence.
+ * Adjacent words of the same type are merged into a single segment.
+ * @param {string} before - The old text.
+ * @param {string} after - The new text.
+ * @returns {DiffSegment[]} The segments that turn `before` into `after`.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    if (a.length > MAX_DIFF_WORDS || b.length > MAX_DIFF_WORDS) {
+        return before === after
+            ? [{ type: 'same', text: after }]
+            : [{ type: 'removed', text: before }, { type: 'added', text: after }];
+    }
+
+    // lengths[i][j] is the length of the LCS of a[i..] and b[j..].
+    const lengths: Uint16Array[] = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i].trim() === b[j].trim()
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (type: DiffSegment['type'], text: string) => {
+        const last = segments[segments.length - 1];
+        if (last && last.type === type) {
+            last.text += text;
+        } else {
+            segments.push({ type, text });
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i].trim() === b[j].trim()) {
+            push('same', b[j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return segments;
+}
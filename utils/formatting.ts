@@ -0,0 +1,218 @@
+/**
+ * @file This file contains the formatting pipeline that tidies a finished
+ * transcript before it becomes a note. Each step can be turned on or off, per
+ * user or per category. Line breaks and bullets the speaker dictated with voice
+ * commands are kept; the steps only work within them.
+ */
+
+import { Category, FormattingOptions, FormattingStep, Replacement } from '../types';
+
+/** The steps in the order the pipeline runs them, with labels for settings. */
+export const FORMATTING_STEPS: { step: FormattingStep; label: string }[] = [
+    { step: 'removeFillers', label: 'Remove filler words ("um", "uh")' },
+    { step: 'replacements', label: 'Apply my replacements' },
+    { step: 'numberedLists', label: 'Turn "first… second…" into a numbered list' },
+    { step: 'capitalize', label: 'Capitalize sentences' },
+    { step: 'sentencePerLine', label: 'Put each sentence on its own line' },
+    { step: 'paragraphs', label: 'Group long passages into paragraphs' },
+];
+
+/** The formatting used until the user configures their own. */
+export const DEFAULT_FORMATTING: FormattingOptions = {
+    steps: ['removeFillers', 'replacements', 'capitalize', 'sentencePerLine'],
+    replacements: [],
+};
+
+/** The number of sentences per paragraph when grouping long passages. */
+const SENTENCES_PER_PARAGRAPH = 4;
+
+/**
+ * Abbreviations whose period doesn't end a sentence, lowercase and without the final period.
+ * Single letters (initials) are handled separately.
+ */
+const ABBREVIATIONS = new Set([
+    'dr', 'mr', 'mrs', 'ms', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'etc', 'e.g', 'i.e', 'approx',
+    'no', 'inc', 'ltd', 'co', 'corp', 'dept', 'est', 'fig', 'jan', 'feb', 'mar', 'apr', 'jun',
+    'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun',
+]);
+
+/** Filler words removed by the `removeFillers` step, with any comma that follows them. */
+const FILLER_PATTERN = /(^|[\s,])(?:u+m+|u+h+|uhm|erm|er|ah|hmm+|mm+)(?:[,.]+)?(?=\s|$)/giu;
+
+/** Ordinal words that introduce the items of a spoken list, by position. */
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+/** Matches the ordinal at the start of a list item, e.g. "Second," or "Thirdly:". */
+const ORDINAL_PREFIX = new RegExp(`^(?:and\\s+)?(?:(${ORDINALS.join('|')})(?:ly)?|(finally|lastly))\\b[\\s,:;-]*`, 'i');
+
+/** Matches a bullet or numbered-list marker at the start of a line. */
+const LIST_MARKER = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+/**
+ * Resolves the formatting for a note: the category's own steps if it has any,
+ * otherwise the user's. The replacement dictionary always comes from the user.
+ * @param {FormattingOptions | undefined} userFormatting - The user's formatting settings.
+ * @param {Category} [category] - The note's category.
+ * @returns {FormattingOptions} The formatting to apply.
+ */
+export function resolveFormatting(userFormatting: FormattingOptions | undefined, category?: Category): FormattingOptions {
+    const base = userFormatting ?? DEFAULT_FORMATTING;
+    return category?.formattingSteps ? { ...base, steps: category.formattingSteps } : base;
+}
+
+/**
+ * Splits text into sentences. A period after a known abbreviation (such as
+ * "Dr." or "e.g.") or an initial doesn't end a sentence.
+ * @param {string} text - The text, without line breaks.
+ * @returns {string[]} The sentences, trimmed.
+ */
+export function splitSentences(text: string): string[] {
+    const sentences: string[] = [];
+    const boundary = /[.!?]+(?=\s)/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(text)) !== null) {
+        const end = match.index + match[0].length;
+        if (match[0] === '.') {
+            const word = text.slice(start, match.index).split(/\s+/).pop()?.toLowerCase() ?? '';
+            if (ABBREVIATIONS.has(word) || /^\p{L}$/u.test(word)) continue;
+        }
+        sentences.push(text.slice(start, end).trim());
+        start = end;
+    }
+    const rest = text.slice(start).trim();
+    if (rest) sentences.push(rest);
+    return sentences;
+}
+
+/**
+ * Removes filler words such as "um" and "uh".
+ * @param {string} text - The text.
+ * @returns {string} The text without filler words.
+ */
+export function removeFillers(text: string): string {
+    return text
+        .replace(FILLER_PATTERN, '$1')
+        .replace(/[ \t]{2,}/g, ' ')
+        .replace(/ ([,.!?])/g, '$1')
+        .replace(/(^|\n)[ \t]*,\s*/g, '$1')
+        .replace(/,([.!?])/g, '$1');
+}
+
+/**
+ * Applies the user's replacement dictionary, e.g. "quick dictate" → "QuickDictate".
+ * Phrases match whole words, ignoring case.
+ * @param {string} text - The text.
+ * @param {Replacement[]} replacements - The replacements, applied in order.
+ * @returns {string} The text with the replacements applied.
+ */
+export function applyReplacements(text: string, replacements: Replacement[]): string {
+    return replacements.reduce((result, { from, to }) => {
+        const phrase = from.trim();
+        if (!phrase) return result;
+        const pattern = phrase.split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+        return result.replace(new RegExp(`(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])`, 'giu'), () => to);
+    }, text);
+}
+
+/**
+ * Capitalizes the first letter of a sentence and the pronoun "I", leaving
+ * abbreviations such as "i.e." alone.
+ * @param {string} sentence - The sentence.
+ * @returns {string} The capitalized sentence.
+ */
+const capitalizeSentence = (sentence: string): string =>
+    sentence
+        .replace(/^(\P{L}*)(\p{L})/u, (_, before: string, letter: string) => before + letter.toUpperCase())
+        .replace(/(?<![\p{L}\p{N}])i(?=('(m|ll|ve|d))?(?![\p{L}\p{N}])(?!\.\p{L}))/gu, 'I');
+
+/**
+ * Finds a spoken list ("first…, second…, third…") in a run of sentences.
+ * Items may be separate sentences or clauses of one sentence.
+ * @param {string[]} sentences - The sentences of a paragraph.
+ * @returns {{ before: string[]; items: string[]; after: string[] } | null} The sentences around the list and its items, or null if there is no list.
+ */
+function findSpokenList(sentences: string[]): { before: string[]; items: string[]; after: string[] } | null {
+    // Break "First do this, second do that" into clauses at each ordinal.
+    const ordinalWords = `(?:${ORDINALS.join('|')})(?:ly)?|finally|lastly`;
+    const clauses = sentences.flatMap(sentence =>
+        sentence.split(new RegExp(`[,;]\\s+(?=(?:and\\s+)?(?:${ordinalWords})\\b)`, 'i')));
+
+    const firstIndex = clauses.findIndex(clause => ORDINAL_PREFIX.exec(clause)?.[1]?.toLowerCase() === 'first');
+    if (firstIndex === -1) return null;
+
+    const items: string[] = [];
+    let index = firstIndex;
+    for (; index < clauses.length; index++) {
+        const match = ORDINAL_PREFIX.exec(clauses[index]);
+        const ordinal = match?.[1]?.toLowerCase();
+        const isNext = ordinal === ORDINALS[items.length] || (Boolean(match?.[2]) && items.length > 0);
+        if (!match || !isNext) break;
+        items.push(clauses[index].slice(match[0].length).replace(/[.,;]+$/, '').trim());
+        if (match[2]) {
+            index++;
+            break; // "Finally" ends the list.
+        }
+    }
+    if (items.length < 2) return null;
+    return { before: clauses.slice(0, firstIndex), items, after: clauses.slice(index) };
+}
+
+/**
+ * Formats a finished transcript.
+ * @param {string} text - The transcript, with any voice commands already applied.
+ * @param {FormattingOptions} options - The steps to run and the replacement dictionary.
+ * @returns {string} The formatted text.
+ */
+export function formatTranscript(text: string, options: FormattingOptions): string {
+    const steps = new Set(options.steps);
+    let result = text;
+    if (steps.has('removeFillers')) result = removeFillers(result);
+    if (steps.has('replacements')) result = applyReplacements(result, options.replacements);
+
+    const format = (sentence: string) => steps.has('capitalize') ? capitalizeSentence(sentence) : sentence;
+
+    // Work block by block; blank lines the speaker dictated stay where they are.
+    const blocks = result.split(/\n\s*\n/).map(block => {
+        const output: string[] = [];
+        block.split('\n').forEach(line => {
+            const marker = line.match(LIST_MARKER)?.[0];
+            if (marker) {
+                output.push(marker.trimStart() + format(line.slice(marker.length).trim()));
+                return;
+            }
+            const sentences = splitSentences(line.trim());
+            if (sentences.length === 0) return;
+
+            const list = steps.has('numberedLists') ? findSpokenList(sentences) : null;
+            const renderSentences = (group: string[]) => {
+                const formatted = group.map(format);
+                if (steps.has('sentencePerLine')) {
+                    output.push(...formatted);
+                } else if (formatted.length > 0) {
+                    output.push(formatted.join(' '));
+                }
+            };
+            const renderParagraphs = (group: string[]) => {
+                if (!steps.has('paragraphs') || group.length <= SENTENCES_PER_PARAGRAPH) {
+                    renderSentences(group);
+                    return;
+                }
+                for (let i = 0; i < group.length; i += SENTENCES_PER_PARAGRAPH) {
+                    if (i > 0) output.push('');
+                    renderSentences(group.slice(i, i + SENTENCES_PER_PARAGRAPH));
+                }
+            };
+
+            if (!list) {
+                renderParagraphs(sentences);
+                return;
+            }
+            renderParagraphs(list.before);
+            list.items.forEach((item, i) => output.push(`${i + 1}. ${format(item)}`));
+            renderParagraphs(list.after);
+        });
+        return output.join('\n');
+    });
+    return blocks.filter(Boolean).join('\n\n').trim();
+}
@@ -0,0 +1,189 @@
+/**
+ * @file This file contains the local categorizer: keywords and patterns the user
+ * sets up per category, combined with a naive Bayes model trained on the user's
+ * own saved notes. It runs entirely in the browser, so notes can be categorized
+ * without an API key or a network connection.
+ */
+
+import { Category, CategorizationResult, Note } from '../types';
+import { findCategory, resolveCategory } from './categoryUtils';
+import { FALLBACK_CATEGORY, stripCategoryPrefix } from './noteUtils';
+
+/** Common words that say nothing about a note's category. */
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from', 'have', 'i', 'if', 'in',
+    'is', 'it', 'its', 'me', 'my', 'need', 'of', 'on', 'or', 'so', 'that', 'the', 'then', 'there', 'this',
+    'to', 'up', 'was', 'we', 'will', 'with', 'you',
+]);
+
+/** How much more a note counts when training if the user chose its category themselves. */
+const CORRECTION_WEIGHT = 3;
+/** How much each keyword or pattern match multiplies the odds of its category. */
+const MATCH_WEIGHT = 20;
+/** The number of saved notes after which the model's own confidence is trusted in full. */
+const MIN_TRAINING_NOTES = 20;
+/** The maximum number of words in a title taken from the note. */
+const TITLE_WORDS = 8;
+
+/**
+ * A saved note used to train the model.
+ */
+export interface TrainingExample {
+    /** The note text, without its `Category:` header. */
+    text: string;
+    /** The id of the note's category. */
+    categoryId: string;
+    /** How much the note counts. */
+    weight: number;
+}
+
+/**
+ * Word counts per category, learned from saved notes.
+ */
+export interface NaiveBayesModel {
+    /** The (weighted) number of notes and the word counts, by category id. */
+    classes: Record<string, { notes: number; words: Record<string, number>; totalWords: number }>;
+    /** The number of distinct words seen in training. */
+    vocabularySize: number;
+    /** The (weighted) number of notes trained on. */
+    notes: number;
+}
+
+/**
+ * Splits text into lowercase words, leaving out stop words and single characters.
+ * @param {string} text - The text.
+ * @returns {string[]} The words, in order.
+ */
+export function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [])
+        .map(word => word.replace(/^'+|'+$/g, ''))
+        .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Checks whether a pattern entered by the user is a valid regular expression.
+ * @param {string} pattern - The pattern source, without slashes.
+ * @returns {boolean} True if the pattern compiles.
+ */
+export function isValidPattern(pattern: string): boolean {
+    try {
+        new RegExp(pattern, 'iu');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Counts how many of a category's keywords and patterns occur in a note.
+ * Keywords match whole words, ignoring case; invalid patterns are skipped.
+ * @param {string} text - The note text.
+ * @param {Category} category - The category.
+ * @returns {number} The number of keywords and patterns that matched.
+ */
+export function countRuleMatches(text: string, category: Category): number {
+    const keywordMatches = (category.keywords ?? []).filter(keyword => {
+        const words = keyword.trim().split(/\s+/).filter(Boolean).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+        return words.length > 0 && new RegExp(`(?<![\\p{L}\\p{N}])${words.join('\\s+')}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+    }).length;
+    const patternMatches = (category.patterns ?? []).filter(pattern => isValidPattern(pattern) && new RegExp(pattern, 'iu').test(text)).length;
+    return keywordMatches + patternMatches;
+}
+
+/**
+ * Turns saved notes into training examples. Notes still waiting to be
+ * categorized, and notes in categories that no longer exist, are left out.
+ * @param {Note[]} notes - The saved notes.
+ * @param {Category[]} categories - The user's categories.
+ * @returns {TrainingExample[]} The examples.
+ */
+export function trainingExamples(notes: Note[], categories: Category[]): TrainingExample[] {
+    return notes.flatMap(note => {
+        const category = resolveCategory(categories, note);
+        if (note.categorization || !category) return [];
+        return [{
+            text: stripCategoryPrefix(note.text, note.category),
+            categoryId: category.id,
+            weight: note.categorySetByUser ? CORRECTION_WEIGHT : 1,
+        }];
+    });
+}
+
+/**
+ * Trains a multinomial naive Bayes model.
+ * @param {TrainingExample[]} examples - The training examples.
+ * @returns {NaiveBayesModel} The model.
+ */
+export function trainNaiveBayes(examples: TrainingExample[]): NaiveBayesModel {
+    const model: NaiveBayesModel = { classes: {}, vocabularySize: 0, notes: 0 };
+    const vocabulary = new Set<string>();
+    examples.forEach(({ text, categoryId, weight }) => {
+        const entry = model.classes[categoryId] ??= { notes: 0, words: {}, totalWords: 0 };
+        entry.notes += weight;
+        model.notes += weight;
+        tokenize(text).forEach(word => {
+            entry.words[word] = (entry.words[word] ?? 0) + weight;
+            entry.totalWords += weight;
+            vocabulary.add(word);
+        });
+    });
+    model.vocabularySize = vocabulary.size;
+    return model;
+}
+
+/**
+ * Derives a title from the first line of a note.
+ * @param {string} text - The note text.
+ * @returns {string} Up to the first eight words, capitalized and without trailing punctuation.
+ */
+const titleFromText = (text: string): string => {
+    const words = (text.trim().split('\n')[0] ?? '').replace(/^[-*•\d.)\s]+/, '').split(/\s+/).filter(Boolean);
+    const title = words.slice(0, TITLE_WORDS).join(' ').replace(/[\s,.;:!?]+$/, '');
+    return title.charAt(0).toUpperCase() + title.slice(1);
+};
+
+/**
+ * Categorizes a note locally. The model's probabilities for each category are
+ * boosted by the category's keyword and pattern matches. Until enough notes
+ * have been saved, the model's own confidence is scaled down, so early guesses
+ * are shown for review. With nothing to go on, the note goes to "Notes" with a
+ * confidence of 0.
+ * @param {string} text - The note text.
+ * @param {Category[]} categories - The user's categories.
+ * @param {NaiveBayesModel} model - The model trained on the user's notes.
+ * @returns {CategorizationResult} The categorization.
+ */
+export function categorizeLocally(text: string, categories: Category[], model: NaiveBayesModel): CategorizationResult {
+    const words = tokenize(text);
+    const title = titleFromText(text);
+    const matches = categories.map(category => countRuleMatches(text, category));
+    const hasMatches = matches.some(count => count > 0);
+    if (categories.length === 0 || (!hasMatches && (model.notes === 0 || words.length === 0))) {
+        const fallback = findCategory(categories, FALLBACK_CATEGORY);
+        return { category: fallback?.name ?? FALLBACK_CATEGORY, categoryId: fallback?.id, confidence: 0, tags: [], title };
+    }
+
+    // Log-likelihoods are scaled by the square root of the note's length, so a long
+    // note doesn't make the model certain just by having many words.
+    const scale = 1 / Math.sqrt(Math.max(1, words.length));
+    const scores = categories.map((category, index) => {
+        const entry = model.classes[category.id];
+        const prior = Math.log(((entry?.notes ?? 0) + 1) / (model.notes + categories.length));
+        const likelihood = words.reduce((sum: number, word: string) =>
+            sum + Math.log(((entry?.words[word] ?? 0) + 1) / ((entry?.totalWords ?? 0) + model.vocabularySize + 1)), 0);
+        return prior + likelihood * scale + Math.log(1 + MATCH_WEIGHT * matches[index]);
+    });
+
+    const max = Math.max(...scores);
+    const weights = scores.map(score => Math.exp(score - max));
+    const total = weights.reduce((sum: number, weight: number) => sum + weight, 0);
+    const best = weights.indexOf(Math.max(...weights));
+    const trust = hasMatches ? 1 : Math.min(1, model.notes / MIN_TRAINING_NOTES);
+    return {
+        category: categories[best].name,
+        categoryId: categories[best].id,
+        confidence: (weights[best] / total) * trust,
+        tags: [],
+        title,
+    };
+}
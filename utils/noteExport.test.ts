@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { Note } from '../types';
+import { notesToJson, parseNote, parseNotesJson } from './noteExport';
+
+describe('parseNote', () => {
+    it('keeps the fields a note carries between devices', () => {
+        const note: Note = {
+            id: 'n1',
+            text: 'Call the dentist',
+            category: 'Health',
+            categoryId: 'c1',
+            title: 'Dentist',
+            confidence: 0.8,
+            tags: ['appointments'],
+            timestamp: new Date('2024-05-01T10:00:00.000Z'),
+            emailSent: true,
+            updatedAt: new Date('2024-05-02T10:00:00.000Z'),
+            revisions: [{ id: 'r1', timestamp: new Date('2024-05-02T10:00:00.000Z'), text: 'Call the dentis', category: 'Health', conflict: true }],
+            categorySetByUser: true,
+        };
+        expect(parseNotesJson(notesToJson([note])).notes).toEqual([note]);
+    });
+
+    it('drops fields of the wrong type and those that belong to another device', () => {
+        const note = parseNote({
+            id: 'n1',
+            text: 'Buy milk',
+            category: 'Shopping',
+            timestamp: '2024-05-01T10:00:00.000Z',
+            confidence: 'high',
+            tags: ['groceries', 3],
+            audioId: 'missing-recording',
+            audioDuration: 12,
+            deliveries: 'oops',
+            categorization: 'pending',
+            changeStamp: '0lvn5rk00-0000-other',
+            injected: true,
+            revisions: [
+                { id: 'r1', timestamp: '2024-05-01T09:00:00.000Z', text: 'Buy milk', category: 5 },
+                { id: 'r2', timestamp: '2024-05-01T09:30:00.000Z', text: 'Buy oat milk', category: 'Shopping', extra: 'x' },
+            ],
+        });
+        expect(note).toEqual({
+            id: 'n1',
+            text: 'Buy milk',
+            category: 'Shopping',
+            timestamp: new Date('2024-05-01T10:00:00.000Z'),
+            tags: ['groceries'],
+            revisions: [{ id: 'r2', timestamp: new Date('2024-05-01T09:30:00.000Z'), text: 'Buy oat milk', category: 'Shopping' }],
+        });
+    });
+
+    it('rejects values that are not notes', () => {
+        expect(parseNote(null)).toBeNull();
+        expect(parseNote({ id: 'n1', text: 'No time', category: 'Notes' })).toBeNull();
+        expect(parseNote({ id: 'n1', text: 'Bad time', category: 'Notes', timestamp: 'yesterday' })).toBeNull();
+    });
+});
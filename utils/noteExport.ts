@@ -0,0 +1,333 @@
+/**
+ * @file This file contains functions for exporting notes to other apps
+ * (Markdown for Obsidian, ENEX for Evernote, CSV for spreadsheets) and for
+ * backing notes up to and restoring them from JSON.
+ */
+
+import { Note, NoteRevision } from '../types';
+import { createZip, ZipEntry } from './zip';
+import { isRecord } from './validation';
+
+/** The formats notes can be exported to. */
+export type ExportFormat = 'markdown' | 'json' | 'csv' | 'enex';
+
+/** The export formats with their labels, in the order they are offered to the user. */
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+    { format: 'markdown', label: 'Markdown (zip, one file per note)' },
+    { format: 'json', label: 'JSON (can be imported again)' },
+    { format: 'csv', label: 'CSV' },
+    { format: 'enex', label: 'Evernote (ENEX)' },
+];
+
+/** Identifies files written by `notesToJson`. */
+const JSON_EXPORT_FORMAT = 'quicknotes';
+/** The version of the JSON export format. */
+const JSON_EXPORT_VERSION = 1;
+
+/**
+ * An exported file, ready to be downloaded.
+ */
+export interface ExportFile {
+    /** The file contents. */
+    blob: Blob;
+    /** The suggested file name. */
+    fileName: string;
+}
+
+/**
+ * Turns text into a lowercase, dash-separated slug for use in file names.
+ * @param {string} text - The text.
+ * @returns {string} The slug, or an empty string if nothing usable is left.
+ */
+const slugify = (text: string): string =>
+    text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+
+/**
+ * Formats a date as `YYYY-MM-DD`.
+ * @param {Date} date - The date.
+ * @returns {string} The formatted date.
+ */
+const isoDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Renders a note as a Markdown document with YAML front matter.
+ * @param {Note} note - The note.
+ * @returns {string} The Markdown document.
+ */
+export function noteToMarkdown(note: Note): string {
+    // JSON strings are valid YAML scalars, which saves writing a YAML escaper.
+    const frontMatter = [
+        `id: ${JSON.stringify(note.id)}`,
+        note.title ? `title: ${JSON.stringify(note.title)}` : null,
+        `category: ${JSON.stringify(note.category)}`,
+        `tags: [${(note.tags ?? []).map(tag => JSON.stringify(tag)).join(', ')}]`,
+        `created: ${note.timestamp.toISOString()}`,
+        note.updatedAt ? `updated: ${note.updatedAt.toISOString()}` : null,
+        `emailed: ${note.emailSent ? 'true' : 'false'}`,
+    ].filter(line => line !== null);
+
+    const heading = note.title ? `# ${note.title}\n\n` : '';
+    return `---\n${frontMatter.join('\n')}\n---\n\n${heading}${note.text}\n`;
+}
+
+/**
+ * Exports notes as a ZIP archive of Markdown files, one per note.
+ * @param {Note[]} notes - The notes to export.
+ * @returns {Blob} The ZIP archive.
+ */
+export function notesToMarkdownZip(notes: Note[]): Blob {
+    const usedNames = new Set<string>();
+    const entries: ZipEntry[] = notes.map(note => {
+        const base = `${isoDay(note.timestamp)}-${slugify(note.title || note.category) || 'note'}`;
+        let name = `${base}.md`;
+        for (let n = 2; usedNames.has(name); n++) {
+            name = `${base}-${n}.md`;
+        }
+        usedNames.add(name);
+        return { name, content: noteToMarkdown(note), modified: note.updatedAt ?? note.timestamp };
+    });
+    return createZip(entries);
+}
+
+/**
+ * Serializes notes, including their revision history, as JSON that can be imported again.
+ * @param {Note[]} notes - The notes to export.
+ * @param {Date} [now] - The export time recorded in the file. Defaults to now.
+ * @returns {string} The JSON document.
+ */
+export function notesToJson(notes: Note[], now: Date = new Date()): string {
+    return JSON.stringify({ format: JSON_EXPORT_FORMAT, version: JSON_EXPORT_VERSION, exportedAt: now, notes }, null, 2);
+}
+
+/**
+ * Quotes a value for a CSV cell, following RFC 4180.
+ * @param {string} value - The cell value.
+ * @returns {string} The quoted value.
+ */
+const csvCell = (value: string): string => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Exports notes as CSV, one row per note.
+ * @param {Note[]} notes - The notes to export.
+ * @returns {string} The CSV document.
+ */
+export function notesToCsv(notes: Note[]): string {
+    const header = ['id', 'created', 'updated', 'category', 'title', 'tags', 'emailed', 'confidence', 'text'];
+    const rows = notes.map(note => [
+        note.id,
+        note.timestamp.toISOString(),
+        note.updatedAt?.toISOString() ?? '',
+        note.category,
+        note.title ?? '',
+        (note.tags ?? []).join('; '),
+        note.emailSent ? 'yes' : 'no',
+        note.confidence !== undefined ? String(note.confidence) : '',
+        note.text,
+    ]);
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Escapes text for use in XML.
+ * @param {string} text - The text.
+ * @returns {string} The escaped text.
+ */
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Formats a date the way ENEX files expect, e.g. `20250131T094500Z`.
+ * @param {Date} date - The date.
+ * @returns {string} The formatted date.
+ */
+const enexDate = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Exports notes as an Evernote ENEX file.
+ * @param {Note[]} notes - The notes to export.
+ * @param {Date} [now] - The export time recorded in the file. Defaults to now.
+ * @returns {string} The ENEX document.
+ */
+export function notesToEnex(notes: Note[], now: Date = new Date()): string {
+    const noteElements = notes.map(note => {
+        // Evernote note bodies are ENML, an XHTML dialect; each line becomes a <div>.
+        const body = note.text.split('\n').map(line => line ? `<div>${escapeXml(line)}</div>` : '<div><br/></div>').join('');
+        const content = `<?xml version="1.0" encoding="UTF-8" standalone="no"?><!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd"><en-note>${body}</en-note>`;
+        const tags = [note.category, ...(note.tags ?? [])].map(tag => `<tag>${escapeXml(tag)}</tag>`).join('');
+        return [
+            '<note>',
+            `<title>${escapeXml(note.title || note.category)}</title>`,
+            `<content><![CDATA[${content}]]></content>`,
+            `<created>${enexDate(note.timestamp)}</created>`,
+            `<updated>${enexDate(note.updatedAt ?? note.timestamp)}</updated>`,
+            tags,
+            '</note>',
+        ].join('');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<!DOCTYPE en-export SYSTEM "http://xml.evernote.com/pub/evernote-export4.dtd">',
+        `<en-export export-date="${enexDate(now)}" application="QuickNotes AI" version="1.0">`,
+        ...noteElements,
+        '</en-export>',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Exports notes in the given format.
+ * @param {Note[]} notes - The notes to export.
+ * @param {ExportFormat} format - The format to export to.
+ * @param {Date} [now] - The export time, used in the file name. Defaults to now.
+ * @returns {ExportFile} The exported file.
+ */
+export function exportNotes(notes: Note[], format: ExportFormat, now: Date = new Date()): ExportFile {
+    const baseName = `quicknotes-${isoDay(now)}`;
+    switch (format) {
+        case 'markdown':
+            return { blob: notesToMarkdownZip(notes), fileName: `${baseName}-markdown.zip` };
+        case 'json':
+            return { blob: new Blob([notesToJson(notes, now)], { type: 'application/json' }), fileName: `${baseName}.json` };
+        case 'csv':
+            // The byte order mark makes Excel read the file as UTF-8.
+            return { blob: new Blob(['\uFEFF', notesToCsv(notes)], { type: 'text/csv' }), fileName: `${baseName}.csv` };
+        case 'enex':
+            return { blob: new Blob([notesToEnex(notes, now)], { type: 'application/xml' }), fileName: `${baseName}.enex` };
+    }
+}
+
+/**
+ * Parses a date from an imported file.
+ * @param {unknown} value - The serialized date.
+ * @returns {Date | null} The date, or null if the value isn't a valid date.
+ */
+function parseDate(value: unknown): Date | null {
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Restores an earlier version of a note from its JSON form.
+ * @param {unknown} raw - The parsed JSON value.
+ * @returns {NoteRevision | null} The revision, or null if the value isn't a valid revision.
+ */
+function parseRevision(raw: unknown): NoteRevision | null {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.text !== 'string' || typeof raw.category !== 'string') {
+        return null;
+    }
+    const timestamp = parseDate(raw.timestamp);
+    if (!timestamp) return null;
+    return {
+        id: raw.id,
+        timestamp,
+        text: raw.text,
+        category: raw.category,
+        ...(typeof raw.categoryId === 'string' ? { categoryId: raw.categoryId } : {}),
+        ...(raw.conflict === true ? { conflict: true } : {}),
+    };
+}
+
+/**
+ * Restores a single note from its JSON form, as exported or synced. Only the
+ * fields a note can carry between devices are read, each checked for its type.
+ * Fields that belong to the device the note came from, such as its recording and
+ * delivery status, are left out.
+ * @param {unknown} raw - The parsed JSON value.
+ * @returns {Note | null} The note, or null if the value isn't a valid note.
+ */
+export function parseNote(raw: unknown): Note | null {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.text !== 'string' || typeof raw.category !== 'string') {
+        return null;
+    }
+    const timestamp = parseDate(raw.timestamp);
+    if (!timestamp) return null;
+    const updatedAt = parseDate(raw.updatedAt);
+    const confidence = typeof raw.confidence === 'number' && raw.confidence >= 0 && raw.confidence <= 1 ? raw.confidence : undefined;
+
+    return {
+        id: raw.id,
+        text: raw.text,
+        category: raw.category,
+        timestamp,
+        ...(typeof raw.categoryId === 'string' ? { categoryId: raw.categoryId } : {}),
+        ...(typeof raw.title === 'string' ? { title: raw.title } : {}),
+        ...(confidence !== undefined ? { confidence } : {}),
+        ...(Array.isArray(raw.tags) ? { tags: raw.tags.filter((tag): tag is string => typeof tag === 'string') } : {}),
+        ...(typeof raw.emailSent === 'boolean' ? { emailSent: raw.emailSent } : {}),
+        ...(updatedAt ? { updatedAt } : {}),
+        ...(Array.isArray(raw.revisions)
+            ? { revisions: raw.revisions.map(parseRevision).filter((revision): revision is NoteRevision => revision !== null) }
+            : {}),
+        ...(typeof raw.categorySetByUser === 'boolean' ? { categorySetByUser: raw.categorySetByUser } : {}),
+    };
+}
+
+/**
+ * The result of parsing an imported JSON file.
+ */
+export interface ParsedImport {
+    /** The valid notes in the file. */
+    notes: Note[];
+    /** The number of entries that were skipped because they aren't valid notes. */
+    invalidCount: number;
+}
+
+/**
+ * Parses a file written by `notesToJson`. A bare array of notes is accepted too.
+ * @param {string} json - The file contents.
+ * @returns {ParsedImport} The notes in the file.
+ * @throws {Error} If the file isn't a QuickNotes JSON export.
+ */
+export function parseNotesJson(json: string): ParsedImport {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+
+    const rawNotes = Array.isArray(data) ? data : isRecord(data) && data.format === JSON_EXPORT_FORMAT ? data.notes : null;
+    if (!Array.isArray(rawNotes)) {
+        throw new Error("The file is not a QuickNotes export.");
+    }
+    if (isRecord(data) && Number(data.version) > JSON_EXPORT_VERSION) {
+        throw new Error("The file was exported by a newer version of QuickNotes.");
+    }
+
+    const notes = rawNotes.map(parseNote).filter((note: Note | null): note is Note => note !== null);
+    return { notes, invalidCount: rawNotes.length - notes.length };
+}
+
+/**
+ * Finds the imported notes that aren't saved yet. Notes are matched by id,
+ * so importing the same file twice has no effect.
+ * @param {Note[]} existing - The notes already saved.
+ * @param {Note[]} imported - The imported notes.
+ * @returns {Note[]} The imported notes that are new.
+ */
+export function findNewNotes(existing: Note[], imported: Note[]): Note[] {
+    const seen = new Set(existing.map(note => note.id));
+    return imported.filter(note => {
+        if (seen.has(note.id)) return false;
+        seen.add(note.id);
+        return true;
+    });
+}
+
+/**
+ * Offers a file to the user as a download.
+ * @param {ExportFile} file - The file to download.
+ */
+export function downloadFile(file: ExportFile): void {
+    const url = URL.createObjectURL(file.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before releasing the blob.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,100 @@
+/**
+ * @file This file contains the filtering and sorting applied to the saved notes list.
+ */
+
+import { Note, Category } from '../types';
+import { resolveCategory } from './categoryUtils';
+
+/** The ways the saved notes list can be sorted. */
+export type NoteSortOrder = 'category' | 'newest' | 'oldest' | 'relevance';
+
+/**
+ * The filters the user has applied to the saved notes list.
+ */
+export interface NoteFilters {
+    /** The full-text search query. */
+    query: string;
+    /** Only show notes in these categories (by id). An empty list shows all categories. */
+    categoryIds: string[];
+    /** Only show notes saved on or after this date, as `yyyy-mm-dd`. */
+    from: string;
+    /** Only show notes saved on or before this date, as `yyyy-mm-dd`. */
+    to: string;
+    /** Whether to show all notes, only emailed notes, or only notes that haven't been emailed. */
+    emailed: 'all' | 'emailed' | 'not-emailed';
+    /** How to order the results. */
+    sort: NoteSortOrder;
+}
+
+/** The filters used when nothing has been narrowed down. */
+export const DEFAULT_NOTE_FILTERS: NoteFilters = {
+    query: '',
+    categoryIds: [],
+    from: '',
+    to: '',
+    emailed: 'all',
+    sort: 'category',
+};
+
+/**
+ * Checks whether any filter other than the sort order is active.
+ * @param {NoteFilters} filters - The current filters.
+ * @returns {boolean} True if the list is being narrowed down.
+ */
+export function hasActiveFilters(filters: NoteFilters): boolean {
+    return filters.query.trim() !== ''
+        || filters.categoryIds.length > 0
+        || filters.from !== ''
+        || filters.to !== ''
+        || filters.emailed !== 'all';
+}
+
+/**
+ * Parses a `yyyy-mm-dd` date input value as a local date.
+ * @param {string} value - The input value.
+ * @param {boolean} endOfDay - Whether to return the last millisecond of the day instead of the first.
+ * @returns {Date | null} The date, or null if the value is empty.
+ */
+const parseDateInput = (value: string, endOfDay: boolean): Date | null => {
+    if (!value) return null;
+    const [year, month, day] = value.split('-').map(Number);
+    return endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999) : new Date(year, month - 1, day);
+};
+
+/**
+ * Applies the filters and sort order to a list of notes.
+ * @param {Note[]} notes - All saved notes.
+ * @param {NoteFilters} filters - The filters to apply.
+ * @param {Category[]} categories - The user's categories, used to match notes to category filters.
+ * @param {Map<string, number> | null} searchScores - Relevance scores from the search index, or null when there is no query.
+ * @returns {Note[]} The matching notes, in the requested order.
+ */
+export function filterNotes(notes: Note[], filters: NoteFilters, categories: Category[], searchScores: Map<string, number> | null): Note[] {
+    const from = parseDateInput(filters.from, false);
+    const to = parseDateInput(filters.to, true);
+
+    const matching = notes.filter(note => {
+        if (searchScores && !searchScores.has(note.id)) return false;
+        if (filters.categoryIds.length > 0) {
+            const category = resolveCategory(categories, note);
+            if (!category || !filters.categoryIds.includes(category.id)) return false;
+        }
+        if (from && note.timestamp < from) return false;
+        if (to && note.timestamp > to) return false;
+        if (filters.emailed === 'emailed' && !note.emailSent) return false;
+        if (filters.emailed === 'not-emailed' && note.emailSent) return false;
+        return true;
+    });
+
+    const byNewest = (a: Note, b: Note) => b.timestamp.getTime() - a.timestamp.getTime();
+    switch (filters.sort) {
+        case 'oldest':
+            return matching.sort((a, b) => -byNewest(a, b));
+        case 'relevance':
+            return searchScores
+                ? matching.sort((a, b) => (searchScores.get(b.id) ?? 0) - (searchScores.get(a.id) ?? 0) || byNewest(a, b))
+                : matching.sort(byNewest);
+        default:
+            return matching.sort(byNewest);
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * @file This file contains helper functions for transforming saved notes.
+ */
+
+import { Note, Category, CategorizationResult } from '../types';
+import { findCategory, resolveCategory } from './categoryUtils';
+
+/** The category used for notes that don't belong anywhere else. */
+export const FALLBACK_CATEGORY = 'Notes';
+
+/**
+ * Replaces the `Category:` header that is prepended to a note's text when it is saved.
+ * If the text doesn't start with the old header, it is returned unchanged.
+ * @param {string} text - The note text.
+ * @param {string} oldCategory - The category name currently in the header.
+ * @param {string} newCategory - The category name to put in the header.
+ * @returns {string} The text with the updated header.
+ */
+export function replaceCategoryPrefix(text: string, oldCategory: string, newCategory: string): string {
+    const oldPrefix = `${oldCategory}:\n\n`;
+    if (!text.startsWith(oldPrefix)) {
+        return text;
+    }
+    return `${newCategory}:\n\n${text.slice(oldPrefix.length)}`;
+}
+
+/**
+ * Removes the `Category:` header from a note's text, leaving what was dictated.
+ * @param {string} text - The note text.
+ * @param {string} category - The category name in the header.
+ * @returns {string} The text without the header, or unchanged if it has none.
+ */
+export function stripCategoryPrefix(text: string, category: string): string {
+    const prefix = `${category}:\n\n`;
+    return text.startsWith(prefix) ? text.slice(prefix.length) : text;
+}
+
+/**
+ * Adds dictated text to the end of a note, after a line with the time it was added.
+ * @param {string} text - The note text.
+ * @param {string} addition - The text to add.
+ * @param {Date} [date] - When the text was added. Defaults to now.
+ * @returns {string} The combined text.
+ */
+export function appendToNoteText(text: string, addition: string, date: Date = new Date()): string {
+    return `${text.trimEnd()}\n\n— Added ${date.toLocaleString()} —\n${addition}`;
+}
+
+/**
+ * Fills in the category of a note that was saved before the AI model could categorize it.
+ * The `Category:` header follows the new category, the generated title is used
+ * unless the note already has one, and the suggested tags are added to any it has.
+ * @param {Note} note - The saved note.
+ * @param {CategorizationResult} result - The model's categorization.
+ * @param {Category[]} categories - The user's categories.
+ * @returns {Note} The categorized note, no longer waiting for categorization.
+ */
+export function applyCategorization(note: Note, result: CategorizationResult, categories: Category[]): Note {
+    const name = resolveCategory(categories, result)?.name ?? result.category;
+    return {
+        ...note,
+        category: name,
+        categoryId: result.categoryId,
+        confidence: result.confidence,
+        title: note.title || result.title || undefined,
+        tags: Array.from(new Set([...(note.tags ?? []), ...result.tags])),
+        text: replaceCategoryPrefix(note.text, note.category, name),
+        categorization: undefined,
+    };
+}
+
+/**
+ * Updates saved notes after the user edits their categories.
+ * Notes follow their category through renames (matched by id, or by name for
+ * notes saved before categories had ids); notes whose category was deleted are
+ * moved to the fallback category.
+ * @param {Note[]} notes - The saved notes.
+ * @param {Category[]} previous - The categories before the edit.
+ * @param {Category[]} next - The categories after the edit.
+ * @returns {Note[]} The migrated notes. Unchanged notes keep their identity.
+ */
+export function migrateNoteCategories(notes: Note[], previous: Category[], next: Category[]): Note[] {
+    const fallback = findCategory(next, FALLBACK_CATEGORY);
+    return notes.map(note => {
+        const oldCategory = resolveCategory(previous, note);
+        if (!oldCategory) {
+            return note;
+        }
+
+        const newCategory = next.find(c => c.id === oldCategory.id);
+        const newName = newCategory?.name ?? fallback?.name ?? FALLBACK_CATEGORY;
+        const newId = newCategory?.id ?? fallback?.id;
+        if (newName === note.category && newId === note.categoryId) {
+            return note;
+        }
+        return {
+            ...note,
+            category: newName,
+            categoryId: newId,
+            text: replaceCategoryPrefix(note.text, note.category, newName),
+        };
+    });
+}
+
+/**
+ * Builds a file name for a note's recording, e.g. `call-sam-about-report-2025-01-31.wav`.
+ * @param {{ title?: string; category: string }} note - The note the recording belongs to.
+ * @param {Date} [date] - The date to include in the name. Defaults to now.
+ * @returns {string} The file name.
+ */
+export function getAudioFileName(note: { title?: string; category: string }, date: Date = new Date()): string {
+    const slug = (note.title || note.category)
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, '-')
+        .replace(/^-+|-+$/g, '') || 'recording';
+    return `${slug}-${date.toISOString().slice(0, 10)}.wav`;
+}
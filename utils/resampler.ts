@@ -0,0 +1,74 @@
+/**
+ * @file This file contains a streaming resampler for mono audio.
+ * It runs inside the audio capture worklet, so it must not depend on anything
+ * that isn't available in an AudioWorkletGlobalScope.
+ */
+
+/**
+ * A resampler that converts consecutive blocks of audio from one sample rate to another,
+ * keeping its state between blocks so there are no clicks at block boundaries.
+ */
+export interface Resampler {
+    /**
+     * Resamples the next block of audio.
+     * @param {Float32Array} input - Samples at the input rate.
+     * @returns {Float32Array} Samples at the output rate. The length varies from block to block.
+     */
+    process: (input: Float32Array) => Float32Array;
+}
+
+/**
+ * Creates a streaming resampler using linear interpolation.
+ * When downsampling, the input is first passed through a two-pole low-pass filter
+ * just below the output Nyquist frequency to reduce aliasing.
+ *
+ * @param {number} inputRate - The sample rate of the incoming audio, e.g. 48000.
+ * @param {number} outputRate - The desired sample rate, e.g. 16000.
+ * @returns {Resampler} The resampler.
+ */
+export function createResampler(inputRate: number, outputRate: number): Resampler {
+    if (inputRate === outputRate) {
+        return { process: (input) => input.slice() };
+    }
+
+    const step = inputRate / outputRate;
+    const filterEnabled = outputRate < inputRate;
+    // Coefficient for a one-pole low-pass at 45% of the output rate; applied twice for a steeper roll-off.
+    const alpha = 1 - Math.exp((-2 * Math.PI * 0.45 * outputRate) / inputRate);
+    let stage1 = 0;
+    let stage2 = 0;
+
+    // The last filtered sample of the previous block, used to interpolate across the boundary.
+    let previous = 0;
+    // Position of the next output sample, in input samples relative to `previous`.
+    let position = 1;
+
+    return {
+        process(input) {
+            const filtered = new Float32Array(input.length + 1);
+            filtered[0] = previous;
+            for (let i = 0; i < input.length; i++) {
+                let sample = input[i];
+                if (filterEnabled) {
+                    stage1 += alpha * (sample - stage1);
+                    stage2 += alpha * (stage1 - stage2);
+                    sample = stage2;
+                }
+                filtered[i + 1] = sample;
+            }
+
+            const output = new Float32Array(Math.max(0, Math.ceil((filtered.length - 1 - position) / step)));
+            let count = 0;
+            while (position < filtered.length - 1 && count < output.length) {
+                const index = Math.floor(position);
+                const fraction = position - index;
+                output[count++] = filtered[index] + (filtered[index + 1] - filtered[index]) * fraction;
+                position += step;
+            }
+
+            position -= filtered.length - 1;
+            previous = filtered[filtered.length - 1];
+            return count === output.length ? output : output.subarray(0, count);
+        },
+    };
+}
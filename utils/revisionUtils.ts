@@ -0,0 +1,93 @@
+/**
+ * @file This file contains helper functions for editing saved notes while keeping their revision history.
+ */
+
+import { Note, NoteEdit, NoteRevision } from '../types';
+
+/** The maximum number of earlier versions kept per note. */
+export const MAX_REVISIONS = 50;
+
+/**
+ * Applies an edit to a saved note. The note's current text and category are
+ * recorded as a revision first, so the edit can be undone later.
+ * @param {Note} note - The note to edit.
+ * @param {NoteEdit} edit - The new text and category.
+ * @param {Date} [now] - The time of the edit. Defaults to now.
+ * @returns {Note} The edited note, or the same note if nothing changed.
+ */
+export function applyNoteEdit(note: Note, edit: NoteEdit, now: Date = new Date()): Note {
+    if (edit.text === note.text && edit.category === note.category && edit.categoryId === note.categoryId) {
+        return note;
+    }
+
+    const revision: NoteRevision = {
+        id: crypto.randomUUID(),
+        timestamp: now,
+        text: note.text,
+        category: note.category,
+        categoryId: note.categoryId,
+    };
+    return {
+        ...note,
+        text: edit.text,
+        category: edit.category,
+        categoryId: edit.categoryId,
+        updatedAt: now,
+        revisions: [...(note.revisions ?? []), revision].slice(-MAX_REVISIONS),
+    };
+}
+
+/**
+ * Restores an earlier version of a note. The restore is itself recorded as an
+ * edit, so the version being replaced stays in the history.
+ * @param {Note} note - The note to restore.
+ * @param {string} revisionId - The id of the revision to restore.
+ * @returns {Note} The restored note, or the same note if the revision doesn't exist.
+ */
+export function restoreRevision(note: Note, revisionId: string): Note {
+    const revision = note.revisions?.find(r => r.id === revisionId);
+    if (!revision) {
+        return note;
+    }
+    return applyNoteEdit(note, { text: revision.text, category: revision.category, categoryId: revision.categoryId });
+}
+
+/**
+ * A version of a note as shown in its history: either an earlier revision or the current version.
+ */
+export interface NoteVersion {
+    /** The revision id, or null for the current version. */
+    revisionId: string | null;
+    /** The text of this version. */
+    text: string;
+    /** The category of this version. */
+    category: string;
+    /** When this version was created. */
+    createdAt: Date;
+    /** True if this version came from another device and lost a sync conflict. */
+    conflict?: boolean;
+}
+
+/**
+ * Lists every version of a note, oldest first. Each revision records when it was
+ * replaced, so a version's creation time is the time its predecessor was replaced.
+ * @param {Note} note - The note.
+ * @returns {NoteVersion[]} The versions, ending with the current one.
+ */
+export function listNoteVersions(note: Note): NoteVersion[] {
+    const revisions = note.revisions ?? [];
+    const versions: NoteVersion[] = revisions.map((revision, index) => ({
+        revisionId: revision.id,
+        text: revision.text,
+        category: revision.category,
+        createdAt: index === 0 ? note.timestamp : revisions[index - 1].timestamp,
+        conflict: revision.conflict,
+    }));
+    versions.push({
+        revisionId: null,
+        text: note.text,
+        category: note.category,
+        createdAt: revisions.length > 0 ? revisions[revisions.length - 1].timestamp : note.timestamp,
+    });
+    return versions;
+}
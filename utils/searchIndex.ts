@@ -0,0 +1,172 @@
+/**
+ * @file This file contains an incremental full-text index over saved notes.
+ * Only notes whose content changed are re-indexed when the list is updated,
+ * so searching stays fast as the number of notes grows.
+ */
+
+import { Note } from '../types';
+
+/**
+ * A full-text index of notes.
+ */
+export interface SearchIndex {
+    /**
+     * Brings the index up to date with a list of notes. Notes that are new or
+     * changed are (re-)indexed; notes that are gone are removed.
+     * @param {Note[]} notes - All notes that should be searchable.
+     */
+    sync: (notes: Note[]) => void;
+    /**
+     * Finds the notes matching a query. Every word in the query must match the
+     * start of a word in the note, so results update as the user types.
+     * @param {string} query - The search query.
+     * @returns {Map<string, number>} The ids of matching notes, mapped to a relevance score.
+     */
+    search: (query: string) => Map<string, number>;
+}
+
+/**
+ * Splits text into lowercase search terms, ignoring accents and punctuation.
+ * @param {string} text - The text to split.
+ * @returns {string[]} The terms, in order of appearance.
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .normalize('NFD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean);
+}
+
+/**
+ * Builds the text that is indexed for a note: its title, text, category and tags.
+ * @param {Note} note - The note.
+ * @returns {string} The searchable text.
+ */
+const searchableText = (note: Note): string =>
+    [note.title ?? '', note.text, note.category, ...(note.tags ?? [])].join('\n');
+
+/**
+ * Creates an empty search index.
+ * @returns {SearchIndex} The index.
+ */
+export function createSearchIndex(): SearchIndex {
+    /** Maps each term to the notes containing it and how often it occurs in each. */
+    const postings = new Map<string, Map<string, number>>();
+    /** The text each note was last indexed with, used to detect changes. */
+    const indexed = new Map<string, { text: string; terms: Set<string> }>();
+
+    const remove = (id: string) => {
+        const entry = indexed.get(id);
+        if (!entry) return;
+        entry.terms.forEach(term => {
+            const notes = postings.get(term);
+            notes?.delete(id);
+            if (notes?.size === 0) postings.delete(term);
+        });
+        indexed.delete(id);
+    };
+
+    const add = (id: string, text: string) => {
+        const terms = tokenize(text);
+        terms.forEach(term => {
+            let notes = postings.get(term);
+            if (!notes) {
+                notes = new Map();
+                postings.set(term, notes);
+            }
+            notes.set(id, (notes.get(id) ?? 0) + 1);
+        });
+        indexed.set(id, { text, terms: new Set(terms) });
+    };
+
+    return {
+        sync(notes) {
+            const current = new Set<string>();
+            notes.forEach(note => {
+                current.add(note.id);
+                const text = searchableText(note);
+                if (indexed.get(note.id)?.text !== text) {
+                    remove(note.id);
+                    add(note.id, text);
+                }
+            });
+            Array.from(indexed.keys()).forEach(id => {
+                if (!current.has(id)) remove(id);
+            });
+        },
+
+        search(query) {
+            const queryTerms = Array.from(new Set(tokenize(query)));
+            let results: Map<string, number> | null = null;
+
+            for (const queryTerm of queryTerms) {
+                const matches = new Map<string, number>();
+                postings.forEach((notes, term) => {
+                    if (!term.startsWith(queryTerm)) return;
+                    // Whole-word matches count more than prefix matches.
+                    const weight = term === queryTerm ? 2 : 1;
+                    notes.forEach((count, id) => matches.set(id, (matches.get(id) ?? 0) + count * weight));
+                });
+
+                if (results === null) {
+                    results = matches;
+                } else {
+                    const previous: Map<string, number> = results;
+                    results = new Map();
+                    matches.forEach((score, id) => {
+                        const previousScore = previous.get(id);
+                        if (previousScore !== undefined) results!.set(id, previousScore + score);
+                    });
+                }
+                if (results.size === 0) break;
+            }
+            return results ?? new Map();
+        },
+    };
+}
+
+/**
+ * A range of characters to highlight in a piece of text.
+ */
+export interface HighlightRange {
+    /** The index of the first highlighted character. */
+    start: number;
+    /** The index after the last highlighted character. */
+    end: number;
+}
+
+/**
+ * Finds the parts of a text that match a search query, using the same rules as
+ * the index: each word starting with one of the query's terms is matched up to
+ * the length of that term.
+ * @param {string} text - The text to search in.
+ * @param {string} query - The search query.
+ * @returns {HighlightRange[]} The ranges to highlight, in order.
+ */
+export function findHighlights(text: string, query: string): HighlightRange[] {
+    const queryTerms = tokenize(query);
+    if (queryTerms.length === 0) return [];
+
+    const ranges: HighlightRange[] = [];
+    const wordPattern = /[\p{L}\p{N}\p{M}]+/gu;
+    let match: RegExpExecArray | null;
+    while ((match = wordPattern.exec(text)) !== null) {
+        const word = tokenize(match[0])[0] ?? '';
+        const longest = queryTerms.filter(term => word.startsWith(term)).reduce((max, term) => Math.max(max, term.length), 0);
+        if (longest > 0) {
+            // Map the normalized prefix length back onto the original word.
+            let end = match.index;
+            let consumed = 0;
+            while (end < match.index + match[0].length && consumed < longest) {
+                consumed += tokenize(text[end]).join('').length;
+                end++;
+            }
+            // Include any combining marks that follow the last matched character.
+            while (end < match.index + match[0].length && /\p{M}/u.test(text[end])) end++;
+            ranges.push({ start: match.index, end });
+        }
+    }
+    return ranges;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { SyncRecord, UserSettings } from '../types';
+import { recordToNote, recordToSettings, settingsToRecord } from './syncRecords';
+
+/** Settings using everything that is synced, as saved on another device. */
+const remoteSettings: UserSettings = {
+    onboardingComplete: true,
+    defaultEmail: 'me@example.com',
+    otherEmails: ['work@example.com'],
+    categories: [{ id: 'c1', name: 'Work', color: '#60a5fa', order: 0, extractsTasks: true, keywords: ['meeting'], formattingSteps: ['capitalize'] }],
+    keepAudio: true,
+    voiceCommandsEnabled: true,
+    voiceCommands: { newParagraph: ['next paragraph'] },
+    formatting: { steps: ['removeFillers'], replacements: [{ from: 'quick notes', to: 'QuickNotes' }] },
+    silence: { autoStopSeconds: 30, splitSeconds: 0 },
+    automationRules: [{ id: 'r1', categoryId: 'c1', minConfidence: 0.8, action: { type: 'webhook', targetId: 'w1' } }],
+    webhooks: [{ id: 'w1', name: 'Zapier', url: 'https://hooks.example.com/notes', headers: [{ name: 'Authorization', value: 'Bearer remote' }], secret: 'remote', sendAllNotes: false }],
+    categorizer: 'hybrid',
+    microphone: { gain: 2 },
+    changeStamp: '0lvn5rk00-0000-other',
+};
+
+/** This device's settings, holding its own credentials and connection. */
+const localSettings: UserSettings = {
+    onboardingComplete: true,
+    defaultEmail: '',
+    otherEmails: [],
+    categories: [],
+    webhooks: [{ id: 'w1', name: 'Zapier', url: 'https://hooks.example.com/notes', headers: [{ name: 'Authorization', value: 'Bearer local' }], secret: 'local', sendAllNotes: false }],
+    microphone: { deviceId: 'usb', gain: 1 },
+    sync: { enabled: true, url: '/api/sync', token: 'token' },
+};
+
+/**
+ * Builds a settings record holding some data.
+ * @param {unknown} data - The record's data.
+ * @returns {SyncRecord} The record.
+ */
+const settingsRecord = (data: unknown): SyncRecord => ({ type: 'settings', id: 'user', stamp: '0lvn5rk00-0001-other', data });
+
+describe('recordToSettings', () => {
+    it('restores synced settings with this device\'s credentials, connection and microphone', () => {
+        const record = JSON.parse(JSON.stringify(settingsToRecord(remoteSettings)));
+        expect(recordToSettings(record, localSettings)).toEqual({
+            ...remoteSettings,
+            webhooks: localSettings.webhooks,
+            microphone: localSettings.microphone,
+            sync: localSettings.sync,
+            changeStamp: '0lvn5rk00-0000-other',
+        });
+    });
+
+    it('leaves out optional settings that are malformed', () => {
+        const settings = recordToSettings(settingsRecord({
+            onboardingComplete: true,
+            defaultEmail: '',
+            otherEmails: [],
+            categories: [],
+            keepAudio: 'yes',
+            voiceCommands: { newLine: 'next line', scratchThat: ['undo'] },
+            formatting: { steps: ['capitalize', 'shout'], replacements: [{ from: 'a' }] },
+            silence: { autoStopSeconds: -1, splitSeconds: 5 },
+            automationRules: [{ id: 'r1', categoryId: 'c1', action: { type: 'email' } }],
+            webhooks: [
+                { id: 'w1', name: 'Bad', url: 'javascript:alert(1)', headers: [], sendAllNotes: true },
+                { id: 'w2', name: 'Good', url: 'https://example.com', headers: [{ name: 'X-Key', value: 'leaked' }, 'oops'], sendAllNotes: true },
+            ],
+            categorizer: 'magic',
+            injected: true,
+        }), null);
+        expect(settings).toEqual({
+            onboardingComplete: true,
+            defaultEmail: '',
+            otherEmails: [],
+            categories: [],
+            voiceCommands: { scratchThat: ['undo'] },
+            formatting: { steps: ['capitalize'], replacements: [] },
+            automationRules: [],
+            webhooks: [{ id: 'w2', name: 'Good', url: 'https://example.com', headers: [{ name: 'X-Key', value: '' }], sendAllNotes: true }],
+            sync: undefined,
+            microphone: undefined,
+            changeStamp: '0lvn5rk00-0001-other',
+        });
+    });
+
+    it('rejects records that don\'t hold settings', () => {
+        const valid = { onboardingComplete: true, defaultEmail: '', otherEmails: [], categories: [] };
+        expect(recordToSettings(settingsRecord(undefined), null)).toBeNull();
+        expect(recordToSettings(settingsRecord({ ...valid, categories: 'Work' }), null)).toBeNull();
+        expect(recordToSettings(settingsRecord({ ...valid, otherEmails: [1] }), null)).toBeNull();
+        expect(recordToSettings(settingsRecord({ ...valid, categories: [{ id: 'c1', name: 'Work' }] }), null)).toBeNull();
+    });
+});
+
+describe('recordToNote', () => {
+    it('keeps this device\'s own fields instead of the record\'s', () => {
+        const record: SyncRecord = {
+            type: 'note',
+            id: 'n1',
+            stamp: '0lvn5rk00-0000-other',
+            data: { id: 'n1', text: 'Buy milk', category: 'Notes', timestamp: '2024-05-01T10:00:00.000Z', audioId: 'theirs', deliveries: 'oops' },
+        };
+        const local = { id: 'n1', text: 'Buy', category: 'Notes', timestamp: new Date('2024-05-01T10:00:00.000Z'), audioId: 'mine' };
+        expect(recordToNote(record, local)).toEqual({
+            id: 'n1',
+            text: 'Buy milk',
+            category: 'Notes',
+            timestamp: new Date('2024-05-01T10:00:00.000Z'),
+            audioId: 'mine',
+            changeStamp: '0lvn5rk00-0000-other',
+        });
+    });
+});
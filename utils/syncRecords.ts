@@ -0,0 +1,373 @@
+/**
+ * @file This file converts notes and settings to and from the records exchanged
+ * with a sync server, and resolves conflicts when a note was edited on two
+ * devices at once. Some fields belong to the device and are never synced: the
+ * sync connection itself, the webhook and categorization queues' progress,
+ * recorded audio, which stays on the device that recorded it, and the secrets
+ * and header values of webhook targets, which the sync server mustn't see.
+ */
+
+import { AutomationAction, AutomationRule, Category, CategorizerMode, FormattingOptions, FormattingStep, Note, NoteRevision, Replacement, SilenceSettings, SyncRecord, Tombstone, UserSettings, VoiceCommandAction, VoiceCommandPhrases, WebhookHeader, WebhookTarget } from '../types';
+import { FORMATTING_STEPS } from './formatting';
+import { parseNote } from './noteExport';
+import { MAX_REVISIONS } from './revisionUtils';
+import { isRecord, isValidWebhookUrl } from './validation';
+import { DEFAULT_VOICE_COMMANDS } from './voiceCommands';
+
+/** The id of the settings record. */
+export const SETTINGS_RECORD_ID = 'user';
+
+/** The note fields that stay on this device. */
+const LOCAL_NOTE_FIELDS = ['deliveries', 'categorization', 'audioId', 'audioDuration'] as const;
+
+/** A note field that stays on this device. */
+type LocalNoteField = typeof LOCAL_NOTE_FIELDS[number];
+
+/**
+ * Copies one of this device's own fields from one version of a note to another.
+ * @param {Note} target - The note to copy to.
+ * @param {Note} source - The note to copy from.
+ * @param {LocalNoteField} field - The field.
+ */
+function copyLocalField<K extends LocalNoteField>(target: Note, source: Note, field: K): void {
+    target[field] = source[field];
+}
+
+/**
+ * Returns the fields of a note that are synced.
+ * @param {Note} note - The note.
+ * @returns {Partial<Note>} The note without its change stamp and device-only fields.
+ */
+const syncedNoteFields = (note: Note): Partial<Note> => {
+    const { changeStamp, ...synced } = note;
+    LOCAL_NOTE_FIELDS.forEach(field => delete synced[field]);
+    return synced;
+};
+
+/**
+ * Returns a webhook target without its credentials: no signing secret, and
+ * header names without their values.
+ * @param {WebhookTarget} target - The target.
+ * @returns {WebhookTarget} The target as it is synced.
+ */
+const withoutCredentials = (target: WebhookTarget): WebhookTarget => {
+    const { secret, ...synced } = target;
+    return { ...synced, headers: target.headers.map(header => ({ name: header.name, value: '' })) };
+};
+
+/**
+ * Puts this device's credentials back into a synced webhook target. The secret
+ * and header values come from the target with the same id, matching headers by name.
+ * @param {WebhookTarget} target - The synced target.
+ * @param {WebhookTarget[]} [localTargets] - This device's targets.
+ * @returns {WebhookTarget} The target with this device's credentials, if it has any.
+ */
+const withLocalCredentials = (target: WebhookTarget, localTargets: WebhookTarget[] = []): WebhookTarget => {
+    const local = localTargets.find(candidate => candidate.id === target.id);
+    return {
+        ...target,
+        secret: local?.secret,
+        headers: target.headers.map(header => ({
+            name: header.name,
+            value: local?.headers.find(candidate => candidate.name === header.name)?.value ?? '',
+        })),
+    };
+};
+
+/**
+ * Returns the settings that are synced.
+ * @param {UserSettings} settings - The settings.
+ * @returns {Omit<UserSettings, 'sync' | 'microphone' | 'changeStamp'>} The settings without the sync connection, microphone, change stamp and webhook credentials.
+ */
+export function syncedSettings(settings: UserSettings): Omit<UserSettings, 'sync' | 'microphone' | 'changeStamp'> {
+    const { sync, microphone, changeStamp, ...synced } = settings;
+    return synced.webhooks ? { ...synced, webhooks: synced.webhooks.map(withoutCredentials) } : synced;
+}
+
+/**
+ * Turns a saved note into a sync record.
+ * @param {Note} note - The note, with its change stamp.
+ * @returns {SyncRecord} The record.
+ */
+export function noteToRecord(note: Note): SyncRecord {
+    return { type: 'note', id: note.id, stamp: note.changeStamp ?? '', data: syncedNoteFields(note) };
+}
+
+/**
+ * Turns a deleted note into a sync record.
+ * @param {Tombstone} tombstone - The record of the deletion.
+ * @returns {SyncRecord} The record.
+ */
+export function tombstoneToRecord(tombstone: Tombstone): SyncRecord {
+    return { type: 'note', id: tombstone.id, stamp: tombstone.stamp, deleted: true };
+}
+
+/**
+ * Turns the settings into a sync record.
+ * @param {UserSettings} settings - The settings, with their change stamp.
+ * @returns {SyncRecord} The record.
+ */
+export function settingsToRecord(settings: UserSettings): SyncRecord {
+    return { type: 'settings', id: SETTINGS_RECORD_ID, stamp: settings.changeStamp ?? '', data: syncedSettings(settings) };
+}
+
+/**
+ * Restores a note from a sync record, keeping this device's own fields from its copy.
+ * @param {SyncRecord} record - The record, which must not be a deletion.
+ * @param {Note} [local] - This device's copy of the note, if it has one.
+ * @returns {Note | null} The note, or null if the record doesn't hold a valid note.
+ */
+export function recordToNote(record: SyncRecord, local?: Note): Note | null {
+    const note = parseNote(record.data);
+    if (!note || note.id !== record.id) return null;
+    const restored: Note = { ...note, changeStamp: record.stamp };
+    LOCAL_NOTE_FIELDS.forEach(field => {
+        if (local?.[field] !== undefined) copyLocalField(restored, local, field);
+    });
+    return restored;
+}
+
+/**
+ * Checks that a synced value is a list of strings.
+ * @param {unknown} value - The value.
+ * @returns {boolean} True if the value is an array holding only strings.
+ */
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Checks that a synced value is a number that isn't negative.
+ * @param {unknown} value - The value.
+ * @returns {boolean} True if the value is a finite number of at least 0.
+ */
+const isNonNegative = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Checks that a synced value is one of the formatting steps this version knows.
+ * @param {unknown} value - The value.
+ * @returns {boolean} True if the value names a formatting step.
+ */
+const isFormattingStep = (value: unknown): value is FormattingStep =>
+    FORMATTING_STEPS.some(({ step }) => step === value);
+
+/**
+ * Checks that a synced value is a categorizer mode.
+ * @param {unknown} value - The value.
+ * @returns {boolean} True if the value names a categorizer mode.
+ */
+const isCategorizerMode = (value: unknown): value is CategorizerMode =>
+    value === 'gemini' || value === 'local' || value === 'hybrid';
+
+/**
+ * Parses each entry of a synced list, leaving out the ones that aren't valid.
+ * @param {unknown[]} entries - The entries.
+ * @param {(raw: unknown) => T | null} parse - Parses one entry, returning null if it isn't valid.
+ * @returns {T[]} The valid entries.
+ */
+function parseEntries<T>(entries: unknown[], parse: (raw: unknown) => T | null): T[] {
+    return entries.map(parse).filter((entry): entry is T => entry !== null);
+}
+
+/**
+ * Restores a category from the synced settings.
+ * @param {unknown} raw - The synced value.
+ * @returns {Category | null} The category, or null if the value isn't a valid category.
+ */
+function parseCategory(raw: unknown): Category | null {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string'
+        || typeof raw.color !== 'string' || typeof raw.order !== 'number') {
+        return null;
+    }
+    return {
+        id: raw.id,
+        name: raw.name,
+        color: raw.color,
+        order: raw.order,
+        ...(typeof raw.description === 'string' ? { description: raw.description } : {}),
+        ...(typeof raw.extractsTasks === 'boolean' ? { extractsTasks: raw.extractsTasks } : {}),
+        ...(Array.isArray(raw.formattingSteps) ? { formattingSteps: raw.formattingSteps.filter(isFormattingStep) } : {}),
+        ...(isStringList(raw.keywords) ? { keywords: raw.keywords } : {}),
+        ...(isStringList(raw.patterns) ? { patterns: raw.patterns } : {}),
+    };
+}
+
+/**
+ * Restores a webhook target from the synced settings. Header values and the
+ * signing secret aren't synced; they are put back from this device's copy.
+ * @param {unknown} raw - The synced value.
+ * @returns {WebhookTarget | null} The target, or null if the value isn't a valid target.
+ */
+function parseWebhookTarget(raw: unknown): WebhookTarget | null {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || typeof raw.url !== 'string'
+        || !isValidWebhookUrl(raw.url) || !Array.isArray(raw.headers) || typeof raw.sendAllNotes !== 'boolean') {
+        return null;
+    }
+    const headers = parseEntries(raw.headers, (header): WebhookHeader | null =>
+        isRecord(header) && typeof header.name === 'string' ? { name: header.name, value: '' } : null);
+    return { id: raw.id, name: raw.name, url: raw.url, headers, sendAllNotes: raw.sendAllNotes };
+}
+
+/**
+ * Restores what an automation rule does from the synced settings.
+ * @param {unknown} raw - The synced value.
+ * @returns {AutomationAction | null} The action, or null if the value isn't a valid action.
+ */
+function parseAutomationAction(raw: unknown): AutomationAction | null {
+    if (!isRecord(raw)) return null;
+    switch (raw.type) {
+        case 'autoSave':
+            return { type: 'autoSave' };
+        case 'email':
+            return typeof raw.address === 'string' ? { type: 'email', address: raw.address } : null;
+        case 'addTag':
+            return typeof raw.tag === 'string' ? { type: 'addTag', tag: raw.tag } : null;
+        case 'webhook':
+            return typeof raw.targetId === 'string' ? { type: 'webhook', targetId: raw.targetId } : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Restores an automation rule from the synced settings.
+ * @param {unknown} raw - The synced value.
+ * @returns {AutomationRule | null} The rule, or null if the value isn't a valid rule.
+ */
+function parseAutomationRule(raw: unknown): AutomationRule | null {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.categoryId !== 'string') return null;
+    const action = parseAutomationAction(raw.action);
+    if (!action) return null;
+    const minConfidence = isNonNegative(raw.minConfidence) && raw.minConfidence <= 1 ? raw.minConfidence : undefined;
+    return {
+        id: raw.id,
+        categoryId: raw.categoryId,
+        ...(minConfidence !== undefined ? { minConfidence } : {}),
+        action,
+    };
+}
+
+/**
+ * Restores the formatting options from the synced settings.
+ * @param {unknown} raw - The synced value.
+ * @returns {FormattingOptions | null} The options, or null if the value isn't valid options.
+ */
+function parseFormatting(raw: unknown): FormattingOptions | null {
+    if (!isRecord(raw) || !Array.isArray(raw.steps) || !Array.isArray(raw.replacements)) return null;
+    return {
+        steps: raw.steps.filter(isFormattingStep),
+        replacements: parseEntries(raw.replacements, (replacement): Replacement | null =>
+            isRecord(replacement) && typeof replacement.from === 'string' && typeof replacement.to === 'string'
+                ? { from: replacement.from, to: replacement.to }
+                : null),
+    };
+}
+
+/**
+ * Restores the silence detection settings from the synced settings.
+ * @param {unknown} raw - The synced value.
+ * @returns {SilenceSettings | null} The settings, or null if the value isn't valid settings.
+ */
+function parseSilence(raw: unknown): SilenceSettings | null {
+    if (!isRecord(raw) || !isNonNegative(raw.autoStopSeconds) || !isNonNegative(raw.splitSeconds)) return null;
+    return { autoStopSeconds: raw.autoStopSeconds, splitSeconds: raw.splitSeconds };
+}
+
+/**
+ * Restores the user's voice command phrases from the synced settings, keeping the
+ * commands this version knows.
+ * @param {unknown} raw - The synced value.
+ * @returns {Partial<VoiceCommandPhrases> | null} The phrases, or null if the value isn't an object.
+ */
+function parseVoiceCommands(raw: unknown): Partial<VoiceCommandPhrases> | null {
+    if (!isRecord(raw)) return null;
+    const phrases: Partial<VoiceCommandPhrases> = {};
+    (Object.keys(DEFAULT_VOICE_COMMANDS) as VoiceCommandAction[]).forEach(action => {
+        const value = raw[action];
+        if (isStringList(value)) phrases[action] = value;
+    });
+    return phrases;
+}
+
+/**
+ * Restores the settings from a sync record, keeping this device's sync connection,
+ * microphone and webhook credentials. Only the settings that are synced are read,
+ * each checked for its type; optional settings that aren't valid are left out.
+ * @param {SyncRecord} record - The record.
+ * @param {UserSettings | null} local - This device's settings, if any.
+ * @returns {UserSettings | null} The settings, or null if the record doesn't hold valid settings.
+ */
+export function recordToSettings(record: SyncRecord, local: UserSettings | null): UserSettings | null {
+    const data = record.data;
+    if (!isRecord(data) || typeof data.onboardingComplete !== 'boolean' || typeof data.defaultEmail !== 'string'
+        || !isStringList(data.otherEmails) || !Array.isArray(data.categories)) {
+        return null;
+    }
+    const categories = parseEntries(data.categories, parseCategory);
+    // A category left out would strand its notes, so settings with a broken one aren't taken at all.
+    if (categories.length !== data.categories.length) return null;
+    const formatting = parseFormatting(data.formatting);
+    const silence = parseSilence(data.silence);
+    const voiceCommands = parseVoiceCommands(data.voiceCommands);
+
+    return {
+        onboardingComplete: data.onboardingComplete,
+        defaultEmail: data.defaultEmail,
+        otherEmails: data.otherEmails,
+        categories,
+        ...(typeof data.keepAudio === 'boolean' ? { keepAudio: data.keepAudio } : {}),
+        ...(typeof data.voiceCommandsEnabled === 'boolean' ? { voiceCommandsEnabled: data.voiceCommandsEnabled } : {}),
+        ...(voiceCommands ? { voiceCommands } : {}),
+        ...(formatting ? { formatting } : {}),
+        ...(silence ? { silence } : {}),
+        ...(Array.isArray(data.automationRules) ? { automationRules: parseEntries(data.automationRules, parseAutomationRule) } : {}),
+        ...(Array.isArray(data.webhooks)
+            ? { webhooks: parseEntries(data.webhooks, parseWebhookTarget).map(target => withLocalCredentials(target, local?.webhooks)) }
+            : {}),
+        ...(isCategorizerMode(data.categorizer) ? { categorizer: data.categorizer } : {}),
+        sync: local?.sync,
+        microphone: local?.microphone,
+        changeStamp: record.stamp,
+    };
+}
+
+/**
+ * Merges two versions of a note that were edited on different devices since they
+ * last synced. The version with the later change stamp wins; the other one is kept
+ * in the revision history, marked as a conflict, so no edit is lost. Both devices
+ * arrive at the same history, whichever of them merges.
+ * @param {Note} local - This device's version.
+ * @param {Note} remote - The other device's version.
+ * @param {Date} [now] - The time of the merge. Defaults to now.
+ * @returns {Note} The merged note, with this device's own fields.
+ */
+export function mergeConflictingNotes(local: Note, remote: Note, now: Date = new Date()): Note {
+    const localWins = (local.changeStamp ?? '') >= (remote.changeStamp ?? '');
+    const [winner, loser] = localWins ? [local, remote] : [remote, local];
+
+    const revisions = new Map<string, NoteRevision>();
+    [...(local.revisions ?? []), ...(remote.revisions ?? [])].forEach(revision => {
+        if (!revisions.has(revision.id)) revisions.set(revision.id, revision);
+    });
+    const conflictId = `conflict-${loser.changeStamp ?? ''}`;
+    const differs = loser.text !== winner.text || loser.category !== winner.category || loser.categoryId !== winner.categoryId;
+    if (differs && !revisions.has(conflictId)) {
+        revisions.set(conflictId, {
+            id: conflictId,
+            timestamp: now,
+            text: loser.text,
+            category: loser.category,
+            categoryId: loser.categoryId,
+            conflict: true,
+        });
+    }
+
+    const merged: Note = {
+        ...winner,
+        revisions: [...revisions.values()]
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+            .slice(-MAX_REVISIONS),
+    };
+    LOCAL_NOTE_FIELDS.forEach(field => copyLocalField(merged, local, field));
+    return merged;
+}
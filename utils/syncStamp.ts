@@ -0,0 +1,85 @@
+/**
+ * @file This file contains the change stamps sync uses to order edits across
+ * devices. A stamp is a hybrid logical clock: the wall-clock time, a counter for
+ * changes within the same millisecond (or while the clock is behind a stamp seen
+ * from another device), and the id of the device that made the change. Stamps
+ * are fixed-width strings, so comparing them as strings orders them by time,
+ * and no two devices produce the same stamp.
+ */
+
+/** The number of base-36 digits used for the time. */
+const TIME_DIGITS = 9;
+/** The number of base-36 digits used for the counter. */
+const COUNTER_DIGITS = 4;
+
+/**
+ * The parts of a change stamp.
+ */
+export interface ParsedStamp {
+    /** The wall-clock time, in milliseconds. */
+    time: number;
+    /** Orders changes made with the same time. */
+    counter: number;
+    /** The device that made the change. */
+    deviceId: string;
+}
+
+/**
+ * Builds a change stamp.
+ * @param {number} time - The wall-clock time, in milliseconds.
+ * @param {number} counter - The counter.
+ * @param {string} deviceId - The device making the change.
+ * @returns {string} The stamp.
+ */
+export function formatStamp(time: number, counter: number, deviceId: string): string {
+    return `${time.toString(36).padStart(TIME_DIGITS, '0')}-${counter.toString(36).padStart(COUNTER_DIGITS, '0')}-${deviceId}`;
+}
+
+/**
+ * Splits a change stamp into its parts.
+ * @param {string} stamp - The stamp.
+ * @returns {ParsedStamp | null} The parts, or null if the stamp is malformed.
+ */
+export function parseStamp(stamp: string): ParsedStamp | null {
+    const match = /^([0-9a-z]{9})-([0-9a-z]{4})-(.+)$/.exec(stamp);
+    if (!match) return null;
+    return { time: parseInt(match[1], 36), counter: parseInt(match[2], 36), deviceId: match[3] };
+}
+
+/**
+ * Creates the stamp for a new change. It is later than every stamp the device
+ * has made or seen, even if the device's clock is behind another device's.
+ * @param {string | null} latest - The latest stamp made or seen on this device.
+ * @param {string} deviceId - This device's id.
+ * @param {number} [now] - The current time in milliseconds. Defaults to now.
+ * @returns {string} The new stamp.
+ */
+export function nextStamp(latest: string | null, deviceId: string, now: number = Date.now()): string {
+    const previous = latest ? parseStamp(latest) : null;
+    if (!previous || now > previous.time) {
+        return formatStamp(now, 0, deviceId);
+    }
+    return formatStamp(previous.time, previous.counter + 1, deviceId);
+}
+
+/**
+ * Returns the later of two stamps.
+ * @param {string | null | undefined} a - A stamp, if any.
+ * @param {string | null | undefined} b - Another stamp, if any.
+ * @returns {string | null} The later stamp, or null if neither is set.
+ */
+export function laterStamp(a: string | null | undefined, b: string | null | undefined): string | null {
+    if (!a) return b ?? null;
+    if (!b) return a;
+    return a > b ? a : b;
+}
+
+/**
+ * Checks whether a stamp was made by a given device.
+ * @param {string | null | undefined} stamp - The stamp.
+ * @param {string} deviceId - The device's id.
+ * @returns {boolean} True if the device made the change.
+ */
+export function isStampFrom(stamp: string | null | undefined, deviceId: string): boolean {
+    return Boolean(stamp) && parseStamp(stamp!)?.deviceId === deviceId;
+}
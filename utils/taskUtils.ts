@@ -0,0 +1,69 @@
+/**
+ * @file This file contains helper functions for the task list.
+ */
+
+import { ExtractedTask, Task } from '../types';
+
+/**
+ * Turns the tasks extracted from a saved note into task list entries.
+ * @param {string} noteId - The id of the note the tasks came from.
+ * @param {ExtractedTask[]} extracted - The extracted tasks.
+ * @param {Date} [now] - The time the tasks are added. Defaults to now.
+ * @returns {Task[]} The new, open tasks.
+ */
+export function createTasks(noteId: string, extracted: ExtractedTask[], now: Date = new Date()): Task[] {
+    return extracted.map(task => ({
+        ...task,
+        id: crypto.randomUUID(),
+        noteId,
+        completed: false,
+        createdAt: now,
+    }));
+}
+
+/**
+ * Sorts tasks for display: the earliest due dates first, then tasks without a
+ * due date, each group from oldest to newest.
+ * @param {Task[]} tasks - The tasks to sort.
+ * @returns {Task[]} A sorted copy of the tasks.
+ */
+export function sortTasks(tasks: Task[]): Task[] {
+    return [...tasks].sort((a, b) => {
+        const aDue = a.dueDate?.getTime() ?? Infinity;
+        const bDue = b.dueDate?.getTime() ?? Infinity;
+        if (aDue !== bDue) return aDue < bDue ? -1 : 1;
+        return a.createdAt.getTime() - b.createdAt.getTime();
+    });
+}
+
+/**
+ * Checks whether an open task is past its due date.
+ * @param {Task} task - The task.
+ * @param {Date} [now] - The current time. Defaults to now.
+ * @returns {boolean} True if the task is open and was due before today.
+ */
+export function isOverdue(task: Task, now: Date = new Date()): boolean {
+    if (task.completed || !task.dueDate) return false;
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return task.dueDate < today;
+}
+
+/**
+ * Describes a due date relative to today, e.g. "Today", "Tomorrow", "Friday" or "Mar 3".
+ * @param {Date} dueDate - The due date.
+ * @param {Date} [now] - The current time. Defaults to now.
+ * @returns {string} The description.
+ */
+export function formatDueDate(dueDate: Date, now: Date = new Date()): string {
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const days = Math.round((new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate()).getTime() - today.getTime()) / 86400000);
+    if (days === 0) return 'Today';
+    if (days === 1) return 'Tomorrow';
+    if (days === -1) return 'Yesterday';
+    if (days > 1 && days < 7) return dueDate.toLocaleDateString(undefined, { weekday: 'long' });
+    return dueDate.toLocaleDateString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        ...(dueDate.getFullYear() !== today.getFullYear() ? { year: 'numeric' } : {}),
+    });
+}
@@ -0,0 +1,49 @@
+/**
+ * @file This file contains small validation helpers shared by the onboarding and
+ * settings forms, and by the code that reads JSON from outside the app.
+ */
+
+/**
+ * Checks whether a string looks like a usable email address.
+ * This is intentionally permissive; it only guards against obvious typos.
+ * @param {string} email - The email address to validate.
+ * @returns {boolean} True if the address has the basic `name@domain.tld` shape.
+ */
+export function isValidEmail(email: string): boolean {
+    return /^\S+@\S+\.\S+$/.test(email.trim());
+}
+
+/**
+ * Checks whether a string is an absolute http or https URL, as webhook targets need.
+ * @param {string} url - The URL to validate.
+ * @returns {boolean} True if the URL can be POSTed to.
+ */
+export function isValidWebhookUrl(url: string): boolean {
+    try {
+        const { protocol } = new URL(url.trim());
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks whether a string can be used as the URL of a sync server: either a path
+ * on the app's own server, such as `/api/sync`, or an absolute http or https URL.
+ * @param {string} url - The URL to validate.
+ * @returns {boolean} True if sync requests can be sent to the URL.
+ */
+export function isValidSyncUrl(url: string): boolean {
+    const trimmed = url.trim();
+    if (trimmed.startsWith('/')) return !trimmed.startsWith('//');
+    return isValidWebhookUrl(trimmed);
+}
+
+/**
+ * Checks whether a parsed JSON value is an object, so its fields can be read.
+ * @param {unknown} value - The value.
+ * @returns {boolean} True for objects other than arrays and null.
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
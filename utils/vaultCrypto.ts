@@ -0,0 +1,94 @@
+/**
+ * @file This file contains the cryptography behind the vault: a key derived from
+ * the user's passphrase with PBKDF2, and AES-GCM encryption of JSON values and
+ * binary data, such as recordings, with it.
+ * Every value gets its own random IV, and AES-GCM refuses values that were changed
+ * or encrypted with a different key.
+ */
+import { SealedValue } from '../types';
+
+/** How many PBKDF2 iterations new vaults use, as recommended for PBKDF2-HMAC-SHA256. */
+export const PBKDF2_ITERATIONS = 600000;
+/** The length of the random salt, in bytes. */
+const SALT_BYTES = 16;
+/** The length of the AES-GCM IV, in bytes. */
+const IV_BYTES = 12;
+
+/**
+ * Creates a random salt for deriving a new key.
+ * @returns {Uint8Array} The salt.
+ */
+export function createSalt(): Uint8Array {
+    return crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+}
+
+/**
+ * Derives the vault key from a passphrase. The key can't be exported, so it only
+ * ever exists inside the browser's crypto implementation.
+ * @param {string} passphrase - The passphrase.
+ * @param {Uint8Array} salt - The vault's salt.
+ * @param {number} iterations - The number of PBKDF2 iterations.
+ * @returns {Promise<CryptoKey>} The AES-GCM key.
+ */
+export async function deriveVaultKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+}
+
+/**
+ * Encrypts binary data.
+ * @param {CryptoKey} key - The vault key.
+ * @param {BufferSource} bytes - The data.
+ * @returns {Promise<SealedValue>} The encrypted data.
+ */
+export async function sealBytes(key: CryptoKey, bytes: BufferSource): Promise<SealedValue> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+    return { iv, data };
+}
+
+/**
+ * Decrypts data encrypted by `sealBytes`.
+ * @param {CryptoKey} key - The vault key.
+ * @param {SealedValue} sealed - The encrypted data.
+ * @returns {Promise<ArrayBuffer>} The data.
+ * @throws {Error} If the key is wrong or the data was tampered with.
+ */
+export function openBytes(key: CryptoKey, sealed: SealedValue): Promise<ArrayBuffer> {
+    return crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+}
+
+/**
+ * Encrypts a value. Dates survive the round trip, which plain JSON would turn into strings.
+ * @param {CryptoKey} key - The vault key.
+ * @param {unknown} value - The value, which must be serializable as JSON.
+ * @returns {Promise<SealedValue>} The encrypted value.
+ */
+export function sealJson(key: CryptoKey, value: unknown): Promise<SealedValue> {
+    const json = JSON.stringify(value, function (this: Record<string, unknown>, name: string, serialized: unknown) {
+        const original = this[name];
+        return original instanceof Date ? { $date: original.toISOString() } : serialized;
+    });
+    return sealBytes(key, new TextEncoder().encode(json));
+}
+
+/**
+ * Decrypts a value encrypted by `sealJson`.
+ * @param {CryptoKey} key - The vault key.
+ * @param {SealedValue} sealed - The encrypted value.
+ * @returns {Promise<unknown>} The value.
+ * @throws {Error} If the key is wrong or the value was tampered with.
+ */
+export async function openJson(key: CryptoKey, sealed: SealedValue): Promise<unknown> {
+    const data = await openBytes(key, sealed);
+    return JSON.parse(new TextDecoder().decode(data), (_name, value) =>
+        value && typeof value === 'object' && typeof value.$date === 'string' && Object.keys(value).length === 1
+            ? new Date(value.$date)
+            : value);
+}
@@ -0,0 +1,116 @@
+/**
+ * @file This file contains a voice-activity detector for captured PCM audio.
+ * It tells speech from silence by the loudness of each frame, measured against
+ * the background noise of the room, which it learns while listening.
+ */
+
+import { SilenceSettings } from '../types';
+
+/** Silence detection is off until the user configures it. */
+export const DEFAULT_SILENCE: SilenceSettings = { autoStopSeconds: 0, splitSeconds: 0 };
+
+/**
+ * Marks the places in a raw transcript where a long pause started a new note.
+ * The Unicode paragraph separator can't come from the transcription itself.
+ */
+export const SEGMENT_BREAK = '\u2029';
+
+/** The quietest level counted as speech, whatever the background noise (about -40 dBFS). */
+const MIN_SPEECH_LEVEL = 0.01;
+/** How much louder than the background noise a frame must be to count as speech. */
+const NOISE_MARGIN = 3;
+/** How quickly the noise estimate follows rising levels; it drops to quieter levels at once. */
+const NOISE_ADAPTATION = 0.02;
+/** How long speech must have stopped before frames count as silence, bridging gaps between words. */
+const HANGOVER_MS = 300;
+/** The range of the level meter, in decibels below full scale. */
+const METER_RANGE_DB = 60;
+/** The quietest level that shows a microphone is picking up sound (-60 dBFS). A muted or missing microphone delivers less. */
+export const MIN_SIGNAL_LEVEL = 0.001;
+/** How long a recording can go without any sound before the user is warned, in milliseconds. */
+export const NO_SIGNAL_WARNING_MS = 5000;
+
+/**
+ * The state of the detector after a frame.
+ */
+export interface VoiceActivity {
+    /** Whether the frame, or one shortly before it, contained speech. */
+    isSpeech: boolean;
+    /** How long it has been silent, in milliseconds. 0 while speaking. */
+    silenceMs: number;
+    /** Whether any speech has been heard since the detector was created. */
+    hasSpoken: boolean;
+}
+
+/**
+ * A voice-activity detector for a single recording session.
+ */
+export interface VoiceActivityDetector {
+    /**
+     * Analyzes the next frame of audio.
+     * @param {Int16Array} pcm - The frame, as 16-bit PCM samples.
+     * @returns {VoiceActivity} The state after the frame.
+     */
+    process: (pcm: Int16Array) => VoiceActivity;
+}
+
+/**
+ * Measures the loudness of a frame.
+ * @param {Int16Array} pcm - The frame, as 16-bit PCM samples.
+ * @returns {number} The RMS level, from 0 (silent) to 1 (full scale).
+ */
+export function frameLevel(pcm: Int16Array): number {
+    if (pcm.length === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < pcm.length; i++) {
+        const sample = pcm[i] / 0x8000;
+        sum += sample * sample;
+    }
+    return Math.sqrt(sum / pcm.length);
+}
+
+/**
+ * Converts a level to the position of a level meter, on a decibel scale from
+ * -60 dBFS (empty) to full scale, which matches how loud sounds seem.
+ * @param {number} level - The RMS level, from 0 to 1.
+ * @returns {number} The meter position, from 0 to 1.
+ */
+export function levelToMeter(level: number): number {
+    if (level <= 0) return 0;
+    const decibels = 20 * Math.log10(level);
+    return Math.min(1, Math.max(0, (decibels + METER_RANGE_DB) / METER_RANGE_DB));
+}
+
+/**
+ * Creates a voice-activity detector.
+ * @param {number} sampleRate - The sample rate of the frames, used to measure time.
+ * @returns {VoiceActivityDetector} The detector.
+ */
+export function createVoiceActivityDetector(sampleRate: number): VoiceActivityDetector {
+    let noiseLevel: number | null = null;
+    let quietMs = 0;
+    let hasSpoken = false;
+
+    return {
+        process(pcm) {
+            const level = frameLevel(pcm);
+            const durationMs = (pcm.length / sampleRate) * 1000;
+            const threshold = Math.max(MIN_SPEECH_LEVEL, (noiseLevel ?? 0) * NOISE_MARGIN);
+            const isLoud = level > threshold;
+
+            if (isLoud) {
+                quietMs = 0;
+                hasSpoken = true;
+            } else {
+                quietMs += durationMs;
+                // Only quiet frames teach the detector what the room sounds like.
+                noiseLevel = noiseLevel === null || level < noiseLevel
+                    ? level
+                    : noiseLevel + (level - noiseLevel) * NOISE_ADAPTATION;
+            }
+
+            const isSpeech = hasSpoken && quietMs < HANGOVER_MS;
+            return { isSpeech, silenceMs: isSpeech ? 0 : quietMs, hasSpoken };
+        },
+    };
+}
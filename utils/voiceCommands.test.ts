@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CATEGORIES } from './categoryUtils';
+import { applyVoiceCommands, DEFAULT_VOICE_COMMANDS } from './voiceCommands';
+
+/** The categories and addresses commands can refer to. */
+const context = { categories: DEFAULT_CATEGORIES, emailAddresses: ['me@example.com'] };
+
+describe('applyVoiceCommands', () => {
+    it('starts a bullet list in a new paragraph', () => {
+        const { text } = applyVoiceCommands('Shopping list, new paragraph, bullet point milk bullet point eggs', DEFAULT_VOICE_COMMANDS, context);
+        expect(text).toBe('Shopping list\n\n- Milk\n- Eggs');
+    });
+
+    it('keeps a line break before a command that leaves no text', () => {
+        const { text, category } = applyVoiceCommands('Call the bank new line category ideas open a savings account', DEFAULT_VOICE_COMMANDS, context);
+        expect(category?.id).toBe('ideas');
+        expect(text).toBe('Call the bank\nOpen a savings account');
+    });
+});
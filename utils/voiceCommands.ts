@@ -0,0 +1,269 @@
+/**
+ * @file This file contains the parser for spoken commands in a dictation, such as
+ * "new paragraph" or "scratch that". The whole transcript is parsed each time it
+ * grows, so a command split across two partial transcripts is still recognized,
+ * and the result doesn't depend on how the text was chunked.
+ */
+
+import { Category, VoiceCommandAction, VoiceCommandPhrases } from '../types';
+import { findCategory, normalizeCategoryName } from './categoryUtils';
+
+/** The phrases used until the user configures their own. */
+export const DEFAULT_VOICE_COMMANDS: VoiceCommandPhrases = {
+    newParagraph: ['new paragraph'],
+    newLine: ['new line'],
+    bulletPoint: ['bullet point', 'next bullet'],
+    scratchThat: ['scratch that', 'delete that'],
+    setCategory: ['category'],
+    sendTo: ['send to'],
+    stopDictation: ['stop dictation', 'stop recording'],
+};
+
+/** How each command is described in settings and in the on-screen confirmation. */
+export const VOICE_COMMAND_LABELS: Record<VoiceCommandAction, string> = {
+    newParagraph: 'New paragraph',
+    newLine: 'New line',
+    bulletPoint: 'Bullet point',
+    scratchThat: 'Remove the last sentence',
+    setCategory: 'Set the category (say the phrase, then the category name)',
+    sendTo: 'Email after saving (say the phrase, then an address or its name, e.g. "work")',
+    stopDictation: 'Stop dictation',
+};
+
+/**
+ * A command found in the transcript.
+ */
+export interface RecognizedCommand {
+    /** What the command does. */
+    action: VoiceCommandAction;
+    /** The category chosen by a `setCategory` command. */
+    category?: Category;
+    /** The email address chosen by a `sendTo` command. */
+    recipient?: string;
+}
+
+/**
+ * The transcript after applying the commands in it.
+ */
+export interface VoiceCommandResult {
+    /** The note text, with the commands removed and applied. */
+    text: string;
+    /** Every command found, in the order they were spoken. */
+    commands: RecognizedCommand[];
+    /** The category chosen by the last `setCategory` command, if any. */
+    category?: Category;
+    /** The email address chosen by the last `sendTo` command, if any. */
+    recipient?: string;
+    /** Whether the speaker asked to stop dictating. */
+    stop: boolean;
+}
+
+/**
+ * Context needed to resolve the arguments of some commands.
+ */
+export interface VoiceCommandContext {
+    /** The user's categories, for `setCategory`. */
+    categories: Category[];
+    /** The user's email addresses, for `sendTo`. The first one is the default. */
+    emailAddresses: string[];
+}
+
+/** Characters transcription puts around words, which are ignored when matching phrases. */
+const SEPARATOR = '[\\s,.!?;:]+';
+
+/**
+ * Escapes text for use in a regular expression.
+ * @param {string} text - The text.
+ * @returns {string} The escaped text.
+ */
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds a pattern matching a phrase as whole words, ignoring case and punctuation between words.
+ * @param {string} phrase - The phrase.
+ * @returns {string} The pattern source.
+ */
+const phrasePattern = (phrase: string): string =>
+    phrase.trim().split(/\s+/).map(escapeRegExp).join(SEPARATOR);
+
+/**
+ * Builds a pattern matching a name as spoken: the separators inside it are
+ * optional, so "To-Do" matches "to do", "to-do" and "todo".
+ * @param {string} name - The category name or recipient name.
+ * @returns {string} The pattern source.
+ */
+const namePattern = (name: string): string =>
+    name.trim().split(/[^\p{L}\p{N}]+/u).filter(Boolean).map(escapeRegExp).join('[\\s\\-,.]*');
+
+/**
+ * Returns the names an email address can be referred to by: "work" for
+ * work@example.com or me@work.com, and "default" or "me" for the default address.
+ * @param {string} email - The address.
+ * @param {boolean} isDefault - Whether it is the user's default address.
+ * @returns {string[]} The spoken names, lowercase.
+ */
+const recipientNames = (email: string, isDefault: boolean): string[] => {
+    const [local, domain = ''] = email.toLowerCase().split('@');
+    const names = [local, domain.split('.')[0], ...(isDefault ? ['default', 'me', 'myself'] : [])];
+    return names.filter(Boolean);
+};
+
+/**
+ * Removes the last sentence from text, e.g. after "scratch that".
+ * A sentence ends at `.`, `!`, `?` or a line break.
+ * @param {string} text - The text so far.
+ * @returns {string} The text without its last sentence.
+ */
+export function removeLastSentence(text: string): string {
+    const trimmed = text.replace(/[\s.!?]+$/, '');
+    const boundary = Math.max(trimmed.lastIndexOf('\n'), ...['.', '!', '?'].map(mark => trimmed.lastIndexOf(mark)));
+    if (boundary === -1) return '';
+    const kept = trimmed.slice(0, boundary + 1);
+    return trimmed[boundary] === '\n' ? kept : `${kept} `;
+}
+
+/**
+ * Removes the spaces and clause punctuation left at the end of the text before a
+ * command. Line breaks made by earlier commands are kept.
+ * @param {string} text - The text so far.
+ * @returns {string} The text without trailing spaces, commas, semicolons or colons.
+ */
+const trimTrailing = (text: string): string => text.replace(/(?:[^\S\n]|[,;:])+$/, '');
+
+/**
+ * Ends the text before a command that removes itself from the note, leaving a
+ * space before the words that follow unless they start a line.
+ * @param {string} text - The text so far.
+ * @returns {string} The trimmed text, with a space if it doesn't end with a line break.
+ */
+const endWord = (text: string): string => {
+    const trimmed = trimTrailing(text);
+    return trimmed === '' || trimmed.endsWith('\n') ? trimmed : `${trimmed} `;
+};
+
+/**
+ * Appends dictated text to the output, tidying the seam after a line break or bullet.
+ * @param {string} output - The text so far.
+ * @param {string} segment - The text to append.
+ * @returns {string} The combined text.
+ */
+const appendSegment = (output: string, segment: string): string => {
+    if (output === '' || output.endsWith('\n') || output.endsWith('- ')) {
+        // Drop the space and punctuation transcription left between the command and the next words.
+        const cleaned = segment.replace(/^[\s,.!?;:]+/, '');
+        return output + cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+    }
+    return output + segment;
+};
+
+/**
+ * Fills in the default phrases for commands the user hasn't configured.
+ * @param {Partial<VoiceCommandPhrases>} [stored] - The phrases from the user's settings.
+ * @returns {VoiceCommandPhrases} The phrases for every command.
+ */
+export function resolveVoiceCommands(stored?: Partial<VoiceCommandPhrases>): VoiceCommandPhrases {
+    return { ...DEFAULT_VOICE_COMMANDS, ...stored };
+}
+
+/**
+ * Finds and applies the voice commands in a transcript.
+ * @param {string} transcript - The raw transcript.
+ * @param {VoiceCommandPhrases} phrases - The phrases that trigger each command.
+ * @param {VoiceCommandContext} context - The categories and email addresses commands can refer to.
+ * @returns {VoiceCommandResult} The note text and the commands found.
+ */
+export function applyVoiceCommands(transcript: string, phrases: VoiceCommandPhrases, context: VoiceCommandContext): VoiceCommandResult {
+    const categoryNames = context.categories.map(c => c.name);
+    const recipients = context.emailAddresses.flatMap((email, index) =>
+        recipientNames(email, index === 0).map(name => ({ name, email })));
+
+    // One alternative per command, each in a named group. Arguments are matched
+    // against the known names only, longest first, so "category ideas for work"
+    // keeps "for work" as text.
+    const alternatives = (Object.keys(phrases) as VoiceCommandAction[]).flatMap(action => {
+        const actionPhrases = phrases[action].filter(phrase => phrase.trim());
+        if (actionPhrases.length === 0) return [];
+        const phraseGroup = `(?:${actionPhrases.map(phrasePattern).join('|')})`;
+        if (action === 'setCategory' || action === 'sendTo') {
+            const names = action === 'setCategory' ? categoryNames : recipients.map(r => r.name);
+            if (names.length === 0) return [];
+            const nameGroup = [...names].sort((a, b) => b.length - a.length).map(namePattern).join('|');
+            return [`(?<${action}>${phraseGroup}${SEPARATOR}(?<${action}Arg>${nameGroup}))`];
+        }
+        return [`(?<${action}>${phraseGroup})`];
+    });
+
+    const result: VoiceCommandResult = { text: '', commands: [], stop: false };
+    if (alternatives.length === 0) {
+        result.text = transcript;
+        return result;
+    }
+
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])[.,!?;:]*`, 'giu');
+    let output = '';
+    let position = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(transcript)) !== null) {
+        output = appendSegment(output, transcript.slice(position, match.index));
+        position = match.index + match[0].length;
+
+        const groups = match.groups ?? {};
+        const action = (Object.keys(phrases) as VoiceCommandAction[]).find(key => groups[key] !== undefined);
+        if (!action) continue;
+        const command: RecognizedCommand = { action };
+
+        switch (action) {
+            case 'newParagraph':
+                output = trimTrailing(output) + '\n\n';
+                break;
+            case 'newLine':
+                output = trimTrailing(output) + '\n';
+                break;
+            case 'bulletPoint':
+                output = trimTrailing(output);
+                output = !output.trim() ? '- ' : output.endsWith('\n') ? `${output}- ` : `${output}\n- `;
+                break;
+            case 'scratchThat':
+                output = removeLastSentence(output);
+                break;
+            case 'setCategory':
+                command.category = findCategory(context.categories, groups.setCategoryArg);
+                result.category = command.category;
+                output = endWord(output);
+                break;
+            case 'sendTo': {
+                const spoken = normalizeCategoryName(groups.sendToArg);
+                command.recipient = recipients.find(r => normalizeCategoryName(r.name) === spoken)?.email;
+                result.recipient = command.recipient;
+                output = endWord(output);
+                break;
+            }
+            case 'stopDictation':
+                result.stop = true;
+                output = endWord(output);
+                break;
+        }
+        result.commands.push(command);
+    }
+    output = appendSegment(output, transcript.slice(position));
+
+    result.text = trimTrailing(output.replace(/[ \t]+\n/g, '\n').trimEnd()).trimStart();
+    return result;
+}
+
+/**
+ * Describes a recognized command for the on-screen confirmation.
+ * @param {RecognizedCommand} command - The command.
+ * @returns {string} A short description, e.g. "Category: Ideas".
+ */
+export function describeCommand(command: RecognizedCommand): string {
+    switch (command.action) {
+        case 'newParagraph': return 'New paragraph';
+        case 'newLine': return 'New line';
+        case 'bulletPoint': return 'Bullet point';
+        case 'scratchThat': return 'Removed the last sentence';
+        case 'setCategory': return `Category: ${command.category?.name ?? 'unknown'}`;
+        case 'sendTo': return `Will email ${command.recipient ?? 'unknown'} after saving`;
+        case 'stopDictation': return 'Stopping dictation';
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * @file This file contains a WAV encoder for captured PCM audio.
+ */
+
+/**
+ * Encodes 16-bit mono PCM frames as a WAV file.
+ * @param {Int16Array[]} frames - The PCM frames, in order.
+ * @param {number} sampleRate - The sample rate of the frames.
+ * @returns {Blob} An `audio/wav` blob containing the frames.
+ */
+export function encodeWav(frames: Int16Array[], sampleRate: number): Blob {
+    const sampleCount = frames.reduce((total, frame) => total + frame.length, 0);
+    const dataSize = sampleCount * 2;
+    const header = new DataView(new ArrayBuffer(44));
+
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) {
+            header.setUint8(offset + i, value.charCodeAt(i));
+        }
+    };
+
+    writeString(0, 'RIFF');
+    header.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    header.setUint32(16, 16, true); // Size of the fmt chunk
+    header.setUint16(20, 1, true); // PCM format
+    header.setUint16(22, 1, true); // Mono
+    header.setUint32(24, sampleRate, true);
+    header.setUint32(28, sampleRate * 2, true); // Byte rate
+    header.setUint16(32, 2, true); // Block align
+    header.setUint16(34, 16, true); // Bits per sample
+    writeString(36, 'data');
+    header.setUint32(40, dataSize, true);
+
+    // Int16Array is little-endian on every platform browsers run on, matching WAV.
+    return new Blob([header.buffer, ...frames], { type: 'audio/wav' });
+}
+
+/**
+ * Calculates the duration of a set of PCM frames.
+ * @param {Int16Array[]} frames - The PCM frames.
+ * @param {number} sampleRate - The sample rate of the frames.
+ * @returns {number} The duration in seconds.
+ */
+export function framesDuration(frames: Int16Array[], sampleRate: number): number {
+    return frames.reduce((total, frame) => total + frame.length, 0) / sampleRate;
+}
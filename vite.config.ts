@@ -8,11 +8,19 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The QuickNotes server (npm run server) holds the Gemini API key and answers /api.
+        proxy: {
+          '/api': {
+            target: `http://localhost:${env.PORT || 8080}`,
+            ws: true,
+          },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Only whether a key is configured reaches the browser, never the key itself.
+        'process.env.GEMINI_CONFIGURED': JSON.stringify(env.GEMINI_API_KEY ? 'true' : ''),
+        'process.env.TRANSCRIPTION_PROVIDER': JSON.stringify(env.TRANSCRIPTION_PROVIDER)
       },
       resolve: {
         alias: {